@@ -1,6 +1,6 @@
 import express from 'express';
 import cors from 'cors';
-import { DiscordDB } from 'discordongo-db';
+import { DiscordDB, DuplicateKeyError } from 'discordongo-db';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -126,12 +126,6 @@ app.post('/api/users', async (req, res) => {
       });
     }
 
-    // Check if user already exists
-    const existingUser = await db.findOne<User>({ email });
-    if (existingUser) {
-      return res.status(409).json({ error: 'User with this email already exists' });
-    }
-
     const userData: User = {
       name,
       email,
@@ -145,6 +139,11 @@ app.post('/api/users', async (req, res) => {
     
     res.status(201).json(newUser);
   } catch (error) {
+    // The unique email index rejects duplicates, including concurrent signups to this
+    // server; other servers writing to the channel are only checked against what they have synced
+    if (error instanceof DuplicateKeyError) {
+      return res.status(409).json({ error: 'User with this email already exists' });
+    }
     res.status(500).json({ 
       error: 'Failed to create user',
       message: error instanceof Error ? error.message : 'Unknown error'
@@ -163,12 +162,15 @@ app.put('/api/users/:id', async (req, res) => {
     if (role) updateData.role = role;
     updateData.updatedAt = new Date().toISOString();
 
-    const result = await db.updateById(req.params.id, { $set: updateData });
-    if (result.modifiedCount === 0) {
+    const updatedUser = await db.findOneAndUpdate<User>(
+      { _id: req.params.id },
+      { $set: updateData },
+      { returnDocument: 'after' }
+    );
+    if (!updatedUser) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    const updatedUser = await db.findById<User>(req.params.id);
     res.json(updatedUser);
   } catch (error) {
     res.status(500).json({ 
@@ -180,7 +182,14 @@ app.put('/api/users/:id', async (req, res) => {
 
 app.delete('/api/users/:id', async (req, res) => {
   try {
-    const result = await db.deleteById(req.params.id);
+    // The user and their tasks go together, or not at all
+    const result = await db.withTransaction(async session => {
+      const deleted = await session.deleteOne({ _id: req.params.id });
+      if (deleted.deletedCount > 0) {
+        await session.deleteMany({ userId: req.params.id });
+      }
+      return deleted;
+    });
     if (result.deletedCount === 0) {
       return res.status(404).json({ error: 'User not found' });
     }
@@ -206,6 +215,8 @@ app.get('/api/tasks', async (req, res) => {
     if (limit) options.limit = parseInt(limit as string);
     if (skip) options.skip = parseInt(skip as string);
     options.sort = { createdAt: -1 };
+    // Users live in the same channel; attach each task's user in one pass
+    options.populate = { path: 'userId', from: db, as: 'user' };
 
     const result = await db.find<Task>(filter, options);
     res.json({
@@ -266,12 +277,15 @@ app.put('/api/tasks/:id', async (req, res) => {
     if (description !== undefined) updateData.description = description;
     if (completed !== undefined) updateData.completed = completed;
 
-    const result = await db.updateById(req.params.id, { $set: updateData });
-    if (result.modifiedCount === 0) {
+    const updatedTask = await db.findOneAndUpdate<Task>(
+      { _id: req.params.id },
+      { $set: updateData },
+      { returnDocument: 'after' }
+    );
+    if (!updatedTask) {
       return res.status(404).json({ error: 'Task not found' });
     }
 
-    const updatedTask = await db.findById<Task>(req.params.id);
     res.json(updatedTask);
   } catch (error) {
     res.status(500).json({ 
@@ -299,10 +313,19 @@ app.delete('/api/tasks/:id', async (req, res) => {
 // Statistics endpoint
 app.get('/api/stats', async (req, res) => {
   try {
-    const totalUsers = await db.countDocuments({});
-    const totalTasks = await db.countDocuments({});
-    const completedTasks = await db.countDocuments({ completed: true });
-    const pendingTasks = await db.countDocuments({ completed: false });
+    const [users] = await db.aggregate<{ total: number }>([
+      { $match: { email: { $exists: true } } },
+      { $count: 'total' }
+    ]);
+    const taskGroups = await db.aggregate<{ _id: boolean; count: number }>([
+      { $match: { userId: { $exists: true } } },
+      { $group: { _id: '$completed', count: { $sum: 1 } } }
+    ]);
+
+    const totalUsers = users?.total || 0;
+    const completedTasks = taskGroups.find(group => group._id === true)?.count || 0;
+    const pendingTasks = taskGroups.find(group => group._id === false)?.count || 0;
+    const totalTasks = completedTasks + pendingTasks;
 
     res.json({
       users: {
@@ -357,6 +380,7 @@ app.listen(PORT, async () => {
     const isConnected = await db.ping();
     if (isConnected) {
       console.log('✅ Successfully connected to Discord!');
+      await db.createIndex({ email: 1 }, { unique: true });
     } else {
       console.log('⚠️  Discord connection test failed');
     }
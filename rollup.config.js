@@ -23,6 +23,6 @@ export default [
         clean: true
       })
     ],
-    external: ['crypto']
+    external: ['crypto', 'zlib']
   }
 ]; 
\ No newline at end of file
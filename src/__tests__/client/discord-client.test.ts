@@ -1,5 +1,5 @@
 import { DiscordClient } from '../../client/discord-client';
-import { AuthenticationError, NetworkError } from '../../types';
+import { AuthenticationError, NetworkError, RateLimitError } from '../../types';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -90,6 +90,93 @@ describe('DiscordClient', () => {
 
       await expect(client.sendMessage('test')).rejects.toThrow(NetworkError);
     });
+
+    it('should wait and retry when rate limited', async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          headers: new Headers({ 'retry-after': '0.01' }),
+          json: jest.fn().mockResolvedValueOnce({ message: 'You are being rate limited.' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValueOnce(mockMessage)
+        });
+
+      const result = await client.sendMessage('test content');
+
+      expect(result).toEqual(mockMessage);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw RateLimitError when the wait exceeds the configured maximum', async () => {
+      const impatient = new DiscordClient({ ...mockConfig, rateLimit: { maxWaitMs: 100 } });
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'retry-after': '30' }),
+        json: jest.fn().mockResolvedValueOnce({ message: 'You are being rate limited.' })
+      });
+
+      const error = await impatient.sendMessage('test').catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.retryAfter).toBeGreaterThan(29000);
+    });
+  });
+
+  describe('attachments', () => {
+    it('should upload files as multipart form data', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({ id: 'msg-123' })
+      });
+
+      await client.sendMessage('ddb:attachment', [{ name: 'document.json', data: '{"a":1}', contentType: 'application/json' }]);
+
+      const [, options] = (fetch as jest.Mock).mock.calls[0];
+      expect(options.headers).toEqual({ 'Authorization': 'Bot test-token' });
+      expect(options.body).toBeInstanceOf(FormData);
+      expect(JSON.parse(options.body.get('payload_json'))).toEqual({
+        content: 'ddb:attachment',
+        attachments: [{ id: 0, filename: 'document.json' }]
+      });
+      expect(await options.body.get('files[0]').text()).toBe('{"a":1}');
+    });
+
+    it('should clear attachments when editing with an empty file list', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({ id: 'msg-123' })
+      });
+
+      await client.editMessage('msg-123', 'inline', []);
+
+      expect(fetch).toHaveBeenCalledWith(
+        'https://discord.com/api/v10/channels/test-channel-id/messages/msg-123',
+        expect.objectContaining({
+          method: 'PATCH',
+          body: JSON.stringify({ content: 'inline', attachments: [] })
+        })
+      );
+    });
+
+    it('should download attachment bodies', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        text: jest.fn().mockResolvedValueOnce('{"_id":"1"}')
+      });
+
+      const body = await client.downloadAttachment('https://cdn.discordapp.com/attachments/1/2/document.json');
+
+      expect(body).toBe('{"_id":"1"}');
+      expect(fetch).toHaveBeenCalledWith(
+        'https://cdn.discordapp.com/attachments/1/2/document.json',
+        { method: 'GET' }
+      );
+    });
   });
 
   describe('getMessages', () => {
@@ -157,6 +244,40 @@ describe('DiscordClient', () => {
     });
   });
 
+  describe('getMessage', () => {
+    it('should get a single message', async () => {
+      const mockMessage = {
+        id: 'msg-123',
+        content: 'message',
+        timestamp: '2023-01-01T00:00:00.000Z',
+        edited_timestamp: '2023-01-01T01:00:00.000Z'
+      };
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce(mockMessage)
+      });
+
+      const result = await client.getMessage('msg-123');
+
+      expect(fetch).toHaveBeenCalledWith(
+        'https://discord.com/api/v10/channels/test-channel-id/messages/msg-123',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(result).toEqual(mockMessage);
+    });
+
+    it('should report missing messages with a NOT_FOUND code', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        json: jest.fn().mockResolvedValueOnce({ message: 'Unknown Message' })
+      });
+
+      await expect(client.getMessage('missing')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+
   describe('editMessage', () => {
     const mockUpdatedMessage = {
       id: 'msg-123',
@@ -229,6 +350,148 @@ describe('DiscordClient', () => {
     });
   });
 
+  describe('bulkDeleteMessages', () => {
+    // Snowflakes encode their creation time in the bits above 22
+    const snowflakeAt = (time: number) => ((BigInt(time - 1420070400000) << BigInt(22)) + BigInt(1)).toString();
+    const recent = (count: number, now = Date.now()) =>
+      Array.from({ length: count }, (_, i) => snowflakeAt(now - 1000 - i));
+    const old = snowflakeAt(Date.now() - 15 * 24 * 60 * 60 * 1000);
+
+    beforeEach(() => {
+      (fetch as jest.Mock).mockResolvedValue({ ok: true, status: 204 });
+    });
+
+    afterEach(() => {
+      (fetch as jest.Mock).mockReset();
+    });
+
+    it('should delete recent messages in batches of up to 100', async () => {
+      const ids = recent(150);
+
+      await client.bulkDeleteMessages(ids);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(fetch).toHaveBeenNthCalledWith(1,
+        'https://discord.com/api/v10/channels/test-channel-id/messages/bulk-delete',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ messages: ids.slice(0, 100) }) })
+      );
+      expect(fetch).toHaveBeenNthCalledWith(2,
+        'https://discord.com/api/v10/channels/test-channel-id/messages/bulk-delete',
+        expect.objectContaining({ body: JSON.stringify({ messages: ids.slice(100) }) })
+      );
+    });
+
+    it('should delete old and leftover single messages individually', async () => {
+      const ids = recent(101);
+
+      await client.bulkDeleteMessages([...ids, old]);
+
+      const urls = (fetch as jest.Mock).mock.calls.map(([url]) => url);
+      expect(urls).toHaveLength(3);
+      expect(urls).toEqual(expect.arrayContaining([
+        'https://discord.com/api/v10/channels/test-channel-id/messages/bulk-delete',
+        `https://discord.com/api/v10/channels/test-channel-id/messages/${ids[100]}`,
+        `https://discord.com/api/v10/channels/test-channel-id/messages/${old}`
+      ]));
+    });
+
+    it('should surface bulk delete errors', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        statusText: 'Forbidden'
+      });
+
+      await expect(client.bulkDeleteMessages(recent(2))).rejects.toThrow(AuthenticationError);
+    });
+  });
+
+  describe('pins', () => {
+    it('should pin a message', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, status: 204 });
+
+      await client.pinMessage('msg-123');
+
+      expect(fetch).toHaveBeenCalledWith(
+        'https://discord.com/api/v10/channels/test-channel-id/pins/msg-123',
+        expect.objectContaining({ method: 'PUT' })
+      );
+    });
+
+    it('should list pinned messages', async () => {
+      const pinned = [{ id: 'msg-1', content: 'pinned' }];
+      (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValueOnce(pinned) });
+
+      await expect(client.getPinnedMessages()).resolves.toEqual(pinned);
+      expect(fetch).toHaveBeenCalledWith(
+        'https://discord.com/api/v10/channels/test-channel-id/pins',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should report missing messages with a NOT_FOUND code', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        json: jest.fn().mockResolvedValueOnce({ message: 'Unknown Message' })
+      });
+
+      const error = await client.pinMessage('missing').catch(e => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('channels and threads', () => {
+    it('should create a text channel in a guild', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({ id: 'channel-1', type: 0, name: 'users' })
+      });
+
+      const channel = await client.createChannel('guild-1', 'users', 'category-1');
+
+      expect(channel.id).toBe('channel-1');
+      expect(fetch).toHaveBeenCalledWith(
+        'https://discord.com/api/v10/guilds/guild-1/channels',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ name: 'users', type: 0, parent_id: 'category-1' })
+        })
+      );
+    });
+
+    it('should create a public thread', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({ id: 'thread-1', type: 11, name: 'users' })
+      });
+
+      await client.createThread('parent-1', 'users');
+
+      expect(fetch).toHaveBeenCalledWith(
+        'https://discord.com/api/v10/channels/parent-1/threads',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ name: 'users', type: 11, auto_archive_duration: 10080 })
+        })
+      );
+    });
+
+    it('should delete a channel', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({ ok: true });
+
+      await client.deleteChannel('thread-1');
+
+      expect(fetch).toHaveBeenCalledWith(
+        'https://discord.com/api/v10/channels/thread-1',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+  });
+
   describe('getAllMessages', () => {
     it('should paginate through all messages', async () => {
       const batch1 = [
@@ -275,6 +538,119 @@ describe('DiscordClient', () => {
     });
   });
 
+  describe('iterateMessages', () => {
+    const page = (start: number, count: number) => ({
+      ok: true,
+      json: jest.fn().mockResolvedValueOnce(
+        Array.from({ length: count }, (_, i) => ({ id: String(start - i), content: `message ${start - i}` }))
+      )
+    });
+
+    it('should walk the whole history past 1000 messages', async () => {
+      for (let i = 0; i < 12; i++) {
+        (fetch as jest.Mock).mockResolvedValueOnce(page(5000 - i * 100, 100));
+      }
+      (fetch as jest.Mock).mockResolvedValueOnce(page(3800, 0));
+
+      let count = 0;
+      for await (const message of client.iterateMessages()) {
+        expect(message.id).toBe(String(5000 - count));
+        count++;
+      }
+
+      expect(count).toBe(1200);
+      expect(fetch).toHaveBeenCalledTimes(13);
+      expect((fetch as jest.Mock).mock.calls[12][0]).toContain('before=3801');
+    });
+
+    it('should start before the given message and stop at the limit', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce(page(99, 100)).mockResolvedValueOnce(page(-1, 50));
+
+      const ids: string[] = [];
+      for await (const message of client.iterateMessages({ before: '100', limit: 150 })) {
+        ids.push(message.id);
+      }
+
+      expect(ids).toHaveLength(150);
+      expect((fetch as jest.Mock).mock.calls[0][0]).toContain('limit=100&before=100');
+      expect((fetch as jest.Mock).mock.calls[1][0]).toContain('limit=50&before=0');
+    });
+
+    it('should stop fetching when the consumer stops early', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce(page(500, 100));
+
+      for await (const message of client.iterateMessages()) {
+        if (message.id === '498') break;
+      }
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('retries and timeouts', () => {
+    const retryConfig = { ...mockConfig, retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false } };
+
+    it('should retry idempotent requests on server errors', async () => {
+      const client = new DiscordClient(retryConfig);
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable', json: jest.fn() })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: jest.fn().mockResolvedValueOnce([]) });
+
+      await expect(client.getMessages()).resolves.toEqual([]);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry message creation with the same enforced nonce', async () => {
+      const client = new DiscordClient(retryConfig);
+      (fetch as jest.Mock)
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockResolvedValueOnce({ ok: true, status: 200, json: jest.fn().mockResolvedValueOnce({ id: 'msg-1' }) });
+
+      await client.sendMessage('content');
+
+      const bodies = (fetch as jest.Mock).mock.calls.map(([, options]) => JSON.parse(options.body));
+      expect(bodies).toHaveLength(2);
+      expect(bodies[0]).toEqual({ content: 'content', nonce: expect.any(String), enforce_nonce: true });
+      expect(bodies[0].nonce.length).toBeLessThanOrEqual(25);
+      expect(bodies[1]).toEqual(bodies[0]);
+    });
+
+    it('should not retry non-idempotent requests', async () => {
+      const client = new DiscordClient(retryConfig);
+      (fetch as jest.Mock).mockRejectedValueOnce(new Error('socket hang up'));
+
+      await expect(client.createThread('parent', 'users')).rejects.toThrow(NetworkError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const client = new DiscordClient(retryConfig);
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 502,
+        statusText: 'Bad Gateway',
+        json: jest.fn().mockResolvedValue({ message: 'Bad Gateway' })
+      });
+
+      await expect(client.deleteMessage('msg-1')).rejects.toThrow(NetworkError);
+      expect(fetch).toHaveBeenCalledTimes(3);
+      (fetch as jest.Mock).mockReset();
+    });
+
+    it('should abort requests that exceed the timeout', async () => {
+      const client = new DiscordClient({ ...mockConfig, retry: { timeoutMs: 20 } });
+      (fetch as jest.Mock).mockImplementationOnce((_url: string, options: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          options.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+        }));
+
+      const error = await client.getMessages().catch(e => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.code).toBe('TIMEOUT');
+    });
+  });
+
   describe('testConnection', () => {
     it('should return true for successful connection', async () => {
       (fetch as jest.Mock).mockResolvedValueOnce({
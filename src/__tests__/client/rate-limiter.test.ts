@@ -0,0 +1,111 @@
+import { RateLimiter, getRoute } from '../../client/rate-limiter';
+import { RateLimitError } from '../../types';
+
+const response = (status: number, headers: Record<string, string> = {}) =>
+  ({ ok: status < 400, status, headers: new Headers(headers) }) as Response;
+
+describe('RateLimiter', () => {
+  describe('getRoute', () => {
+    it('should keep major parameters and replace other ids', () => {
+      expect(getRoute('patch', '/channels/123/messages/456')).toBe('PATCH /channels/123/messages/:id');
+      expect(getRoute('GET', '/channels/123/messages?limit=100&before=456')).toBe('GET /channels/123/messages');
+      expect(getRoute('POST', '/guilds/789/channels')).toBe('POST /guilds/789/channels');
+    });
+  });
+
+  describe('schedule', () => {
+    it('should run requests of the same bucket one at a time', async () => {
+      const limiter = new RateLimiter();
+      const order: string[] = [];
+      const request = (name: string) => async () => {
+        order.push(`start ${name}`);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        order.push(`end ${name}`);
+        return response(200);
+      };
+
+      await Promise.all([
+        limiter.schedule('POST /channels/1/messages', request('a')),
+        limiter.schedule('POST /channels/1/messages', request('b'))
+      ]);
+
+      expect(order).toEqual(['start a', 'end a', 'start b', 'end b']);
+    });
+
+    it('should delay requests until an exhausted bucket resets', async () => {
+      const limiter = new RateLimiter();
+      const route = 'POST /channels/1/messages';
+
+      await limiter.schedule(route, async () => response(200, {
+        'x-ratelimit-bucket': 'abc',
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset-after': '0.05'
+      }));
+
+      const start = Date.now();
+      await limiter.schedule(route, async () => response(200));
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(40);
+    });
+
+    it('should share state between routes with the same bucket hash and major parameter', async () => {
+      const limiter = new RateLimiter({ maxWaitMs: 10 });
+      const headers = { 'x-ratelimit-bucket': 'shared', 'x-ratelimit-remaining': '1', 'x-ratelimit-reset-after': '5' };
+
+      await limiter.schedule('PATCH /channels/1/messages/:id', async () => response(200, headers));
+      await limiter.schedule('DELETE /channels/1/messages/:id', async () => response(200, headers));
+      await limiter.schedule('DELETE /channels/1/messages/:id', async () => response(200, { ...headers, 'x-ratelimit-remaining': '0' }));
+
+      await expect(limiter.schedule('PATCH /channels/1/messages/:id', async () => response(200)))
+        .rejects.toThrow(RateLimitError);
+      await expect(limiter.schedule('PATCH /channels/2/messages/:id', async () => response(200)))
+        .resolves.toBeDefined();
+    });
+
+    it('should retry after a 429 response', async () => {
+      const limiter = new RateLimiter();
+      const request = jest.fn()
+        .mockResolvedValueOnce(response(429, { 'retry-after': '0.02' }))
+        .mockResolvedValueOnce(response(200));
+
+      const result = await limiter.schedule('GET /channels/1/messages', request);
+
+      expect(result.status).toBe(200);
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should wait a minimum delay after a 429 without a usable retry-after', async () => {
+      const limiter = new RateLimiter({ maxWaitMs: 250 });
+      const request = jest.fn()
+        .mockResolvedValueOnce(response(429, { 'retry-after': '0' }))
+        .mockResolvedValue(response(429, { 'retry-after': 'soon' }));
+
+      const error = await limiter.schedule('GET /channels/1/messages', request).catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should apply global rate limits to every route', async () => {
+      const limited = new RateLimiter({ maxWaitMs: 10 });
+      await limited.schedule('GET /channels/1/messages', async () =>
+        response(429, { 'retry-after': '5', 'x-ratelimit-scope': 'global' })).catch(() => undefined);
+
+      const error = await limited.schedule('POST /channels/2/messages', async () => response(200)).catch(e => e);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.global).toBe(true);
+    });
+
+    it('should throw RateLimitError with retryAfter when the wait exceeds maxWaitMs', async () => {
+      const limiter = new RateLimiter({ maxWaitMs: 100 });
+      const request = jest.fn().mockResolvedValue(response(429, { 'retry-after': '3' }));
+
+      const error = await limiter.schedule('GET /channels/1/messages', request).catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.code).toBe('RATE_LIMITED');
+      expect(error.retryAfter).toBeGreaterThan(2900);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { RetryPolicy } from '../../client/retry';
+import { NetworkError, RateLimitError, AuthenticationError } from '../../types';
+
+const response = (status: number) => ({ ok: status < 400, status }) as Response;
+
+describe('RetryPolicy', () => {
+  it('should not retry by default', async () => {
+    const policy = new RetryPolicy();
+    const request = jest.fn().mockResolvedValue(response(503));
+
+    const result = await policy.execute(request, true);
+
+    expect(policy.enabled).toBe(false);
+    expect(result.status).toBe(503);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry retryable status codes until success', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 1 });
+    const request = jest.fn()
+      .mockResolvedValueOnce(response(500))
+      .mockResolvedValueOnce(response(504))
+      .mockResolvedValueOnce(response(200));
+
+    const result = await policy.execute(request, true);
+
+    expect(result.status).toBe(200);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return the last response once attempts are exhausted', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 2, baseDelayMs: 1 });
+    const request = jest.fn().mockResolvedValue(response(502));
+
+    const result = await policy.execute(request, true);
+
+    expect(result.status).toBe(502);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only retry configured status codes', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 1, retryableStatusCodes: [503] });
+    const request = jest.fn().mockResolvedValue(response(500));
+
+    await policy.execute(request, true);
+
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry network errors but not rate limit or authentication errors', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 1 });
+
+    const flaky = jest.fn()
+      .mockRejectedValueOnce(new NetworkError('connection reset'))
+      .mockResolvedValueOnce(response(200));
+    await expect(policy.execute(flaky, true)).resolves.toEqual(response(200));
+
+    const limited = jest.fn().mockRejectedValue(new RateLimitError('limited', 5000));
+    await expect(policy.execute(limited, true)).rejects.toThrow(RateLimitError);
+    expect(limited).toHaveBeenCalledTimes(1);
+
+    const unauthorized = jest.fn().mockRejectedValue(new AuthenticationError('bad token'));
+    await expect(policy.execute(unauthorized, true)).rejects.toThrow(AuthenticationError);
+    expect(unauthorized).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry network errors when disabled', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 1, retryOnNetworkError: false });
+    const request = jest.fn().mockRejectedValue(new NetworkError('connection reset'));
+
+    await expect(policy.execute(request, true)).rejects.toThrow(NetworkError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry non-idempotent requests', async () => {
+    const policy = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 1 });
+    const request = jest.fn().mockResolvedValue(response(503));
+
+    await policy.execute(request, false);
+
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should back off exponentially up to maxDelayMs', () => {
+    const policy = new RetryPolicy({ baseDelayMs: 100, maxDelayMs: 300, jitter: false });
+
+    expect([1, 2, 3, 4].map(attempt => policy.delayFor(attempt))).toEqual([100, 200, 300, 300]);
+  });
+
+  it('should randomize delays with jitter', () => {
+    const policy = new RetryPolicy({ baseDelayMs: 100 });
+
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      const delay = policy.delayFor(attempt);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(100 * 2 ** (attempt - 1));
+    }
+  });
+});
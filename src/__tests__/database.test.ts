@@ -0,0 +1,225 @@
+import { Database } from '../database';
+import { DiscordDB } from '../discord-db';
+import { ValidationError } from '../types';
+
+// Simulate one message store per channel so collections stay isolated
+let channels: Map<string, any[]> = new Map();
+let idCounter = 1;
+
+const messagesFor = (channelId: string) => {
+  if (!channels.has(channelId)) {
+    channels.set(channelId, []);
+  }
+  return channels.get(channelId)!;
+};
+
+const mockCreateThread = jest.fn();
+const mockCreateChannel = jest.fn();
+const mockDeleteChannel = jest.fn();
+
+jest.mock('../client/discord-client', () => {
+  return {
+    DiscordClient: jest.fn().mockImplementation((config: { channelId: string }) => ({
+      sendMessage: jest.fn().mockImplementation((content: string) => {
+        const message = {
+          id: `msg-${idCounter++}`,
+          content,
+          timestamp: new Date(Date.now() + idCounter).toISOString()
+        };
+        messagesFor(config.channelId).unshift(message);
+        return Promise.resolve(message);
+      }),
+      deleteMessage: jest.fn().mockImplementation((messageId: string) => {
+        const messages = messagesFor(config.channelId);
+        const index = messages.findIndex(m => m.id === messageId);
+        if (index !== -1) {
+          messages.splice(index, 1);
+        }
+        return Promise.resolve();
+      }),
+      bulkDeleteMessages: jest.fn().mockImplementation((messageIds: string[]) => {
+        channels.set(config.channelId, messagesFor(config.channelId).filter(m => !messageIds.includes(m.id)));
+        return Promise.resolve();
+      }),
+      getPinnedMessages: jest.fn().mockResolvedValue([]),
+      pinMessage: jest.fn().mockResolvedValue(undefined),
+      getAllMessages: jest.fn().mockImplementation(() => Promise.resolve([...messagesFor(config.channelId)])),
+      getMessages: jest.fn().mockImplementation((_limit: number, _before?: string, after?: string) => {
+        const sequence = (id: string) => Number(id.split('-').pop());
+        return Promise.resolve(messagesFor(config.channelId).filter(m => !after || sequence(m.id) > sequence(after)));
+      }),
+      createThread: mockCreateThread,
+      createChannel: mockCreateChannel,
+      deleteChannel: mockDeleteChannel,
+      testConnection: jest.fn().mockResolvedValue(true)
+    }))
+  };
+});
+
+describe('Database', () => {
+  const config = {
+    botToken: 'test-token',
+    metadataChannelId: 'meta-channel'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    channels = new Map();
+    idCounter = 1;
+    mockCreateThread.mockImplementation((_parentId: string, name: string) =>
+      Promise.resolve({ id: `thread-${name}`, type: 11, name }));
+    mockCreateChannel.mockImplementation((_guildId: string, name: string) =>
+      Promise.resolve({ id: `channel-${name}`, type: 0, name }));
+    mockDeleteChannel.mockResolvedValue(undefined);
+  });
+
+  describe('constructor', () => {
+    it('should require a metadata channel', () => {
+      expect(() => new Database({ botToken: 'test-token', metadataChannelId: '' }))
+        .toThrow(ValidationError);
+    });
+
+    it('should require a guild for channel collections', () => {
+      expect(() => new Database({ ...config, collectionType: 'channel' }))
+        .toThrow('Guild ID is required');
+    });
+  });
+
+  describe('collection', () => {
+    it('should create a thread and record it in the catalog', async () => {
+      const db = new Database(config);
+
+      const users = await db.collection('users');
+
+      expect(users).toBeInstanceOf(DiscordDB);
+      expect(mockCreateThread).toHaveBeenCalledWith('meta-channel', 'users');
+      expect(messagesFor('meta-channel')).toHaveLength(1);
+      expect(JSON.parse(messagesFor('meta-channel')[0].content)).toMatchObject({
+        name: 'users',
+        channelId: 'thread-users',
+        type: 'thread'
+      });
+    });
+
+    it('should create channels in the configured guild', async () => {
+      const db = new Database({ ...config, collectionType: 'channel', guildId: 'guild-1', parentId: 'category-1' });
+
+      await db.collection('tasks');
+
+      expect(mockCreateChannel).toHaveBeenCalledWith('guild-1', 'tasks', 'category-1');
+    });
+
+    it('should keep documents of different collections in separate channels', async () => {
+      const db = new Database(config);
+      const users = await db.collection('users');
+      const tasks = await db.collection('tasks');
+
+      await users.insertOne({ name: 'Alice' });
+      await tasks.insertOne({ title: 'Write docs' });
+
+      expect(messagesFor('thread-users')).toHaveLength(1);
+      expect(messagesFor('thread-tasks')).toHaveLength(1);
+      expect(await users.countDocuments()).toBe(1);
+      expect((await tasks.findOne({}))!.title).toBe('Write docs');
+    });
+
+    it('should reuse collections from the persisted catalog', async () => {
+      await new Database(config).collection('users');
+
+      const reopened = new Database(config);
+      await reopened.collection('users');
+
+      expect(mockCreateThread).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only create a collection once for concurrent callers', async () => {
+      const db = new Database(config);
+
+      const [a, b] = await Promise.all([db.collection('users'), db.collection('users')]);
+
+      expect(a).toBe(b);
+      expect(mockCreateThread).toHaveBeenCalledTimes(1);
+    });
+
+    it('should yield to an older catalog entry registered concurrently', async () => {
+      const db = new Database(config);
+      mockCreateThread.mockImplementationOnce(async (_parentId: string, name: string) => {
+        // Another instance registers the collection while this one creates its thread
+        messagesFor('meta-channel').push({
+          id: 'msg-0',
+          content: JSON.stringify({ _id: 'other', name, channelId: 'thread-other', type: 'thread' }),
+          timestamp: '2000-01-01T00:00:00.000Z'
+        });
+        return { id: 'thread-mine', type: 11, name };
+      });
+
+      await db.collection('users');
+
+      expect(mockDeleteChannel).toHaveBeenCalledWith('thread-mine');
+      expect(await db.listCollections()).toEqual([
+        expect.objectContaining({ name: 'users', channelId: 'thread-other' })
+      ]);
+    });
+
+    it('should reject invalid collection names', async () => {
+      const db = new Database(config);
+
+      await expect(db.collection('Users!')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('joins', () => {
+    it('should look up sibling collections by name', async () => {
+      const db = new Database(config);
+      const users = await db.collection('users');
+      const tasks = await db.collection('tasks');
+      const { insertedId } = await users.insertOne({ name: 'Alice' });
+      await tasks.insertOne({ title: 'Write docs', userId: insertedId });
+
+      const [task] = await tasks.aggregate([
+        { $lookup: { from: 'users', localField: 'userId', foreignField: '_id', as: 'owner' } }
+      ]);
+      const populated = await tasks.find({}, { populate: { path: 'userId', from: 'users', as: 'user' } });
+
+      expect(task.owner[0].name).toBe('Alice');
+      expect(populated.documents[0].user.name).toBe('Alice');
+    });
+  });
+
+  describe('listCollections', () => {
+    it('should list collections in creation order', async () => {
+      const db = new Database(config);
+      await db.collection('users');
+      await db.collection('tasks');
+
+      const collections = await db.listCollections();
+
+      expect(collections.map(c => c.name)).toEqual(['users', 'tasks']);
+      expect(collections[0]).toEqual({
+        name: 'users',
+        channelId: 'thread-users',
+        type: 'thread',
+        createdAt: expect.any(String)
+      });
+    });
+  });
+
+  describe('dropCollection', () => {
+    it('should delete the channel and catalog entry', async () => {
+      const db = new Database(config);
+      await db.collection('users');
+
+      const dropped = await db.dropCollection('users');
+
+      expect(dropped).toBe(true);
+      expect(mockDeleteChannel).toHaveBeenCalledWith('thread-users');
+      expect(await db.listCollections()).toEqual([]);
+    });
+
+    it('should return false for unknown collections', async () => {
+      const db = new Database(config);
+
+      expect(await db.dropCollection('missing')).toBe(false);
+    });
+  });
+});
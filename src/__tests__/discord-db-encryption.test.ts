@@ -30,6 +30,10 @@ jest.mock('../client/discord-client', () => {
         }
         throw new Error('Message not found');
       }),
+      getMessage: jest.fn().mockImplementation((messageId: string) => {
+        const message = sharedMockMessages.find(m => m.id === messageId);
+        return message ? Promise.resolve(message) : Promise.reject(new Error('Message not found'));
+      }),
       deleteMessage: jest.fn().mockImplementation((messageId: string) => {
         const messageIndex = sharedMockMessages.findIndex(m => m.id === messageId);
         if (messageIndex !== -1) {
@@ -37,9 +41,19 @@ jest.mock('../client/discord-client', () => {
         }
         return Promise.resolve();
       }),
+      bulkDeleteMessages: jest.fn().mockImplementation((messageIds: string[]) => {
+        sharedMockMessages = sharedMockMessages.filter(m => !messageIds.includes(m.id));
+        return Promise.resolve();
+      }),
+      getPinnedMessages: jest.fn().mockResolvedValue([]),
+      pinMessage: jest.fn().mockResolvedValue(undefined),
       getAllMessages: jest.fn().mockImplementation(() => {
         return Promise.resolve([...sharedMockMessages]);
       }),
+      getMessages: jest.fn().mockImplementation((_limit: number, _before?: string, after?: string) => {
+        const sequence = (id: string) => Number(id.split('-').pop());
+        return Promise.resolve(sharedMockMessages.filter(m => !after || sequence(m.id) > sequence(after)));
+      }),
       testConnection: jest.fn().mockResolvedValue(true)
     }))
   };
@@ -186,6 +200,39 @@ describe('DiscordDB with Encryption', () => {
     });
   });
 
+  describe('Codec pipeline', () => {
+    it('should store compressed, encrypted and densely encoded documents', async () => {
+      const db = new DiscordDB({ ...encryptedConfig, codec: { compression: 'deflate', encoding: 'base2048' } });
+
+      await db.insertOne({ name: 'Alice', bio: 'lorem ipsum '.repeat(50) });
+
+      expect(sharedMockMessages[0].content).toMatch(/^ddb:codec:deflate\.aes\.base2048:/);
+      expect(sharedMockMessages[0].content.length).toBeLessThan(200);
+
+      const retrieved = await db.findOne({ name: 'Alice' });
+      expect(retrieved?.bio).toBe('lorem ipsum '.repeat(50));
+    });
+
+    it('should read a mix of plain, encrypted and codec-encoded messages', async () => {
+      await new DiscordDB(mockConfig).insertOne({ name: 'Plain' });
+      await new DiscordDB(encryptedConfig).insertOne({ name: 'Encrypted' });
+      await new DiscordDB({ ...encryptedConfig, codec: { compression: 'brotli' } }).insertOne({ name: 'Brotli' });
+
+      const db = new DiscordDB({ ...encryptedConfig, codec: { compression: 'deflate', encoding: 'base2048' } });
+      const all = await db.find();
+
+      expect(all.documents.map(d => d.name).sort()).toEqual(['Brotli', 'Encrypted', 'Plain']);
+    });
+
+    it('should not read encrypted codec messages without the key', () => {
+      const writer = new DiscordDB({ ...encryptedConfig, codec: { compression: 'deflate' } });
+      const reader = new DiscordDB(mockConfig);
+      const content = (writer as any).serializeDocument({ _id: '1', secret: 'x' });
+
+      expect(() => (reader as any).deserializeDocument(content)).toThrow(/Unknown codec "aes"/);
+    });
+  });
+
   describe('Complex data encryption', () => {
     it('should handle nested objects', async () => {
       const db = new DiscordDB(encryptedConfig);
@@ -228,6 +275,7 @@ describe('DiscordDB with Encryption', () => {
       };
 
       await db.insertOne(docWithSpecialChars);
+      db.clearCache(); // Read back what was stored
       const retrieved = await db.findOne({ text: { $regex: /Hello/ } });
       
       expect(retrieved).toMatchObject({
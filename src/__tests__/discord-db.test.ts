@@ -1,6 +1,6 @@
 import { DiscordDB } from '../discord-db';
 import { DiscordClient } from '../client/discord-client';
-import { ValidationError, DiscordDBError } from '../types';
+import { ValidationError, DiscordDBError, NetworkError, HistoryLimitError, DuplicateKeyError, WriteConflictError, LockTimeoutError, BulkWriteError } from '../types';
 
 // Mock the DiscordClient
 jest.mock('../client/discord-client');
@@ -35,6 +35,27 @@ describe('DiscordDB', () => {
     }
   ];
 
+  // Discord's copy of a message: its latest edit, or the message as it was sent or listed
+  async function storedMessage(messageId: string): Promise<any> {
+    const edits = mockClient.editMessage.mock.calls.filter(([id]) => id === messageId);
+    if (edits.length > 0) {
+      return { id: messageId, content: edits[edits.length - 1][1] };
+    }
+    for (const [i, result] of mockClient.sendMessage.mock.results.entries()) {
+      const sent = await Promise.resolve(result.value).catch(() => undefined);
+      if (sent?.id === messageId) {
+        return { ...sent, content: mockClient.sendMessage.mock.calls[i][0] };
+      }
+    }
+    for (const result of mockClient.getAllMessages.mock.results) {
+      const listed = (await Promise.resolve(result.value).catch(() => [])).find((message: any) => message.id === messageId);
+      if (listed) {
+        return listed;
+      }
+    }
+    throw new NetworkError(`Not found: ${messageId}`, 'NOT_FOUND');
+  }
+
   beforeEach(() => {
     jest.clearAllMocks();
     
@@ -42,9 +63,14 @@ describe('DiscordDB', () => {
     mockClient = {
       sendMessage: jest.fn(),
       getMessages: jest.fn(),
-      getAllMessages: jest.fn(),
+      getAllMessages: jest.fn().mockResolvedValue([]),
       editMessage: jest.fn(),
+      getMessage: jest.fn(storedMessage),
       deleteMessage: jest.fn(),
+      bulkDeleteMessages: jest.fn(),
+      getPinnedMessages: jest.fn().mockResolvedValue([]),
+      pinMessage: jest.fn(),
+      downloadAttachment: jest.fn(),
       testConnection: jest.fn()
     } as any;
 
@@ -81,11 +107,39 @@ describe('DiscordDB', () => {
       expect(result.messageId).toBe('new-msg');
     });
 
-    it('should throw error for document too large', async () => {
-      const largeContent = 'x'.repeat(2000);
+    it('should split documents larger than a message into chunks', async () => {
+      mockClient.sendMessage
+        .mockResolvedValueOnce({ id: 'chunk-1' } as any)
+        .mockResolvedValueOnce({ id: 'chunk-2' } as any)
+        .mockResolvedValueOnce({ id: 'head', timestamp: '2023-01-01T03:00:00.000Z' } as any);
+
+      const result = await db.insertOne({ content: 'x'.repeat(2500) });
+
+      expect(result.messageId).toBe('head');
+      expect(mockClient.sendMessage).toHaveBeenCalledTimes(3);
+      expect(mockClient.sendMessage.mock.calls[0][0]).toMatch(/^ddb:chunk:0:/);
+      expect(mockClient.sendMessage.mock.calls[2][0]).toBe(
+        JSON.stringify({ $chunks: ['chunk-1', 'chunk-2'], $length: JSON.stringify({ content: 'x'.repeat(2500), _id: result.insertedId, _version: 1 }).length })
+      );
+    });
+
+    it('should clean up sent chunks if the header fails', async () => {
+      mockClient.sendMessage
+        .mockResolvedValueOnce({ id: 'chunk-1' } as any)
+        .mockResolvedValueOnce({ id: 'chunk-2' } as any)
+        .mockRejectedValueOnce(new Error('Discord API error'));
+
+      await expect(db.insertOne({ content: 'x'.repeat(2500) })).rejects.toThrow(DiscordDBError);
+      expect(mockClient.deleteMessage).toHaveBeenCalledWith('chunk-1');
+      expect(mockClient.deleteMessage).toHaveBeenCalledWith('chunk-2');
+    });
+
+    it('should throw error for document too large to chunk', async () => {
+      const largeContent = 'x'.repeat(500000);
       
       await expect(db.insertOne({ content: largeContent }))
         .rejects.toThrow(ValidationError);
+      expect(mockClient.sendMessage).not.toHaveBeenCalled();
     });
 
     it('should handle Discord API errors', async () => {
@@ -150,6 +204,21 @@ describe('DiscordDB', () => {
       });
     });
 
+    it('should populate references from another source', async () => {
+      const managers = {
+        find: jest.fn().mockResolvedValue({ documents: [{ _id: 'm1', name: 'Dana' }], total: 1, hasMore: false })
+      };
+      mockClient.getAllMessages.mockResolvedValueOnce([{
+        id: 'msg-4',
+        content: JSON.stringify({ _id: '4', name: 'Eve', managerId: 'm1' }),
+        timestamp: '2023-01-01T03:00:00.000Z'
+      }] as any);
+
+      const result = await db.find({}, { populate: { path: 'managerId', from: managers, as: 'manager' } });
+
+      expect(result.documents[0].manager).toEqual({ _id: 'm1', name: 'Dana' });
+    });
+
     it('should handle empty results', async () => {
       mockClient.getAllMessages.mockResolvedValueOnce([]);
 
@@ -179,6 +248,554 @@ describe('DiscordDB', () => {
     });
   });
 
+  describe('chunked documents', () => {
+    const serialized = JSON.stringify({ _id: 'big', bio: 'y'.repeat(3000) });
+    const pieces = [serialized.slice(0, 1980), serialized.slice(1980)];
+    const chunkedMessages = [
+      { id: 'head', content: JSON.stringify({ $chunks: ['c0', 'c1'], $length: serialized.length }), timestamp: '2023-01-01T05:00:00.000Z' },
+      { id: 'c1', content: `ddb:chunk:1:${pieces[1]};`, timestamp: '2023-01-01T04:00:01.000Z' },
+      { id: 'c0', content: `ddb:chunk:0:${pieces[0]};`, timestamp: '2023-01-01T04:00:00.000Z' },
+      ...mockMessages
+    ];
+
+    beforeEach(() => {
+      mockClient.getAllMessages.mockResolvedValue(chunkedMessages as any);
+    });
+
+    it('should reassemble chunked documents', async () => {
+      const doc = await db.findById('big');
+
+      expect(doc).not.toBeNull();
+      expect(doc!.bio).toBe('y'.repeat(3000));
+      expect(doc!._messageId).toBe('head');
+      expect(await db.countDocuments()).toBe(4);
+    });
+
+    it('should skip documents with missing chunks', async () => {
+      mockClient.getAllMessages.mockResolvedValue(chunkedMessages.filter(m => m.id !== 'c1') as any);
+
+      expect(await db.findById('big')).toBeNull();
+    });
+
+    it('should replace chunks when a chunked document shrinks', async () => {
+      mockClient.editMessage.mockResolvedValueOnce({} as any);
+
+      await db.updateOne({ _id: 'big' }, { $set: { bio: 'short' } });
+
+      expect(mockClient.editMessage).toHaveBeenCalledWith('head', expect.stringContaining('"bio":"short"'));
+      expect(mockClient.deleteMessage).toHaveBeenCalledWith('c0');
+      expect(mockClient.deleteMessage).toHaveBeenCalledWith('c1');
+    });
+
+    it('should delete the header and all chunks', async () => {
+      mockClient.deleteMessage.mockResolvedValue(undefined);
+
+      await db.deleteOne({ _id: 'big' });
+
+      expect(mockClient.deleteMessage.mock.calls.map(call => call[0])).toEqual(['head', 'c0', 'c1']);
+    });
+  });
+
+  describe('attachment storage', () => {
+    const attachmentMessage = {
+      id: 'att-msg',
+      content: 'ddb:attachment',
+      timestamp: '2023-01-01T05:00:00.000Z',
+      attachments: [{ id: 'a1', filename: 'document.json', url: 'https://cdn.example/document.json' }]
+    };
+
+    it('should store oversized documents as attachments', async () => {
+      db = new DiscordDB({ ...mockConfig, attachmentMode: 'oversized' });
+      mockClient.sendMessage.mockResolvedValueOnce({ id: 'att-msg', timestamp: '2023-01-01T05:00:00.000Z' } as any);
+
+      await db.insertOne({ bio: 'x'.repeat(2500) });
+
+      expect(mockClient.sendMessage).toHaveBeenCalledTimes(1);
+      expect(mockClient.sendMessage).toHaveBeenCalledWith('ddb:attachment', [
+        expect.objectContaining({ name: 'document.json', data: expect.stringContaining('"bio":"xxx') })
+      ]);
+    });
+
+    it('should keep small documents inline in oversized mode', async () => {
+      db = new DiscordDB({ ...mockConfig, attachmentMode: 'oversized' });
+      mockClient.sendMessage.mockResolvedValueOnce({ id: 'msg', timestamp: '2023-01-01T05:00:00.000Z' } as any);
+
+      await db.insertOne({ name: 'Small' });
+
+      expect(mockClient.sendMessage).toHaveBeenCalledWith(expect.stringContaining('"name":"Small"'));
+    });
+
+    it('should read documents from attachments', async () => {
+      mockClient.getAllMessages.mockResolvedValue([attachmentMessage, ...mockMessages] as any);
+      mockClient.downloadAttachment.mockResolvedValueOnce(JSON.stringify({ _id: 'att', name: 'Attached' }));
+
+      const doc = await db.findById('att');
+
+      expect(mockClient.downloadAttachment).toHaveBeenCalledWith('https://cdn.example/document.json');
+      expect(doc!.name).toBe('Attached');
+      expect(doc!._messageId).toBe('att-msg');
+    });
+
+    it('should re-upload the attachment on edit in always mode', async () => {
+      db = new DiscordDB({ ...mockConfig, attachmentMode: 'always' });
+      mockClient.getAllMessages.mockResolvedValue([attachmentMessage] as any);
+      mockClient.downloadAttachment.mockResolvedValueOnce(JSON.stringify({ _id: 'att', name: 'Attached' }));
+      mockClient.editMessage.mockResolvedValueOnce({} as any);
+
+      await db.updateOne({ _id: 'att' }, { $set: { name: 'Renamed' } });
+
+      expect(mockClient.editMessage).toHaveBeenCalledWith('att-msg', 'ddb:attachment', [
+        expect.objectContaining({ name: 'document.json', data: expect.stringContaining('"name":"Renamed"') })
+      ]);
+    });
+
+    it('should remove the attachment when a document moves back inline', async () => {
+      db = new DiscordDB({ ...mockConfig, attachmentMode: 'oversized' });
+      mockClient.getAllMessages.mockResolvedValue([attachmentMessage] as any);
+      mockClient.downloadAttachment.mockResolvedValueOnce(JSON.stringify({ _id: 'att', name: 'Attached' }));
+      mockClient.editMessage.mockResolvedValueOnce({} as any);
+
+      await db.updateOne({ _id: 'att' }, { $set: { name: 'Renamed' } });
+
+      expect(mockClient.editMessage).toHaveBeenCalledWith('att-msg', expect.stringContaining('"name":"Renamed"'), []);
+    });
+  });
+
+  describe('cache synchronization', () => {
+    beforeEach(() => {
+      mockClient.getAllMessages.mockResolvedValue(mockMessages as any);
+      mockClient.getMessages.mockResolvedValue([]);
+    });
+
+    it('should only fetch messages after the newest one seen', async () => {
+      db.setCacheTimeout(0);
+      await db.find();
+
+      mockClient.getMessages.mockResolvedValueOnce([
+        { id: 'msg-4', content: JSON.stringify({ _id: '4', name: 'Eve' }), timestamp: '2023-01-01T03:00:00.000Z' }
+      ] as any);
+      const result = await db.find();
+
+      expect(mockClient.getAllMessages).toHaveBeenCalledTimes(1);
+      expect(mockClient.getMessages).toHaveBeenCalledWith(100, undefined, 'msg-3');
+      expect(result.total).toBe(4);
+    });
+
+    it('should page through new messages and advance the cursor', async () => {
+      db.setCacheTimeout(0);
+      await db.find();
+
+      const batch = Array.from({ length: 100 }, (_, i) => ({
+        id: String(1000 + i),
+        content: JSON.stringify({ _id: `new-${i}` }),
+        timestamp: '2023-01-02T00:00:00.000Z'
+      }));
+      mockClient.getMessages.mockResolvedValueOnce(batch as any).mockResolvedValueOnce([]);
+      await db.find();
+      await db.find();
+
+      expect(mockClient.getMessages).toHaveBeenNthCalledWith(2, 100, undefined, '1099');
+      expect(mockClient.getMessages).toHaveBeenNthCalledWith(3, 100, undefined, '1099');
+    });
+
+    it('should fetch the chunks of a header that arrives after them', async () => {
+      db.setCacheTimeout(0);
+      await db.find();
+
+      // Another writer sends its chunks, then this instance syncs, then the header is sent
+      const serialized = JSON.stringify({ _id: 'big', bio: 'y'.repeat(3000) });
+      const chunks = [
+        { id: '1000', content: `ddb:chunk:0:${serialized.slice(0, 1980)};`, timestamp: '2023-01-02T00:00:00.000Z' },
+        { id: '1001', content: `ddb:chunk:1:${serialized.slice(1980)};`, timestamp: '2023-01-02T00:00:01.000Z' }
+      ];
+      const header = {
+        id: '1002',
+        content: JSON.stringify({ $chunks: ['1000', '1001'], $length: serialized.length }),
+        timestamp: '2023-01-02T00:00:02.000Z'
+      };
+      mockClient.getMessage.mockImplementation(async (id: string) => chunks.find(chunk => chunk.id === id) as any);
+      mockClient.getMessages.mockResolvedValueOnce(chunks as any).mockResolvedValueOnce([header] as any);
+
+      expect((await db.find()).total).toBe(3);
+      const doc = await db.findById('big');
+
+      expect(doc?.bio).toBe('y'.repeat(3000));
+      expect(mockClient.getMessage).toHaveBeenCalledWith('1000');
+      expect(mockClient.getMessage).toHaveBeenCalledWith('1001');
+    });
+
+    it('should reconcile deletions with a periodic full rescan', async () => {
+      db = new DiscordDB({ ...mockConfig, sync: { reconcileIntervalMs: 0 } });
+      db.setCacheTimeout(0);
+      await db.find();
+
+      mockClient.getAllMessages.mockResolvedValue([mockMessages[0]] as any);
+      const result = await db.find();
+
+      expect(mockClient.getAllMessages).toHaveBeenCalledTimes(2);
+      expect(result.total).toBe(1);
+    });
+
+    it('should reuse unchanged documents when reconciling', async () => {
+      const attachmentMessage = {
+        id: 'msg-9',
+        content: 'ddb:attachment',
+        timestamp: '2023-01-01T05:00:00.000Z',
+        edited_timestamp: null,
+        attachments: [{ filename: 'document.json', url: 'https://cdn.example/document.json' }]
+      };
+      mockClient.getAllMessages.mockResolvedValue([attachmentMessage] as any);
+      mockClient.downloadAttachment.mockResolvedValue(JSON.stringify({ _id: 'att', name: 'Attached' }));
+      db = new DiscordDB({ ...mockConfig, sync: { reconcileIntervalMs: 0 } });
+      db.setCacheTimeout(0);
+
+      await db.find();
+      await db.find();
+      expect(mockClient.downloadAttachment).toHaveBeenCalledTimes(1);
+
+      mockClient.getAllMessages.mockResolvedValue([{ ...attachmentMessage, edited_timestamp: '2023-01-02T00:00:00.000Z' }] as any);
+      await db.find();
+      expect(mockClient.downloadAttachment).toHaveBeenCalledTimes(2);
+    });
+
+    it('should always rescan in full mode', async () => {
+      db = new DiscordDB({ ...mockConfig, sync: { mode: 'full' } });
+      db.setCacheTimeout(0);
+
+      await db.find();
+      await db.find();
+
+      expect(mockClient.getAllMessages).toHaveBeenCalledTimes(2);
+      expect(mockClient.getMessages).not.toHaveBeenCalled();
+    });
+
+    it('should start over after clearing the cache', async () => {
+      await db.find();
+      db.clearCache();
+      await db.find();
+
+      expect(mockClient.getAllMessages).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('history limit', () => {
+    beforeEach(() => {
+      mockClient.getAllMessages.mockResolvedValue(mockMessages as any);
+    });
+
+    it('should scan the full history by default', async () => {
+      await db.find();
+
+      expect(mockClient.getAllMessages).toHaveBeenCalledWith(Infinity);
+    });
+
+    it('should warn and truncate when the history exceeds maxMessages', async () => {
+      db = new DiscordDB({ ...mockConfig, maxMessages: 2 });
+
+      const result = await db.find();
+
+      expect(mockClient.getAllMessages).toHaveBeenCalledWith(3);
+      expect(result.total).toBe(2);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('more than 2 messages'));
+    });
+
+    it('should throw in error mode when the history exceeds maxMessages', async () => {
+      db = new DiscordDB({ ...mockConfig, maxMessages: 2, historyLimitMode: 'error' });
+
+      await expect(db.find()).rejects.toThrow(HistoryLimitError);
+    });
+
+    it('should not complain when the history fits', async () => {
+      db = new DiscordDB({ ...mockConfig, maxMessages: 3, historyLimitMode: 'error' });
+
+      const result = await db.find();
+
+      expect(result.total).toBe(3);
+    });
+  });
+
+  describe('indexes', () => {
+    const snapshotMessage = {
+      id: 'msg-0',
+      content: JSON.stringify({
+        _id: '$indexes',
+        snapshot: {
+          indexes: [{ name: 'role_1', key: { role: 1 } }],
+          entries: { role_1: { '1': ['"admin"'], '2': ['"user"'], '3': ['"user"'] } },
+          cursor: 'msg-3',
+          syncedAt: Date.parse('2023-02-01T00:00:00.000Z')
+        }
+      }),
+      timestamp: '2023-02-01T00:00:00.000Z',
+      channel_id: 'test-channel-id'
+    };
+
+    beforeEach(() => {
+      mockClient.getAllMessages.mockResolvedValue(mockMessages as any);
+    });
+
+    it('should build an index and persist it in a pinned message', async () => {
+      mockClient.sendMessage.mockResolvedValueOnce({ id: 'idx-1', timestamp: '2023-02-01T00:00:00.000Z' } as any);
+
+      const name = await db.createIndex({ role: 1 });
+
+      expect(name).toBe('role_1');
+      expect(mockClient.pinMessage).toHaveBeenCalledWith('idx-1');
+      const stored = JSON.parse(mockClient.sendMessage.mock.calls[0][0]);
+      expect(stored._id).toBe('$indexes');
+      expect(stored.snapshot.indexes).toEqual([{ name: 'role_1', key: { role: 1 } }]);
+      expect(stored.snapshot.entries.role_1).toEqual({ '1': ['"admin"'], '2': ['"user"'], '3': ['"user"'] });
+      expect(await db.listIndexes()).toEqual([{ name: 'role_1', key: { role: 1 } }]);
+    });
+
+    it('should answer indexed queries like a scan and follow writes', async () => {
+      mockClient.sendMessage
+        .mockResolvedValueOnce({ id: 'idx-1' } as any)
+        .mockResolvedValueOnce({ id: 'msg-4', timestamp: '2023-01-01T03:00:00.000Z' } as any);
+      mockClient.editMessage.mockResolvedValue({} as any);
+      await db.createIndex({ role: 1 });
+
+      await db.insertOne({ _id: '4', name: 'Dana', role: 'user' });
+      await db.updateOne({ _id: '1' }, { $set: { role: 'user' } });
+
+      const result = await db.find({ role: 'user', age: { $gte: 30 } });
+      expect(result.documents.map(doc => doc._id)).toEqual(['1', '3']);
+      expect(await db.countDocuments({ role: 'user' })).toBe(4);
+      expect(await db.countDocuments({ role: 'admin' })).toBe(0);
+    });
+
+    it('should restore indexes from the pinned snapshot on a cold start', async () => {
+      mockClient.getPinnedMessages.mockResolvedValueOnce([snapshotMessage] as any);
+      mockClient.getAllMessages.mockResolvedValue([...mockMessages, snapshotMessage] as any);
+
+      expect(await db.listIndexes()).toEqual([{ name: 'role_1', key: { role: 1 } }]);
+      expect(await db.countDocuments()).toBe(3);
+      expect((await db.find({ role: 'user' })).documents.map(doc => doc._id)).toEqual(['2', '3']);
+    });
+
+    it('should refresh the snapshot after full syncs that change entries', async () => {
+      db = new DiscordDB({ ...mockConfig, sync: { reconcileIntervalMs: 0 } });
+      db.setCacheTimeout(0);
+      mockClient.getPinnedMessages.mockResolvedValueOnce([snapshotMessage] as any);
+      mockClient.getAllMessages.mockResolvedValue([...mockMessages, snapshotMessage] as any);
+      mockClient.editMessage.mockResolvedValue({} as any);
+
+      await db.find();
+      expect(mockClient.editMessage).not.toHaveBeenCalled();
+
+      const added = { id: 'msg-4', content: JSON.stringify({ _id: '4', name: 'Eve', role: 'admin' }), timestamp: '2023-03-01T00:00:00.000Z' };
+      mockClient.getAllMessages.mockResolvedValue([added, ...mockMessages, snapshotMessage] as any);
+      await db.find();
+
+      expect(mockClient.editMessage).toHaveBeenCalledTimes(1);
+      const stored = JSON.parse(mockClient.editMessage.mock.calls[0][1]);
+      expect(stored.snapshot.cursor).toBe('msg-4');
+      expect(stored.snapshot.entries.role_1['4']).toEqual(['"admin"']);
+
+      await db.find();
+      expect(mockClient.editMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should edit the existing snapshot and remove it with the last index', async () => {
+      mockClient.getPinnedMessages.mockResolvedValueOnce([snapshotMessage] as any);
+      mockClient.editMessage.mockResolvedValue({} as any);
+
+      await db.createIndex({ age: -1 });
+      expect(mockClient.editMessage).toHaveBeenCalledWith('msg-0', expect.stringContaining('age_-1'), []);
+      expect(mockClient.sendMessage).not.toHaveBeenCalled();
+
+      await db.dropIndex('age_-1');
+      expect(await db.dropIndex('role_1')).toBe(true);
+      expect(await db.dropIndex('role_1')).toBe(false);
+      expect(mockClient.deleteMessage).toHaveBeenCalledWith('msg-0');
+    });
+
+    it('should enforce unique indexes on inserts and updates', async () => {
+      mockClient.sendMessage.mockResolvedValue({ id: 'msg-new', timestamp: '2023-02-01T00:00:00.000Z' } as any);
+      mockClient.editMessage.mockResolvedValue({} as any);
+      await db.createIndex({ name: 1 }, { unique: true });
+      mockClient.sendMessage.mockClear();
+
+      const error = await db.insertOne({ name: 'Jane' }).catch(err => err);
+      expect(error).toBeInstanceOf(DuplicateKeyError);
+      expect(error).toMatchObject({ code: 'DUPLICATE_KEY', index: 'name_1', keyValue: { name: 'Jane' } });
+      await expect(db.updateOne({ _id: '1' }, { $set: { name: 'Bob' } })).rejects.toThrow(DuplicateKeyError);
+      await expect(db.updateMany({ role: 'user' }, { $set: { name: 'Same' } })).rejects.toThrow(DuplicateKeyError);
+      expect(mockClient.sendMessage).not.toHaveBeenCalled();
+
+      // The first document of updateMany keeps its change, the second is rejected
+      expect(mockClient.editMessage).toHaveBeenCalledTimes(1);
+      await db.updateOne({ _id: '1' }, { $set: { name: 'John', age: 31 } });
+      await db.insertOne({ name: 'Jane' });
+      expect(mockClient.sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject duplicates between concurrent inserts', async () => {
+      mockClient.sendMessage.mockResolvedValueOnce({ id: 'idx-1' } as any);
+      await db.createIndex({ name: 1 }, { unique: true });
+      mockClient.sendMessage.mockResolvedValue({ id: 'msg-new', timestamp: '2023-02-01T00:00:00.000Z' } as any);
+
+      const results = await Promise.allSettled([
+        db.insertOne({ name: 'Dana' }),
+        db.insertOne({ name: 'Dana' }),
+        db.insertOne({ _id: 'x', name: 'Eve' }),
+        db.insertOne({ _id: 'x', name: 'Finn' })
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled', 'rejected']);
+      expect((results[3] as PromiseRejectedResult).reason).toMatchObject({ index: '_id_', keyValue: { _id: 'x' } });
+    });
+
+    it('should release unique keys when a write fails', async () => {
+      mockClient.sendMessage.mockResolvedValueOnce({ id: 'idx-1' } as any);
+      await db.createIndex({ name: 1 }, { unique: true });
+      mockClient.sendMessage
+        .mockRejectedValueOnce(new Error('Failed'))
+        .mockResolvedValueOnce({ id: 'msg-4', timestamp: '2023-02-01T00:00:00.000Z' } as any);
+
+      await expect(db.insertOne({ name: 'Dana' })).rejects.toThrow('Failed');
+      await expect(db.insertOne({ name: 'Dana' })).resolves.toMatchObject({ acknowledged: true });
+    });
+
+    it('should refuse to create a unique index over duplicate values', async () => {
+      await expect(db.createIndex({ role: 1 }, { unique: true })).rejects.toThrow(DuplicateKeyError);
+      expect(await db.listIndexes()).toEqual([]);
+    });
+
+    it('should reject duplicate _id values without indexes', async () => {
+      await expect(db.insertOne({ _id: '2', name: 'Copy' })).rejects.toThrow('a document with _id "2" already exists');
+      await expect(db.insertMany([{ _id: 'new' }, { _id: '3' }])).rejects.toThrow(DuplicateKeyError);
+      expect(mockClient.sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject invalid index specs', async () => {
+      await expect(db.createIndex({})).rejects.toThrow(ValidationError);
+      await expect(db.createIndex({ role: 2 as any })).rejects.toThrow(ValidationError);
+    });
+
+    it('should keep working when the pins cannot be read', async () => {
+      mockClient.getPinnedMessages.mockRejectedValueOnce(new Error('Missing Access'));
+
+      expect(await db.countDocuments()).toBe(3);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('index snapshot'), expect.any(Error));
+    });
+  });
+
+  describe('TTL indexes', () => {
+    const hour = 60 * 60 * 1000;
+    const sessionMessages = [
+      { id: 'msg-1', content: JSON.stringify({ _id: 's1', expiresAt: new Date(Date.now() - hour) }), timestamp: '2023-01-01T00:00:00.000Z' },
+      { id: 'msg-2', content: JSON.stringify({ _id: 's2', expiresAt: new Date(Date.now() + hour) }), timestamp: '2023-01-01T01:00:00.000Z' },
+      { id: 'msg-3', content: JSON.stringify({ _id: 's3' }), timestamp: '2023-01-01T02:00:00.000Z' }
+    ];
+
+    beforeEach(() => {
+      mockClient.getAllMessages.mockResolvedValue(sessionMessages as any);
+      mockClient.sendMessage.mockResolvedValue({ id: 'idx-1' } as any);
+    });
+
+    afterEach(() => {
+      db.stopTTLReaper();
+      jest.useRealTimers();
+    });
+
+    it('should hide expired documents until they are reaped', async () => {
+      await db.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+      expect((await db.find()).documents.map(doc => doc._id)).toEqual(['s2', 's3']);
+      expect(await db.findById('s1')).toBeNull();
+      expect(await db.aggregate([{ $count: 'live' }])).toEqual([{ live: 2 }]);
+
+      expect(await db.reapExpired()).toBe(1);
+      expect(mockClient.bulkDeleteMessages).toHaveBeenCalledWith(['msg-1']);
+      expect(await db.reapExpired()).toBe(0);
+      expect(mockClient.bulkDeleteMessages).toHaveBeenCalledTimes(1);
+    });
+
+    it('should expire documents by message timestamp', async () => {
+      await db.createIndex({ _timestamp: 1 }, { expireAfterSeconds: 60 });
+
+      expect(await db.countDocuments()).toBe(0);
+      expect(await db.reapExpired()).toBe(3);
+    });
+
+    it('should persist the TTL with the index', async () => {
+      await db.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 3600 });
+
+      expect(await db.listIndexes()).toEqual([{ name: 'expiresAt_1', key: { expiresAt: 1 }, expireAfterSeconds: 3600 }]);
+      expect(JSON.parse(mockClient.sendMessage.mock.calls[0][0]).snapshot.indexes[0].expireAfterSeconds).toBe(3600);
+    });
+
+    it('should reject invalid TTL indexes', async () => {
+      await expect(db.createIndex({ a: 1, b: 1 }, { expireAfterSeconds: 60 })).rejects.toThrow(ValidationError);
+      await expect(db.createIndex({ a: 1 }, { expireAfterSeconds: -1 })).rejects.toThrow(ValidationError);
+      expect(() => db.startTTLReaper(0)).toThrow(ValidationError);
+    });
+
+    it('should reap on an interval until stopped', () => {
+      jest.useFakeTimers();
+      const reap = jest.spyOn(db, 'reapExpired').mockResolvedValue(0);
+
+      db.startTTLReaper(1000);
+      jest.advanceTimersByTime(3500);
+      expect(reap).toHaveBeenCalledTimes(3);
+
+      db.stopTTLReaper();
+      jest.advanceTimersByTime(3000);
+      expect(reap).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep reaping after a failed run', async () => {
+      jest.useFakeTimers();
+      const failure = new Error('Missing Permissions');
+      jest.spyOn(db, 'reapExpired').mockRejectedValueOnce(failure).mockResolvedValue(0);
+
+      db.startTTLReaper(1000);
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('expired documents'), failure);
+      jest.advanceTimersByTime(1000);
+      expect(db.reapExpired).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('text search', () => {
+    const noteMessages = [
+      { id: 'msg-1', content: JSON.stringify({ _id: 'n1', title: 'Groceries', body: 'Remember the notes for the launch' }), timestamp: '2023-01-01T00:00:00.000Z' },
+      { id: 'msg-2', content: JSON.stringify({ _id: 'n2', title: 'Launch notes', body: 'Launch checklist and owners' }), timestamp: '2023-01-01T01:00:00.000Z' },
+      { id: 'msg-3', content: JSON.stringify({ _id: 'n3', title: 'Draft', body: 'Nothing relevant' }), timestamp: '2023-01-01T02:00:00.000Z' }
+    ];
+
+    beforeEach(() => {
+      mockClient.getAllMessages.mockResolvedValue(noteMessages as any);
+      mockClient.sendMessage.mockResolvedValue({ id: 'idx-1' } as any);
+    });
+
+    it('should search, score and rank documents', async () => {
+      const name = await db.createIndex({ title: 'text', body: 'text' }, { weights: { title: 3 } });
+      expect(name).toBe('title_text_body_text');
+
+      const result = await db.find(
+        { $text: { $search: 'launching' } },
+        { sort: { score: { $meta: 'textScore' } }, projection: { title: 1, score: { $meta: 'textScore' } } }
+      );
+
+      expect(result.documents.map(doc => doc.title)).toEqual(['Launch notes', 'Groceries']);
+      expect(result.documents[0].score).toBeGreaterThan(result.documents[1].score);
+      expect(await db.countDocuments({ $text: { $search: 'notes -groceries' } })).toBe(1);
+    });
+
+    it('should require a text index and a $text query for scores', async () => {
+      await expect(db.find({ $text: { $search: 'launch' } })).rejects.toThrow('$text requires a text index');
+
+      await db.createIndex({ title: 'text' });
+      await expect(db.find({}, { sort: { score: { $meta: 'textScore' } } })).rejects.toThrow(ValidationError);
+      await expect(db.createIndex({ body: 'text' }, { unique: true })).rejects.toThrow(ValidationError);
+      await expect(db.createIndex({ body: 1 }, { weights: { body: 2 } })).rejects.toThrow(ValidationError);
+    });
+  });
+
   describe('findOne', () => {
     beforeEach(() => {
       mockClient.getAllMessages.mockResolvedValue(mockMessages as any);
@@ -235,8 +852,23 @@ describe('DiscordDB', () => {
       expect(result.modifiedCount).toBe(0);
     });
 
+    it('should chunk a document that grows past the message limit', async () => {
+      mockClient.sendMessage
+        .mockResolvedValueOnce({ id: 'chunk-1' } as any)
+        .mockResolvedValueOnce({ id: 'chunk-2' } as any);
+      mockClient.editMessage.mockResolvedValueOnce({} as any);
+
+      const result = await db.updateOne({ _id: '1' }, { $set: { data: 'x'.repeat(2500) } });
+
+      expect(result.modifiedCount).toBe(1);
+      expect(mockClient.editMessage).toHaveBeenCalledWith(
+        'msg-1',
+        expect.stringContaining('"$chunks":["chunk-1","chunk-2"]')
+      );
+    });
+
     it('should handle document too large after update', async () => {
-      const largeUpdate = { $set: { data: 'x'.repeat(2000) } };
+      const largeUpdate = { $set: { data: 'x'.repeat(500000) } };
 
       await expect(db.updateOne({ _id: '1' }, largeUpdate))
         .rejects.toThrow(ValidationError);
@@ -246,6 +878,81 @@ describe('DiscordDB', () => {
       await expect(db.updateOne({ _id: '1' }, { $inc: { age: 'invalid' as any } }))
         .rejects.toThrow();
     });
+
+    it('should insert a document built from the filter when upserting', async () => {
+      mockClient.sendMessage.mockResolvedValueOnce({ id: 'msg-new', timestamp: '2023-01-02T00:00:00.000Z' } as any);
+
+      const result = await db.updateOne(
+        { email: 'new@example.com' },
+        { $set: { name: 'New' }, $setOnInsert: { role: 'user' } },
+        { upsert: true }
+      );
+
+      expect(result).toEqual({ acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedId: expect.any(String) });
+      expect(await db.findById(result.upsertedId!)).toMatchObject({ email: 'new@example.com', name: 'New', role: 'user' });
+      expect(mockClient.editMessage).not.toHaveBeenCalled();
+    });
+
+    it('should update the array element matched by the filter', async () => {
+      mockClient.editMessage.mockResolvedValueOnce({} as any);
+      mockClient.getAllMessages.mockResolvedValue([{
+        id: 'msg-4',
+        content: JSON.stringify({ _id: '4', checklist: [{ item: 'a', done: false }, { item: 'b', done: false }] }),
+        timestamp: '2023-01-01T03:00:00.000Z'
+      }] as any);
+
+      await db.updateOne({ _id: '4', checklist: { $elemMatch: { item: 'b' } } }, { $set: { 'checklist.$.done': true } });
+
+      expect((await db.findById('4'))!.checklist).toEqual([{ item: 'a', done: false }, { item: 'b', done: true }]);
+    });
+
+    it('should ignore $setOnInsert when an upsert matches', async () => {
+      mockClient.editMessage.mockResolvedValueOnce({} as any);
+
+      const result = await db.updateOne(
+        { _id: '1' },
+        { $set: { age: 31 }, $setOnInsert: { role: 'user' } },
+        { upsert: true }
+      );
+
+      expect(result).toEqual({ acknowledged: true, matchedCount: 1, modifiedCount: 1 });
+      expect(await db.findById('1')).toMatchObject({ age: 31, role: 'admin' });
+      expect(mockClient.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replaceOne', () => {
+    beforeEach(() => {
+      mockClient.getAllMessages.mockResolvedValue([mockMessages[0]] as any);
+    });
+
+    it('should replace the whole document and keep its _id', async () => {
+      mockClient.editMessage.mockResolvedValueOnce({} as any);
+
+      const result = await db.replaceOne({ name: 'John' }, { name: 'Johnny', nickname: 'J' });
+
+      expect(result).toEqual({ acknowledged: true, matchedCount: 1, modifiedCount: 1 });
+      const stored = await db.findById('1');
+      expect(stored).toMatchObject({ _id: '1', name: 'Johnny', nickname: 'J', _messageId: 'msg-1' });
+      expect(stored).not.toHaveProperty('age');
+    });
+
+    it('should reject operators and _id changes', async () => {
+      await expect(db.replaceOne({ _id: '1' }, { $set: { name: 'x' } } as any)).rejects.toThrow('update operators');
+      await expect(db.replaceOne({ _id: '1' }, { _id: '2', name: 'x' })).rejects.toThrow(ValidationError);
+      expect(mockClient.editMessage).not.toHaveBeenCalled();
+    });
+
+    it('should insert the replacement when upserting, taking the _id of the filter', async () => {
+      mockClient.sendMessage.mockResolvedValueOnce({ id: 'msg-new', timestamp: '2023-01-02T00:00:00.000Z' } as any);
+
+      expect(await db.replaceOne({ _id: '9' }, { name: 'Nine' })).toEqual({ acknowledged: true, matchedCount: 0, modifiedCount: 0 });
+      const result = await db.replaceOne({ _id: '9', role: 'user' }, { name: 'Nine' }, { upsert: true });
+
+      expect(result.upsertedId).toBe('9');
+      expect(await db.findById('9')).toMatchObject({ name: 'Nine' });
+      expect(await db.findById('9')).not.toHaveProperty('role');
+    });
   });
 
   describe('deleteOne', () => {
@@ -302,6 +1009,374 @@ describe('DiscordDB', () => {
     });
   });
 
+  describe('find and modify', () => {
+    beforeEach(() => {
+      mockClient.getAllMessages.mockResolvedValue(mockMessages as any);
+      mockClient.editMessage.mockResolvedValue({} as any);
+      mockClient.deleteMessage.mockResolvedValue(undefined);
+    });
+
+    it('should return the document before or after an update', async () => {
+      const before = await db.findOneAndUpdate({ _id: '2' }, { $inc: { age: 1 } });
+      const after = await db.findOneAndUpdate({ _id: '2' }, { $inc: { age: 1 } }, { returnDocument: 'after' });
+
+      expect(before).toMatchObject({ _id: '2', age: 25 });
+      expect(after).toMatchObject({ _id: '2', age: 27 });
+      expect(await db.findOneAndUpdate({ _id: 'missing' }, { $set: { age: 1 } })).toBeNull();
+    });
+
+    it('should pick the first match in sort order and project the result', async () => {
+      const result = await db.findOneAndUpdate(
+        { role: 'user' },
+        { $set: { promoted: true } },
+        { sort: { age: -1 }, projection: { name: 1, promoted: 1 }, returnDocument: 'after' }
+      );
+
+      expect(result).toEqual({ _id: '3', name: 'Bob', promoted: true });
+      expect(mockClient.editMessage).toHaveBeenCalledWith('msg-3', expect.any(String));
+    });
+
+    it('should upsert and return the new document', async () => {
+      mockClient.sendMessage.mockResolvedValueOnce({ id: 'msg-new', timestamp: '2023-01-02T00:00:00.000Z' } as any);
+
+      const result = await db.findOneAndUpdate(
+        { name: 'Dana' },
+        { $setOnInsert: { role: 'user' } },
+        { upsert: true, returnDocument: 'after' }
+      );
+
+      expect(result).toMatchObject({ name: 'Dana', role: 'user', _messageId: 'msg-new' });
+    });
+
+    it('should replace a document and keep its _id', async () => {
+      const before = await db.findOneAndReplace({ name: 'Jane' }, { name: 'Janet' });
+
+      expect(before).toMatchObject({ name: 'Jane', age: 25 });
+      expect(await db.findById('2')).toEqual(expect.objectContaining({ _id: '2', name: 'Janet' }));
+      expect(await db.findById('2')).not.toHaveProperty('age');
+    });
+
+    it('should delete and return the first match', async () => {
+      const deleted = await db.findOneAndDelete({ role: 'user' }, { sort: { age: 1 } });
+
+      expect(deleted).toMatchObject({ _id: '2', name: 'Jane' });
+      expect(mockClient.deleteMessage).toHaveBeenCalledWith('msg-2');
+      expect(await db.countDocuments({ role: 'user' })).toBe(1);
+    });
+
+    it('should apply concurrent updates of one document on top of each other', async () => {
+      mockClient.editMessage.mockImplementation(() => new Promise(resolve => setTimeout(() => resolve({} as any), 5)));
+      await db.countDocuments(); // load the cache, so the calls below queue in order
+
+      const results = await Promise.all([
+        db.findOneAndUpdate({ _id: '1' }, { $inc: { age: 1 } }, { returnDocument: 'after' }),
+        db.findOneAndUpdate({ _id: '1' }, { $inc: { age: 1 } }, { returnDocument: 'after' }),
+        db.updateOne({ _id: '1' }, { $inc: { age: 1 } })
+      ]);
+
+      expect(results.slice(0, 2).map((doc: any) => doc.age).sort()).toEqual([31, 32]);
+      expect(await db.findById('1')).toMatchObject({ age: 33 });
+      expect(mockClient.editMessage).toHaveBeenCalledTimes(3);
+    });
+
+    it('should skip a document that stops matching while waiting for its turn', async () => {
+      mockClient.editMessage.mockImplementation(() => new Promise(resolve => setTimeout(() => resolve({} as any), 5)));
+      await db.countDocuments(); // load the cache, so the calls below queue in order
+
+      const [, deleted] = await Promise.all([
+        db.updateOne({ _id: '1' }, { $set: { role: 'user' } }),
+        db.findOneAndDelete({ _id: '1', role: 'admin' })
+      ]);
+
+      expect(deleted).toBeNull();
+      expect(mockClient.deleteMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('write conflicts', () => {
+    const jane = { _id: '2', name: 'Jane', age: 25, role: 'user' };
+    const changed = (document: object, version: number) => ({
+      id: 'msg-2',
+      content: JSON.stringify({ ...document, _version: version }),
+      timestamp: '2023-01-01T01:00:00.000Z',
+      edited_timestamp: `2023-01-02T00:00:0${version}.000Z`
+    });
+
+    beforeEach(() => {
+      mockClient.getAllMessages.mockResolvedValue(mockMessages as any);
+      mockClient.editMessage.mockResolvedValue({} as any);
+    });
+
+    it('should store a version that every write increments', async () => {
+      mockClient.sendMessage.mockResolvedValueOnce({ id: 'msg-4', timestamp: '2023-01-01T03:00:00.000Z' } as any);
+
+      await db.insertOne({ _id: '4', name: 'Dana', _version: 7 });
+      await db.updateOne({ _id: '4' }, { $set: { age: 40 } });
+      await db.updateOne({ _id: '2' }, { $set: { age: 26 } });
+
+      expect(JSON.parse(mockClient.sendMessage.mock.calls[0][0])._version).toBe(1);
+      expect(JSON.parse(mockClient.editMessage.mock.calls[0][1])).toMatchObject({ age: 40, _version: 2 });
+      expect(JSON.parse(mockClient.editMessage.mock.calls[1][1])).toMatchObject({ age: 26, _version: 1 });
+      expect(await db.findById('4')).toMatchObject({ _version: 2 });
+    });
+
+    it('should retry an update on the version written by another process', async () => {
+      await db.countDocuments();
+      mockClient.getMessage.mockResolvedValue(changed({ ...jane, age: 40 }, 3) as any);
+
+      const result = await db.updateOne({ _id: '2' }, { $inc: { age: 1 } });
+
+      expect(result.modifiedCount).toBe(1);
+      expect(mockClient.editMessage).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockClient.editMessage.mock.calls[0][1])).toMatchObject({ age: 41, _version: 4 });
+    });
+
+    it('should throw WriteConflictError once retries run out', async () => {
+      db = new DiscordDB({ ...mockConfig, writeConflictRetries: 1 });
+      let version = 1;
+      mockClient.getMessage.mockImplementation(async () => changed(jane, ++version) as any);
+
+      const error = await db.findOneAndUpdate({ _id: '2' }, { $inc: { age: 1 } }).catch(e => e);
+
+      expect(error).toBeInstanceOf(WriteConflictError);
+      expect(error).toMatchObject({ code: 'WRITE_CONFLICT', documentId: '2', expectedVersion: 2, actualVersion: 3 });
+      expect(mockClient.getMessage).toHaveBeenCalledTimes(2);
+      expect(mockClient.editMessage).not.toHaveBeenCalled();
+    });
+
+    it('should not update documents that another process changed to no longer match', async () => {
+      mockClient.getMessage.mockImplementation(async (messageId: string) =>
+        (messageId === 'msg-2' ? changed({ ...jane, role: 'admin' }, 2) : storedMessage(messageId)) as any);
+
+      const result = await db.updateMany({ role: 'user' }, { $set: { active: true } });
+
+      expect(result).toMatchObject({ matchedCount: 2, modifiedCount: 1 });
+      expect(mockClient.editMessage).toHaveBeenCalledTimes(1);
+      expect(mockClient.editMessage).toHaveBeenCalledWith('msg-3', expect.stringContaining('"active":true'));
+      expect(await db.findById('2')).toMatchObject({ role: 'admin', _version: 2 });
+    });
+
+    it('should drop documents that another process deleted', async () => {
+      mockClient.getMessage.mockRejectedValueOnce(new NetworkError('Not found: msg-2', 'NOT_FOUND'));
+
+      const result = await db.updateOne({ _id: '2' }, { $set: { age: 26 } });
+
+      expect(result).toMatchObject({ matchedCount: 0, modifiedCount: 0 });
+      expect(mockClient.editMessage).not.toHaveBeenCalled();
+      expect(await db.findById('2')).toBeNull();
+    });
+  });
+
+  describe('withTransaction', () => {
+    const journalMessage = (journal: object) => ({
+      id: 'journal-msg',
+      content: JSON.stringify({ _id: '$txn:abc', ...journal }),
+      timestamp: '2023-01-01T04:00:00.000Z'
+    });
+
+    beforeEach(() => {
+      mockClient.getAllMessages.mockResolvedValue(mockMessages as any);
+      mockClient.editMessage.mockResolvedValue({} as any);
+      mockClient.deleteMessage.mockResolvedValue(undefined);
+      mockClient.sendMessage.mockImplementation(async (content: string) =>
+        ({ id: content.includes('$txn:') ? 'journal-msg' : 'msg-4', timestamp: '2023-01-01T04:00:00.000Z' }) as any);
+    });
+
+    it('should journal the changes, apply them and then delete the journal', async () => {
+      const result = await db.withTransaction(async session => {
+        await session.updateOne({ _id: '1' }, { $set: { role: 'owner' } });
+        await session.insertOne({ _id: '4', name: 'Dana', owner: '1' });
+        await session.deleteOne({ _id: '3' });
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      const journal = JSON.parse(mockClient.sendMessage.mock.calls[0][0]);
+      expect(journal).toMatchObject({ state: 'pending', changes: [{ _id: '1' }, { _id: '4', before: null }, { _id: '3', after: null }] });
+      expect(journal._id).toMatch(/^\$txn:/);
+      expect(journal.changes[0].after).toMatchObject({ role: 'owner', _version: 1 });
+
+      const [journalSent] = mockClient.sendMessage.mock.invocationCallOrder;
+      expect(mockClient.editMessage.mock.invocationCallOrder[0]).toBeGreaterThan(journalSent);
+      expect(mockClient.editMessage).toHaveBeenCalledWith('journal-msg', expect.stringContaining('"state":"committed"'));
+      expect(mockClient.deleteMessage).toHaveBeenCalledWith('msg-3');
+      expect(mockClient.deleteMessage).toHaveBeenLastCalledWith('journal-msg');
+
+      expect(await db.findById('1')).toMatchObject({ role: 'owner' });
+      expect(await db.findById('3')).toBeNull();
+      expect(await db.findById('4')).toMatchObject({ name: 'Dana', _messageId: 'msg-4' });
+    });
+
+    it('should read from a snapshot that includes the session\'s own writes', async () => {
+      await db.withTransaction(async session => {
+        await session.updateOne({ _id: '2' }, { $set: { role: 'admin' } });
+
+        expect(await session.countDocuments({ role: 'admin' })).toBe(2);
+        expect(await db.countDocuments({ role: 'admin' })).toBe(1);
+      });
+
+      expect(await db.countDocuments({ role: 'admin' })).toBe(2);
+    });
+
+    it('should write nothing when the callback throws', async () => {
+      await expect(db.withTransaction(async session => {
+        await session.deleteMany({});
+        throw new Error('changed my mind');
+      })).rejects.toThrow('changed my mind');
+
+      expect(mockClient.sendMessage).not.toHaveBeenCalled();
+      expect(mockClient.deleteMessage).not.toHaveBeenCalled();
+      expect(await db.countDocuments()).toBe(3);
+    });
+
+    it('should roll back applied changes when a later one fails', async () => {
+      mockClient.sendMessage
+        .mockResolvedValueOnce({ id: 'journal-msg', timestamp: '2023-01-01T04:00:00.000Z' } as any)
+        .mockRejectedValueOnce(new Error('Discord is down'));
+
+      await expect(db.withTransaction(async session => {
+        await session.updateOne({ _id: '1' }, { $set: { role: 'owner' } });
+        await session.insertOne({ _id: '4', name: 'Dana' });
+      })).rejects.toThrow('Discord is down');
+
+      expect(mockClient.editMessage).toHaveBeenLastCalledWith('msg-1', expect.stringContaining('"role":"admin"'));
+      expect(mockClient.deleteMessage).toHaveBeenCalledWith('journal-msg');
+      expect(await db.findById('1')).toMatchObject({ role: 'admin' });
+      expect(await db.findById('4')).toBeNull();
+    });
+
+    it('should run the callback again when a document it writes changed meanwhile', async () => {
+      let runs = 0;
+
+      await db.withTransaction(async session => {
+        runs++;
+        const jane = await session.findOne<{ age: number }>({ _id: '2' });
+        if (runs === 1) {
+          await db.updateOne({ _id: '2' }, { $inc: { age: 10 } });
+        }
+        await session.updateOne({ _id: '2' }, { $set: { age: jane!.age + 1 } });
+      });
+
+      expect(runs).toBe(2);
+      expect(await db.findById('2')).toMatchObject({ age: 36, _version: 2 });
+    });
+
+    it('should roll back interrupted transactions found on sync', async () => {
+      const before = { _id: '1', name: 'John', age: 30, role: 'admin', _version: 1 };
+      const after = { ...before, role: 'owner', _version: 2 };
+      mockClient.getAllMessages.mockResolvedValue([
+        { ...mockMessages[0], content: JSON.stringify(after) },
+        ...mockMessages.slice(1),
+        journalMessage({
+          state: 'pending',
+          startedAt: Date.parse('2023-01-01T04:00:00.000Z'),
+          changes: [
+            { _id: '1', before, after },
+            { _id: '5', before: null, after: { _id: '5', name: 'Eve', _version: 1 } }
+          ]
+        })
+      ] as any);
+
+      const documents = await db.find({}, { sort: { _id: 1 } });
+
+      expect(mockClient.editMessage).toHaveBeenCalledTimes(1);
+      expect(mockClient.editMessage).toHaveBeenCalledWith('msg-1', expect.stringContaining('"role":"admin"'));
+      expect(mockClient.sendMessage).not.toHaveBeenCalled();
+      expect(mockClient.deleteMessage).toHaveBeenCalledWith('journal-msg');
+      expect(documents.documents.map(doc => doc.role)).toEqual(['admin', 'user', 'user']);
+    });
+
+    it('should not restore a document while a write to it is in progress', async () => {
+      db = new DiscordDB({ ...mockConfig, sync: { reconcileIntervalMs: 0 }, transactionTimeoutMs: 50 });
+      db.setCacheTimeout(0);
+      const before = { _id: '1', name: 'John', age: 30, role: 'admin', _version: 1 };
+      const after = { ...before, role: 'owner', _version: 2 };
+      mockClient.getAllMessages.mockResolvedValue([
+        { ...mockMessages[0], content: JSON.stringify(after) },
+        ...mockMessages.slice(1),
+        journalMessage({ state: 'pending', startedAt: Date.now(), changes: [{ _id: '1', before, after }] })
+      ] as any);
+      let finishEdit: (message: any) => void = () => undefined;
+      mockClient.editMessage.mockImplementationOnce(() => new Promise(resolve => { finishEdit = resolve; }));
+
+      const update = db.updateOne({ _id: '1' }, { $set: { role: 'boss' } });
+      await new Promise(resolve => setTimeout(resolve, 60));
+      const recovery = db.find();
+      await new Promise(resolve => setTimeout(resolve, 10));
+      finishEdit({});
+      await update;
+      await recovery;
+
+      // The update took the document past the transaction's version, so there was nothing to undo
+      expect(mockClient.editMessage).toHaveBeenCalledTimes(1);
+      expect(mockClient.editMessage).toHaveBeenCalledWith('msg-1', expect.stringContaining('"role":"boss"'));
+      expect(mockClient.deleteMessage).toHaveBeenCalledWith('journal-msg');
+    });
+
+    it('should leave recent transactions alone and clean up committed ones', async () => {
+      const journal = { changes: [{ _id: '1', before: null, after: null }] };
+      mockClient.getAllMessages.mockResolvedValue([...mockMessages, journalMessage({ ...journal, state: 'pending', startedAt: Date.now() })] as any);
+
+      await db.find();
+      expect(mockClient.deleteMessage).not.toHaveBeenCalled();
+
+      db.clearCache();
+      mockClient.getAllMessages.mockResolvedValue([...mockMessages, journalMessage({ ...journal, state: 'committed', startedAt: 0 })] as any);
+      await db.find();
+
+      expect(mockClient.deleteMessage).toHaveBeenCalledWith('journal-msg');
+      expect(mockClient.editMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('locks', () => {
+    const claim = (id: string, name: string) => ({
+      id,
+      content: 'ddb:lock:' + JSON.stringify({ name, owner: 'other', ttlMs: 60000 }),
+      timestamp: new Date().toISOString()
+    });
+
+    beforeEach(() => {
+      mockClient.getAllMessages.mockResolvedValue(mockMessages as any);
+      mockClient.getMessages.mockResolvedValue([]);
+      mockClient.editMessage.mockResolvedValue({} as any);
+      mockClient.sendMessage.mockImplementation(async () => claim('9000', 'ignored') as any);
+    });
+
+    it('should hide lock claims from documents', async () => {
+      mockClient.getAllMessages.mockResolvedValue([...mockMessages, claim('100', 'jobs')] as any);
+
+      expect(await db.countDocuments()).toBe(3);
+    });
+
+    it('should acquire and release a named lock', async () => {
+      const lock = await db.acquireLock('jobs', { ttlMs: 5000 });
+
+      expect(lock.fencingToken).toBe('9000');
+      expect(JSON.parse(mockClient.sendMessage.mock.calls[0][0].slice('ddb:lock:'.length))).toMatchObject({ name: 'jobs', ttlMs: 5000 });
+
+      await lock.release();
+      expect(mockClient.deleteMessage).toHaveBeenCalledWith('9000');
+    });
+
+    it('should throw LockTimeoutError while another instance holds the lock', async () => {
+      mockClient.getAllMessages.mockResolvedValue([...mockMessages, claim('100', 'jobs')] as any);
+
+      await expect(db.withLock('jobs', async () => 'done', { waitMs: 0 })).rejects.toThrow(LockTimeoutError);
+      expect(mockClient.deleteMessage).toHaveBeenCalledWith('9000');
+    });
+
+    it('should lock documents while writing them when writeLocks is set', async () => {
+      db = new DiscordDB({ ...mockConfig, writeLocks: { ttlMs: 5000 } });
+
+      await db.updateOne({ _id: '2' }, { $set: { age: 26 } });
+
+      expect(mockClient.sendMessage.mock.calls[0][0]).toContain('"name":"document:2"');
+      expect(mockClient.sendMessage.mock.invocationCallOrder[0]).toBeLessThan(mockClient.editMessage.mock.invocationCallOrder[0]);
+      expect(mockClient.deleteMessage.mock.invocationCallOrder[0]).toBeGreaterThan(mockClient.editMessage.mock.invocationCallOrder[0]);
+    });
+  });
+
   describe('updateMany', () => {
     beforeEach(() => {
       mockClient.getAllMessages.mockResolvedValue(mockMessages as any);
@@ -319,6 +1394,129 @@ describe('DiscordDB', () => {
       expect(result.modifiedCount).toBe(2);
       expect(mockClient.editMessage).toHaveBeenCalledTimes(2);
     });
+
+    it('should update array elements selected by array filters', async () => {
+      mockClient.editMessage.mockResolvedValue({} as any);
+      mockClient.getAllMessages.mockResolvedValue([{
+        id: 'msg-4',
+        content: JSON.stringify({ _id: '4', role: 'user', checklist: [{ item: 'a', done: false }, { item: 'b', done: true }] }),
+        timestamp: '2023-01-01T03:00:00.000Z'
+      }] as any);
+
+      const result = await db.updateMany(
+        { role: 'user' },
+        { $set: { 'checklist.$[open].done': true } },
+        { arrayFilters: [{ 'open.done': false }] }
+      );
+
+      expect(result.modifiedCount).toBe(1);
+      expect((await db.findById('4'))!.checklist).toEqual([{ item: 'a', done: true }, { item: 'b', done: true }]);
+      await expect(db.updateMany({ role: 'user' }, { $set: { 'checklist.$[x].done': true } })).rejects.toThrow('No array filter');
+    });
+
+    it('should insert a single document when upserting without matches', async () => {
+      mockClient.sendMessage.mockResolvedValueOnce({ id: 'msg-new', timestamp: '2023-01-02T00:00:00.000Z' } as any);
+
+      const result = await db.updateMany({ role: 'guest' }, { $inc: { visits: 1 } }, { upsert: true });
+
+      expect(result.matchedCount).toBe(0);
+      expect(result.upsertedId).toBeDefined();
+      expect(mockClient.sendMessage).toHaveBeenCalledTimes(1);
+      expect((await db.find({ role: 'guest' })).documents).toEqual([expect.objectContaining({ visits: 1 })]);
+    });
+  });
+
+  describe('bulkWrite', () => {
+    beforeEach(() => {
+      mockClient.getAllMessages.mockResolvedValue(mockMessages as any);
+      mockClient.editMessage.mockResolvedValue({} as any);
+      mockClient.deleteMessage.mockResolvedValue(undefined);
+      mockClient.bulkDeleteMessages.mockResolvedValue(undefined);
+      mockClient.sendMessage.mockImplementation(async () => ({ id: `msg-${Math.random()}`, timestamp: '2023-01-02T00:00:00.000Z' }) as any);
+    });
+
+    it('should run mixed operations and combine their results', async () => {
+      const result = await db.bulkWrite([
+        { insertOne: { document: { _id: '4', name: 'Dana', role: 'user' } } },
+        { updateMany: { filter: { role: 'user' }, update: { $inc: { age: 1 } } } },
+        { updateOne: { filter: { name: 'Eve' }, update: { $set: { role: 'guest' } }, upsert: true } },
+        { replaceOne: { filter: { _id: '1' }, replacement: { name: 'Johnny' } } },
+        { deleteOne: { filter: { _id: '4' } } },
+        { deleteMany: { filter: { role: 'guest' } } }
+      ]);
+
+      expect(result).toEqual({
+        acknowledged: true,
+        insertedCount: 1,
+        matchedCount: 4,
+        modifiedCount: 4,
+        deletedCount: 2,
+        upsertedCount: 1,
+        insertedIds: { 0: '4' },
+        upsertedIds: { 2: expect.any(String) }
+      });
+      expect((await db.find({}, { sort: { _id: 1 } })).documents.map(doc => [doc.name, doc.age])).toEqual([
+        ['Johnny', undefined], ['Jane', 26], ['Bob', 36]
+      ]);
+    });
+
+    it('should stop at the first failure when ordered', async () => {
+      const error = await db.bulkWrite([
+        { insertOne: { document: { _id: '4', name: 'Dana' } } },
+        { insertOne: { document: { _id: '1', name: 'Duplicate' } } },
+        { deleteOne: { filter: { _id: '2' } } }
+      ]).catch(e => e);
+
+      expect(error).toBeInstanceOf(BulkWriteError);
+      expect(error.writeErrors).toEqual([{ index: 1, documentId: '1', error: expect.any(DuplicateKeyError) }]);
+      expect(error.result).toMatchObject({ insertedCount: 1, deletedCount: 0, insertedIds: { 0: '4' } });
+      expect(mockClient.deleteMessage).not.toHaveBeenCalled();
+    });
+
+    it('should attempt every operation when unordered and report each failed document', async () => {
+      mockClient.editMessage.mockImplementation(async (messageId: string) => {
+        if (messageId === 'msg-2') {
+          throw new Error('Missing Access');
+        }
+        return {} as any;
+      });
+
+      const error = await db.bulkWrite([
+        { updateMany: { filter: { role: 'user' }, update: { $set: { active: true } } } },
+        { updateOne: { filter: { _id: '1' }, update: { $sett: { active: true } } as any } },
+        { frobnicate: {} } as any,
+        { deleteOne: { filter: { _id: '1' } } }
+      ], { ordered: false }).catch(e => e);
+
+      expect(error).toBeInstanceOf(BulkWriteError);
+      expect(error.message).toContain('3 errors, first at operation 0: Missing Access');
+      expect(error.writeErrors.map((failure: any) => [failure.index, failure.documentId])).toEqual([
+        [0, '2'], [1, undefined], [2, undefined]
+      ]);
+      expect(error.writeErrors[2].error).toBeInstanceOf(ValidationError);
+      expect(error.result).toMatchObject({ matchedCount: 2, modifiedCount: 1, deletedCount: 1 });
+    });
+
+    it('should reject empty bulks and operations without a filter', async () => {
+      await expect(db.bulkWrite([])).rejects.toThrow(ValidationError);
+
+      const error = await db.bulkWrite([{ deleteMany: {} } as any]).catch(e => e);
+      expect(error.writeErrors[0].error.message).toBe('deleteMany requires a filter');
+      expect(mockClient.bulkDeleteMessages).not.toHaveBeenCalled();
+    });
+
+    it('should reject insertOne without a document object', async () => {
+      const error = await db.bulkWrite([
+        { insertOne: {} } as any,
+        { insertOne: { document: 'Dana' } } as any,
+        { insertOne: { document: null } } as any
+      ], { ordered: false }).catch(e => e);
+
+      expect(error).toBeInstanceOf(BulkWriteError);
+      expect(error.writeErrors.map((failure: any) => failure.error.message)).toEqual(Array(3).fill('insertOne requires a document'));
+      expect(error.result.insertedCount).toBe(0);
+      expect(mockClient.sendMessage).not.toHaveBeenCalled();
+    });
   });
 
   describe('deleteMany', () => {
@@ -327,12 +1525,78 @@ describe('DiscordDB', () => {
     });
 
     it('should delete multiple documents', async () => {
-      mockClient.deleteMessage.mockResolvedValue(undefined);
+      mockClient.bulkDeleteMessages.mockResolvedValue(undefined);
 
       const result = await db.deleteMany({ role: 'user' });
 
       expect(result.deletedCount).toBe(2);
-      expect(mockClient.deleteMessage).toHaveBeenCalledTimes(2);
+      expect(mockClient.bulkDeleteMessages).toHaveBeenCalledWith(['msg-2', 'msg-3']);
+      expect(mockClient.deleteMessage).not.toHaveBeenCalled();
+      expect(await db.countDocuments()).toBe(1);
+    });
+
+    it('should skip the request when nothing matches', async () => {
+      const result = await db.deleteMany({ role: 'nonexistent' });
+
+      expect(result.deletedCount).toBe(0);
+      expect(mockClient.bulkDeleteMessages).not.toHaveBeenCalled();
+    });
+
+    it('should resync after a failed bulk delete', async () => {
+      mockClient.bulkDeleteMessages.mockRejectedValueOnce(new Error('Missing Permissions'));
+
+      await expect(db.deleteMany({ role: 'user' })).rejects.toThrow('Missing Permissions');
+
+      mockClient.getAllMessages.mockResolvedValue([mockMessages[0]] as any);
+      expect(await db.countDocuments()).toBe(1);
+    });
+  });
+
+  describe('aggregate', () => {
+    beforeEach(() => {
+      mockClient.getAllMessages.mockResolvedValue(mockMessages as any);
+    });
+
+    it('should run a pipeline over the cached documents', async () => {
+      const results = await db.aggregate([
+        { $match: { age: { $gte: 30 } } },
+        { $group: { _id: '$role', count: { $sum: 1 } } },
+        { $sort: { _id: 1 } }
+      ]);
+
+      expect(results).toEqual([
+        { _id: 'admin', count: 1 },
+        { _id: 'user', count: 1 }
+      ]);
+    });
+
+    it('should join documents from another source', async () => {
+      const tasks = {
+        find: jest.fn().mockResolvedValue({
+          documents: [{ _id: 't1', title: 'Docs', userId: '2' }, { _id: 't2', title: 'Tests', userId: '2' }],
+          total: 2,
+          hasMore: false
+        })
+      };
+
+      const results = await db.aggregate([
+        { $match: { role: 'user' } },
+        { $lookup: { from: tasks, localField: '_id', foreignField: 'userId', as: 'tasks' } },
+        { $project: { name: 1, taskCount: '$tasks' } }
+      ]);
+
+      expect(results[0].taskCount).toHaveLength(2);
+      expect(results[1].taskCount).toEqual([]);
+      expect(tasks.find).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require a resolver for collection names', async () => {
+      await expect(db.aggregate([{ $lookup: { from: 'tasks', localField: '_id', foreignField: 'userId', as: 'tasks' } }]))
+        .rejects.toThrow('Cannot resolve collection "tasks"');
+    });
+
+    it('should reject invalid pipelines', async () => {
+      await expect(db.aggregate([{ $bogus: {} } as any])).rejects.toThrow(ValidationError);
     });
   });
 
@@ -415,11 +1679,31 @@ describe('DiscordDB', () => {
     });
 
     it('should delete all documents', async () => {
-      mockClient.deleteMessage.mockResolvedValue(undefined);
+      mockClient.bulkDeleteMessages.mockResolvedValue(undefined);
+
+      await db.drop();
+
+      expect(mockClient.bulkDeleteMessages).toHaveBeenCalledWith(['msg-1', 'msg-2', 'msg-3']);
+    });
+
+    it('should delete transaction journals and lock claims too', async () => {
+      mockClient.getAllMessages.mockResolvedValue([
+        ...mockMessages,
+        { id: 'journal-msg', content: JSON.stringify({ _id: '$txn:abc', state: 'pending', startedAt: Date.now(), changes: [] }), timestamp: new Date().toISOString() },
+        { id: 'lock-msg', content: 'ddb:lock:' + JSON.stringify({ name: 'jobs', owner: 'other', ttlMs: 60000 }), timestamp: new Date().toISOString() }
+      ] as any);
+      mockClient.bulkDeleteMessages.mockResolvedValue(undefined);
 
       await db.drop();
 
-      expect(mockClient.deleteMessage).toHaveBeenCalledTimes(3);
+      expect(mockClient.bulkDeleteMessages).toHaveBeenCalledWith(['msg-1', 'msg-2', 'msg-3', 'journal-msg']);
+      expect(mockClient.bulkDeleteMessages).toHaveBeenCalledWith(['lock-msg']);
+    });
+
+    it('should wrap errors', async () => {
+      mockClient.bulkDeleteMessages.mockRejectedValue(new Error('Boom'));
+
+      await expect(db.drop()).rejects.toThrow(DiscordDBError);
     });
   });
 
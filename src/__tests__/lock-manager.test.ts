@@ -0,0 +1,110 @@
+import { LockManager } from '../lock-manager';
+import { compareSnowflakes } from '../utils/snowflake';
+import { DiscordMessage, LockTimeoutError, NetworkError, ValidationError } from '../types';
+
+describe('LockManager', () => {
+  // One channel shared by several managers, as by several instances of an app
+  let messages: Map<string, DiscordMessage>;
+  let nextId: number;
+
+  const notFound = () => Promise.reject(new NetworkError('Not found', 'NOT_FOUND'));
+  const mockClient = {
+    sendMessage: jest.fn((content: string) => {
+      const message = { id: String(nextId++), content, timestamp: new Date().toISOString() } as DiscordMessage;
+      messages.set(message.id, message);
+      return Promise.resolve(message);
+    }),
+    getMessage: jest.fn((id: string) => messages.has(id) ? Promise.resolve(messages.get(id)!) : notFound()),
+    editMessage: jest.fn((id: string, content: string) => {
+      if (!messages.has(id)) {
+        return notFound();
+      }
+      const message = { ...messages.get(id)!, content, edited_timestamp: new Date().toISOString() };
+      messages.set(id, message);
+      return Promise.resolve(message);
+    }),
+    deleteMessage: jest.fn((id: string) => messages.delete(id) ? Promise.resolve() : notFound())
+  };
+
+  const createManager = () => {
+    const manager: LockManager = new LockManager(mockClient as any, async () => {
+      messages.forEach(message => manager.observe(message));
+    });
+    return manager;
+  };
+
+  const fast = { ttlMs: 1000, retryIntervalMs: 10 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    messages = new Map();
+    nextId = 1000;
+  });
+
+  it('should let one holder in at a time', async () => {
+    const [first, second] = [createManager(), createManager()];
+
+    const lock = await first.acquire('jobs', fast);
+    expect(lock.held).toBe(true);
+    await expect(second.acquire('jobs', { ...fast, waitMs: 50 })).rejects.toThrow(LockTimeoutError);
+    await expect(second.acquire('reports', fast)).resolves.toBeDefined();
+
+    // The timed out claim is withdrawn
+    expect(Array.from(messages.values()).filter(message => message.content.includes('"jobs"'))).toHaveLength(1);
+  });
+
+  it('should hand the lock over on release', async () => {
+    const [first, second] = [createManager(), createManager()];
+    const lock = await first.acquire('jobs', fast);
+
+    const waiting = second.acquire('jobs', { ...fast, waitMs: 1000 });
+    setTimeout(() => lock.release(), 30);
+    const next = await waiting;
+
+    expect(lock.held).toBe(false);
+    expect(next.held).toBe(true);
+    expect(compareSnowflakes(next.fencingToken, lock.fencingToken)).toBeGreaterThan(0);
+  });
+
+  it('should let the lock be taken once a lease lapses', async () => {
+    const [first, second] = [createManager(), createManager()];
+    const lock = await first.acquire('jobs', { ttlMs: 40, retryIntervalMs: 10 });
+
+    const next = await second.acquire('jobs', { ...fast, waitMs: 1000 });
+
+    expect(next.held).toBe(true);
+    expect(lock.held).toBe(false);
+    expect(await lock.renew()).toBe(false);
+    expect(messages.has(lock.fencingToken)).toBe(false);
+  });
+
+  it('should extend a lease on renew', async () => {
+    const lock = await createManager().acquire('jobs', { ttlMs: 1000 });
+    const { expiresAt } = lock;
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect(await lock.renew(5000)).toBe(true);
+    expect(lock.expiresAt).toBeGreaterThan(expiresAt + 3000);
+  });
+
+  it('should hold the lock for the length of withLock', async () => {
+    const [first, second] = [createManager(), createManager()];
+
+    const result = await first.withLock('jobs', async lock => {
+      await expect(second.acquire('jobs', { ...fast, waitMs: 0 })).rejects.toMatchObject({ lockName: 'jobs', waitMs: 0 });
+      return lock.fencingToken;
+    }, fast);
+
+    expect(messages.has(result)).toBe(false);
+    await expect(second.acquire('jobs', { ...fast, waitMs: 0 })).resolves.toBeDefined();
+  });
+
+  it('should recognize claim messages and validate options', async () => {
+    const manager = createManager();
+
+    expect(manager.observe({ id: '1', content: 'ddb:lock:{"name":"jobs","ttlMs":10}' } as DiscordMessage)).toBe(true);
+    expect(manager.observe({ id: '2', content: '{"_id":"1"}' } as DiscordMessage)).toBe(false);
+    await expect(manager.acquire('')).rejects.toThrow(ValidationError);
+    await expect(manager.acquire('jobs', { ttlMs: 0 })).rejects.toThrow(ValidationError);
+  });
+});
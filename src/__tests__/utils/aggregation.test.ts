@@ -0,0 +1,292 @@
+import { runPipeline, evaluateExpression, populateDocuments, collectLookupSources } from '../../utils/aggregation';
+import { DBDocument, ValidationError } from '../../types';
+
+describe('Aggregation Utils', () => {
+  const sampleDocuments: DBDocument[] = [
+    { _id: '1', name: 'John', age: 30, role: 'admin', tags: ['user', 'active'], score: 85, address: { city: 'Paris' } },
+    { _id: '2', name: 'Jane', age: 25, role: 'user', tags: ['user'], score: 92, address: { city: 'Berlin' } },
+    { _id: '3', name: 'Bob', age: 35, role: 'user', tags: ['user', 'premium'], score: 78 },
+    { _id: '4', name: 'Alice', age: 28, role: 'moderator', tags: [], score: 88 },
+    { _id: '5', name: 'Charlie', age: 22, role: 'user', score: 95 }
+  ];
+
+  describe('evaluateExpression', () => {
+    it('should resolve field paths, objects and literals', () => {
+      const doc = sampleDocuments[0];
+
+      expect(evaluateExpression(doc, '$address.city')).toBe('Paris');
+      expect(evaluateExpression(doc, { role: '$role', fixed: 1 })).toEqual({ role: 'admin', fixed: 1 });
+      expect(evaluateExpression(doc, 'literal')).toBe('literal');
+    });
+  });
+
+  describe('$match', () => {
+    it('should filter documents with query syntax', () => {
+      const results = runPipeline(sampleDocuments, [{ $match: { age: { $gte: 28 } } }]);
+      expect(results.map(doc => doc._id)).toEqual(['1', '3', '4']);
+    });
+  });
+
+  describe('$group', () => {
+    it('should group by an expression and apply accumulators', () => {
+      const results = runPipeline(sampleDocuments, [
+        {
+          $group: {
+            _id: '$role',
+            count: { $sum: 1 },
+            totalScore: { $sum: '$score' },
+            avgAge: { $avg: '$age' },
+            youngest: { $min: '$age' },
+            oldest: { $max: '$age' },
+            names: { $push: '$name' },
+            first: { $first: '$name' },
+            last: { $last: '$name' }
+          }
+        }
+      ]);
+
+      expect(results).toHaveLength(3);
+      expect(results.find(group => group._id === 'user')).toEqual({
+        _id: 'user',
+        count: 3,
+        totalScore: 265,
+        avgAge: (25 + 35 + 22) / 3,
+        youngest: 22,
+        oldest: 35,
+        names: ['Jane', 'Bob', 'Charlie'],
+        first: 'Jane',
+        last: 'Charlie'
+      });
+    });
+
+    it('should group everything with a null _id', () => {
+      const [result] = runPipeline(sampleDocuments, [{ $group: { _id: null, total: { $sum: 1 } } }]);
+      expect(result).toEqual({ _id: null, total: 5 });
+    });
+
+    it('should group by compound keys', () => {
+      const results = runPipeline(sampleDocuments, [
+        { $match: { role: 'user' } },
+        { $group: { _id: { role: '$role', city: '$address.city' }, count: { $sum: 1 } } }
+      ]);
+
+      expect(results).toEqual([
+        { _id: { role: 'user', city: 'Berlin' }, count: 1 },
+        { _id: { role: 'user' }, count: 2 }
+      ]);
+    });
+
+    it('should collect unique values with $addToSet', () => {
+      const results = runPipeline(sampleDocuments, [
+        { $unwind: '$tags' },
+        { $group: { _id: null, tags: { $addToSet: '$tags' } } }
+      ]);
+
+      expect(results[0].tags).toEqual(['user', 'active', 'premium']);
+    });
+
+    it('should ignore non-numeric values in $sum and $avg', () => {
+      const [result] = runPipeline([{ value: 2 }, { value: 'x' }, {}], [
+        { $group: { _id: null, sum: { $sum: '$value' }, avg: { $avg: '$value' } } }
+      ]);
+
+      expect(result).toEqual({ _id: null, sum: 2, avg: 2 });
+    });
+
+    it('should reject unknown accumulators and a missing _id', () => {
+      expect(() => runPipeline(sampleDocuments, [{ $group: { _id: '$role', n: { $count: 1 } } } as any]))
+        .toThrow(ValidationError);
+      expect(() => runPipeline(sampleDocuments, [{ $group: { total: { $sum: 1 } } } as any]))
+        .toThrow('$group requires an _id expression');
+    });
+  });
+
+  describe('$project', () => {
+    it('should include fields and compute new ones', () => {
+      const [result] = runPipeline(sampleDocuments, [
+        { $project: { name: 1, 'address.city': 1, city: '$address.city' } }
+      ]);
+
+      expect(result).toEqual({ _id: '1', name: 'John', address: { city: 'Paris' }, city: 'Paris' });
+    });
+
+    it('should exclude fields', () => {
+      const [result] = runPipeline(sampleDocuments, [{ $project: { tags: 0, address: 0, _id: 0 } }]);
+
+      expect(result).toEqual({ name: 'John', age: 30, role: 'admin', score: 85 });
+    });
+
+    it('should compute fields with expression operators', () => {
+      const [result] = runPipeline(sampleDocuments, [
+        { $addFields: { bonus: { $cond: [{ $gte: ['$score', 85] }, { $multiply: ['$score', 0.1] }, 0] } } },
+        { $project: { label: { $concat: [{ $toUpper: '$name' }, ' (', '$role', ')'] }, bonus: 1, _id: 0 } }
+      ]);
+
+      expect(result).toEqual({ label: 'JOHN (admin)', bonus: 8.5 });
+    });
+
+    it('should reject mixed inclusion and exclusion', () => {
+      expect(() => runPipeline(sampleDocuments, [{ $project: { name: 1, age: 0 } }]))
+        .toThrow('$project cannot mix inclusion and exclusion');
+    });
+  });
+
+  describe('$sort, $skip and $limit', () => {
+    it('should sort and paginate', () => {
+      const results = runPipeline(sampleDocuments, [
+        { $sort: { score: -1 } },
+        { $skip: 1 },
+        { $limit: 2 }
+      ]);
+
+      expect(results.map(doc => doc.name)).toEqual(['Jane', 'Alice']);
+    });
+
+    it('should reject invalid counts', () => {
+      expect(() => runPipeline(sampleDocuments, [{ $limit: -1 }])).toThrow(ValidationError);
+    });
+  });
+
+  describe('$unwind', () => {
+    it('should emit one document per array element', () => {
+      const results = runPipeline(sampleDocuments, [{ $match: { _id: '1' } }, { $unwind: '$tags' }]);
+
+      expect(results.map(doc => doc.tags)).toEqual(['user', 'active']);
+    });
+
+    it('should drop missing and empty arrays unless preserved', () => {
+      expect(runPipeline(sampleDocuments, [{ $unwind: '$tags' }])).toHaveLength(5);
+
+      const preserved = runPipeline(sampleDocuments, [
+        { $unwind: { path: '$tags', preserveNullAndEmptyArrays: true, includeArrayIndex: 'index' } }
+      ]);
+      expect(preserved).toHaveLength(7);
+      expect(preserved.find(doc => doc._id === '4')!.index).toBeNull();
+    });
+  });
+
+  describe('$lookup', () => {
+    const tasks: DBDocument[] = [
+      { _id: 't1', title: 'Docs', userId: '1', hours: 2 },
+      { _id: 't2', title: 'Tests', userId: '1', hours: 5 },
+      { _id: 't3', title: 'Review', userId: '2', hours: 1 }
+    ];
+    const resolve = (from: any) => (from === 'tasks' ? tasks : sampleDocuments);
+
+    it('should join documents by local and foreign field', () => {
+      const results = runPipeline(sampleDocuments.slice(0, 3), [
+        { $lookup: { from: 'tasks', localField: '_id', foreignField: 'userId', as: 'tasks' } }
+      ], resolve);
+
+      expect(results.map(doc => doc.tasks.map((task: DBDocument) => task._id))).toEqual([['t1', 't2'], ['t3'], []]);
+      expect(sampleDocuments[0].tasks).toBeUndefined();
+    });
+
+    it('should match array values on either side', () => {
+      const teams = [{ _id: 'team', members: ['1', '3'] }];
+
+      const [team] = runPipeline(teams, [
+        { $lookup: { from: 'users', localField: 'members', foreignField: '_id', as: 'users' } }
+      ], resolve);
+
+      expect(team.users.map((user: DBDocument) => user.name)).toEqual(['John', 'Bob']);
+    });
+
+    it('should run sub-pipelines with let variables', () => {
+      const results = runPipeline(sampleDocuments.slice(0, 2), [
+        {
+          $lookup: {
+            from: 'tasks',
+            let: { owner: '$_id' },
+            pipeline: [
+              { $match: { userId: '$$owner', hours: { $gte: 2 } } },
+              { $project: { title: 1, _id: 0 } }
+            ],
+            as: 'longTasks'
+          }
+        }
+      ], resolve);
+
+      expect(results[0].longTasks).toEqual([{ title: 'Docs' }, { title: 'Tests' }]);
+      expect(results[1].longTasks).toEqual([]);
+    });
+
+    it('should support nested lookups', () => {
+      const [task] = runPipeline([tasks[2]], [
+        {
+          $lookup: {
+            from: 'users',
+            localField: 'userId',
+            foreignField: '_id',
+            pipeline: [
+              { $lookup: { from: 'tasks', localField: '_id', foreignField: 'userId', as: 'tasks' } }
+            ],
+            as: 'owner'
+          }
+        }
+      ], resolve);
+
+      expect(task.owner[0].name).toBe('Jane');
+      expect(task.owner[0].tasks).toHaveLength(1);
+    });
+
+    it('should list sources of nested lookups once', () => {
+      const source = { find: jest.fn() };
+
+      expect(collectLookupSources([
+        { $lookup: { from: 'tasks', localField: 'a', foreignField: 'b', as: 'c' } },
+        { $lookup: { from: source, pipeline: [{ $lookup: { from: 'tasks', localField: 'a', foreignField: 'b', as: 'c' } }], as: 'd' } }
+      ])).toEqual(['tasks', source]);
+    });
+
+    it('should validate the stage', () => {
+      expect(() => runPipeline(sampleDocuments, [{ $lookup: { from: 'tasks', as: 'tasks' } }], resolve))
+        .toThrow('$lookup requires localField and foreignField, or a pipeline');
+      expect(() => runPipeline(sampleDocuments, [{ $lookup: { from: 'tasks', localField: '_id', foreignField: 'userId', as: 'tasks' } }]))
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('populateDocuments', () => {
+    it('should replace references with the referenced documents', () => {
+      const tasks = [
+        { _id: 't1', userId: '2' },
+        { _id: 't2', userId: 'missing' },
+        { _id: 't3', reviewers: ['1', '5', 'missing'] },
+        { _id: 't4' }
+      ];
+
+      const results = populateDocuments(tasks, [
+        { path: 'userId', from: 'users', as: 'user' },
+        { path: 'reviewers', from: 'users' }
+      ], () => sampleDocuments);
+
+      expect(results[0].user.name).toBe('Jane');
+      expect(results[0].userId).toBe('2');
+      expect(results[1].user).toBeNull();
+      expect(results[2].reviewers.map((user: DBDocument) => user.name)).toEqual(['John', 'Charlie']);
+      expect(results[3]).toEqual({ _id: 't4' });
+    });
+  });
+
+  describe('$count and $addFields', () => {
+    it('should count documents', () => {
+      expect(runPipeline(sampleDocuments, [{ $match: { role: 'user' } }, { $count: 'users' }]))
+        .toEqual([{ users: 3 }]);
+      expect(runPipeline(sampleDocuments, [{ $match: { role: 'none' } }, { $count: 'users' }]))
+        .toEqual([]);
+    });
+
+    it('should add fields without mutating the input', () => {
+      const [result] = runPipeline(sampleDocuments, [{ $addFields: { 'address.country': 'FR', label: '$name' } }]);
+
+      expect(result.address).toEqual({ city: 'Paris', country: 'FR' });
+      expect(result.label).toBe('John');
+      expect(sampleDocuments[0].address).toEqual({ city: 'Paris' });
+    });
+  });
+
+  it('should reject unknown stages', () => {
+    expect(() => runPipeline(sampleDocuments, [{ $out: 'other' } as any])).toThrow('Unknown pipeline stage $out');
+  });
+});
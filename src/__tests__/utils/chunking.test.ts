@@ -0,0 +1,88 @@
+import {
+  MAX_MESSAGE_LENGTH,
+  splitIntoChunks,
+  encodeChunk,
+  decodeChunk,
+  encodeManifest,
+  decodeManifest,
+  estimateManifestLength,
+  assembleChunks
+} from '../../utils/chunking';
+
+describe('Chunking Utils', () => {
+  describe('splitIntoChunks', () => {
+    it('should keep every encoded chunk within the message limit', () => {
+      const content = 'a'.repeat(10000);
+      const pieces = splitIntoChunks(content);
+
+      expect(pieces.join('')).toBe(content);
+      pieces.forEach((piece, index) => {
+        expect(encodeChunk(index, piece).length).toBeLessThanOrEqual(MAX_MESSAGE_LENGTH);
+      });
+    });
+
+    it('should return no chunks for empty content', () => {
+      expect(splitIntoChunks('')).toEqual([]);
+    });
+
+    it('should not split surrogate pairs', () => {
+      const content = 'a'.repeat(1986) + '😀'.repeat(10);
+      const pieces = splitIntoChunks(content);
+
+      expect(pieces.join('')).toBe(content);
+      pieces.forEach(piece => {
+        const last = piece.charCodeAt(piece.length - 1);
+        expect(last >= 0xd800 && last <= 0xdbff).toBe(false);
+      });
+    });
+  });
+
+  describe('encodeChunk / decodeChunk', () => {
+    it('should round-trip chunk data including trailing whitespace and colons', () => {
+      const encoded = encodeChunk(3, 'a:b:c   ');
+
+      expect(decodeChunk(encoded)).toEqual({ index: 3, data: 'a:b:c   ' });
+    });
+
+    it('should return null for non-chunk content', () => {
+      expect(decodeChunk('{"_id":"1"}')).toBeNull();
+      expect(decodeChunk('ddb:chunk:x:data;')).toBeNull();
+      expect(decodeChunk('ddb:chunk:0:truncated')).toBeNull();
+    });
+  });
+
+  describe('encodeManifest / decodeManifest', () => {
+    it('should round-trip a manifest', () => {
+      const manifest = { parts: ['1', '2'], length: 3000 };
+
+      expect(decodeManifest(encodeManifest(manifest))).toEqual(manifest);
+    });
+
+    it('should return null for regular documents', () => {
+      expect(decodeManifest('{"_id":"1","$chunks":[]}')).toBeNull();
+      expect(decodeManifest('{"$chunks":"oops","$length":1}')).toBeNull();
+    });
+
+    it('should estimate manifest length for snowflake ids', () => {
+      const ids = ['12345678901234567890', '12345678901234567891'];
+
+      expect(estimateManifestLength(2, 3000)).toBe(encodeManifest({ parts: ids, length: 3000 }).length);
+    });
+  });
+
+  describe('assembleChunks', () => {
+    const chunkData = new Map([['1', 'hello '], ['2', 'world']]);
+
+    it('should join chunks in manifest order', () => {
+      expect(assembleChunks({ parts: ['1', '2'], length: 11 }, chunkData)).toBe('hello world');
+    });
+
+    it('should return null when a chunk is missing', () => {
+      expect(assembleChunks({ parts: ['1', '3'], length: 11 }, chunkData)).toBeNull();
+    });
+
+    it('should return null when the length does not match', () => {
+      expect(assembleChunks({ parts: ['1', '2'], length: 12 }, chunkData)).toBeNull();
+    });
+  });
+});
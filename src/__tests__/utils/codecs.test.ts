@@ -0,0 +1,98 @@
+import {
+  CodecRegistry,
+  encodeBase2048,
+  decodeBase2048,
+  isCodecEncoded
+} from '../../utils/codecs';
+import { ByteCodec } from '../../types';
+
+describe('Codec Utils', () => {
+  const sample = JSON.stringify({
+    _id: '1',
+    name: 'John Doe',
+    notes: 'repetitive text '.repeat(40),
+    unicode: 'héllo 😀'
+  });
+
+  describe('base2048', () => {
+    it('should round-trip byte arrays of every padding length', () => {
+      for (let length = 0; length < 24; length++) {
+        const bytes = Uint8Array.from({ length }, (_, i) => (i * 37 + length) & 0xff);
+        expect(Array.from(decodeBase2048(encodeBase2048(bytes)))).toEqual(Array.from(bytes));
+      }
+    });
+
+    it('should use 11 bits per character', () => {
+      const encoded = encodeBase2048(new Uint8Array(110));
+
+      expect(encoded.length).toBe(1 + 80);
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => decodeBase2048('')).toThrow('missing header');
+      expect(() => decodeBase2048('abc')).toThrow();
+    });
+  });
+
+  describe('CodecRegistry', () => {
+    it('should round-trip through deflate and base64 by default encoding', () => {
+      const registry = new CodecRegistry();
+      const encoded = registry.createPipeline({ compression: 'deflate' }).encode(sample);
+
+      expect(encoded.startsWith('ddb:codec:deflate.base64:')).toBe(true);
+      expect(encoded.length).toBeLessThan(sample.length);
+      expect(registry.decode(encoded)).toBe(sample);
+    });
+
+    it('should round-trip through brotli and base2048', () => {
+      const registry = new CodecRegistry();
+      const encoded = registry.createPipeline({ compression: 'brotli', encoding: 'base2048' }).encode(sample);
+
+      expect(encoded.startsWith('ddb:codec:brotli.base2048:')).toBe(true);
+      expect(registry.decode(encoded)).toBe(sample);
+    });
+
+    it('should skip compression when set to none', () => {
+      const registry = new CodecRegistry();
+      const encoded = registry.createPipeline({ compression: 'none' }).encode(sample);
+
+      expect(encoded.startsWith('ddb:codec:base64:')).toBe(true);
+      expect(registry.decode(encoded)).toBe(sample);
+    });
+
+    it('should register custom codecs passed as options', () => {
+      const reverse: ByteCodec = {
+        name: 'reverse',
+        encode: data => data.slice().reverse(),
+        decode: data => data.slice().reverse()
+      };
+      const registry = new CodecRegistry();
+      const encoded = registry.createPipeline({ compression: reverse }).encode(sample);
+
+      expect(encoded.startsWith('ddb:codec:reverse.base64:')).toBe(true);
+      expect(registry.decode(encoded)).toBe(sample);
+    });
+
+    it('should reject unknown codecs', () => {
+      const registry = new CodecRegistry();
+
+      expect(() => registry.createPipeline({ compression: 'lzma' as any })).toThrow('Unknown compression codec');
+      expect(() => registry.decode('ddb:codec:lzma.base64:AAAA')).toThrow('Unknown codec "lzma"');
+      expect(() => registry.decode('ddb:codec:base99:AAAA')).toThrow('Unknown text codec "base99"');
+    });
+
+    it('should reject invalid codec names', () => {
+      const registry = new CodecRegistry();
+
+      expect(() => registry.registerByteCodec({ name: 'bad.name', encode: d => d, decode: d => d }))
+        .toThrow('Invalid codec name');
+    });
+  });
+
+  describe('isCodecEncoded', () => {
+    it('should detect codec prefixes', () => {
+      expect(isCodecEncoded('ddb:codec:base64:e30=')).toBe(true);
+      expect(isCodecEncoded('{"_id":"1"}')).toBe(false);
+    });
+  });
+});
@@ -83,6 +83,33 @@ describe('EncryptionService', () => {
     });
   });
 
+  describe('byte encryption', () => {
+    it('should encrypt and decrypt bytes', () => {
+      const service = new EncryptionService(testKey);
+      const bytes = new TextEncoder().encode(complexData);
+
+      const encrypted = service.encryptBytes(bytes);
+      expect(encrypted.length).toBeGreaterThan(16);
+      expect(Buffer.from(encrypted).includes(Buffer.from('John Doe'))).toBe(false);
+
+      expect(new TextDecoder().decode(service.decryptBytes(encrypted))).toBe(complexData);
+    });
+
+    it('should not decrypt bytes with the wrong key', () => {
+      const encrypted = new EncryptionService(testKey).encryptBytes(new TextEncoder().encode(testData));
+
+      // CBC padding is valid for about 1 in 256 wrong keys, so decryption may
+      // produce garbage instead of failing
+      let decrypted: string | undefined;
+      try {
+        decrypted = new TextDecoder().decode(new EncryptionService('wrong-key').decryptBytes(encrypted));
+      } catch (error) {
+        expect((error as Error).message).toContain('Decryption failed');
+      }
+      expect(decrypted).not.toBe(testData);
+    });
+  });
+
   describe('isEncrypted utility', () => {
     it('should correctly identify encrypted data', () => {
       const service = new EncryptionService(testKey);
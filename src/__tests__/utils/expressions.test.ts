@@ -0,0 +1,113 @@
+import { evaluateExpression, isTruthy } from '../../utils/expressions';
+import { ValidationError } from '../../types';
+
+describe('Expression Utils', () => {
+  const doc = {
+    _id: '1',
+    name: 'Launch',
+    owner: { first: 'Ada', last: 'Lovelace' },
+    budget: 100,
+    spent: 120,
+    tags: ['a', 'b'],
+    discount: null,
+    createdAt: '2024-03-05T14:07:09.250Z'
+  };
+  const evaluate = (expression: any) => evaluateExpression(doc, expression);
+
+  describe('paths and literals', () => {
+    it('should resolve field paths, the root document and literals', () => {
+      expect(evaluate('$owner.first')).toBe('Ada');
+      expect(evaluate('$$ROOT')).toBe(doc);
+      expect(evaluate({ $literal: '$name' })).toBe('$name');
+      expect(evaluate({ label: '$name', fixed: 1 })).toEqual({ label: 'Launch', fixed: 1 });
+    });
+
+    it('should reject unknown operators and mixed operator objects', () => {
+      expect(() => evaluate({ $foo: 1 })).toThrow('Unknown expression operator $foo');
+      expect(() => evaluate({ $add: [1, 2], $subtract: [3, 1] })).toThrow(ValidationError);
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add, subtract, multiply, divide and take remainders', () => {
+      expect(evaluate({ $add: ['$budget', 5, '$spent'] })).toBe(225);
+      expect(evaluate({ $subtract: ['$spent', '$budget'] })).toBe(20);
+      expect(evaluate({ $multiply: ['$budget', 0.5] })).toBe(50);
+      expect(evaluate({ $divide: ['$spent', '$budget'] })).toBe(1.2);
+      expect(evaluate({ $mod: ['$spent', 7] })).toBe(1);
+    });
+
+    it('should return null for missing operands and reject invalid ones', () => {
+      expect(evaluate({ $add: ['$budget', '$missing'] })).toBeNull();
+      expect(() => evaluate({ $add: ['$budget', '$name'] })).toThrow(ValidationError);
+      expect(() => evaluate({ $divide: ['$budget', 0] })).toThrow('$divide by zero');
+      expect(() => evaluate({ $subtract: [1] })).toThrow('$subtract takes 2 arguments');
+    });
+
+    it('should do date arithmetic', () => {
+      const start = new Date('2024-01-01T00:00:00.000Z');
+      const later = evaluateExpression({ start }, { $add: ['$start', 60000] });
+
+      expect(later).toEqual(new Date('2024-01-01T00:01:00.000Z'));
+      expect(evaluateExpression({ start, later }, { $subtract: ['$later', '$start'] })).toBe(60000);
+    });
+  });
+
+  describe('comparison and logic', () => {
+    it('should compare values', () => {
+      expect(evaluate({ $gt: ['$spent', '$budget'] })).toBe(true);
+      expect(evaluate({ $lte: ['$spent', '$budget'] })).toBe(false);
+      expect(evaluate({ $eq: ['$tags', ['a', 'b']] })).toBe(true);
+      expect(evaluate({ $ne: ['$name', 'Launch'] })).toBe(false);
+      expect(evaluate({ $cmp: ['$budget', '$spent'] })).toBe(-1);
+    });
+
+    it('should combine conditions', () => {
+      expect(evaluate({ $and: [{ $gt: ['$spent', 0] }, '$name'] })).toBe(true);
+      expect(evaluate({ $or: [false, '$missing'] })).toBe(false);
+      expect(evaluate({ $not: [{ $gt: ['$spent', '$budget'] }] })).toBe(false);
+      expect([0, null, undefined, false, '', [], 'x'].map(isTruthy)).toEqual([false, false, false, false, true, true, true]);
+    });
+
+    it('should evaluate $cond and $ifNull', () => {
+      expect(evaluate({ $cond: [{ $gt: ['$spent', '$budget'] }, 'over', 'under'] })).toBe('over');
+      expect(evaluate({ $cond: { if: { $lt: ['$spent', '$budget'] }, then: 'under', else: 'over' } })).toBe('over');
+      expect(evaluate({ $ifNull: ['$discount', '$missing', 0] })).toBe(0);
+      expect(evaluate({ $ifNull: ['$name', 'Untitled'] })).toBe('Launch');
+      expect(() => evaluate({ $cond: [true, 1] })).toThrow(ValidationError);
+    });
+  });
+
+  describe('strings and arrays', () => {
+    it('should transform strings', () => {
+      expect(evaluate({ $concat: ['$owner.first', ' ', '$owner.last'] })).toBe('Ada Lovelace');
+      expect(evaluate({ $concat: ['$name', '$missing'] })).toBeNull();
+      expect(evaluate({ $toUpper: '$name' })).toBe('LAUNCH');
+      expect(evaluate({ $toLower: ['$owner.last'] })).toBe('lovelace');
+      expect(evaluate({ $substr: ['$name', 1, 3] })).toBe('aun');
+      expect(evaluate({ $substr: ['$name', 2, -1] })).toBe('unch');
+      expect(evaluate({ $size: '$tags' })).toBe(2);
+    });
+  });
+
+  describe('dates', () => {
+    it('should extract date parts in UTC from dates and stored strings', () => {
+      expect(evaluate({ $year: '$createdAt' })).toBe(2024);
+      expect(evaluate({ $month: '$createdAt' })).toBe(3);
+      expect(evaluate({ $dayOfMonth: { date: '$createdAt' } })).toBe(5);
+      expect(evaluate({ $dayOfWeek: '$createdAt' })).toBe(3);
+      expect(evaluate({ $hour: '$createdAt' })).toBe(14);
+      expect(evaluate({ $minute: '$createdAt' })).toBe(7);
+      expect(evaluate({ $second: '$createdAt' })).toBe(9);
+      expect(evaluate({ $millisecond: '$createdAt' })).toBe(250);
+      expect(evaluate({ $year: '$missing' })).toBeNull();
+      expect(() => evaluate({ $year: '$name' })).toThrow('$year requires a date');
+    });
+
+    it('should convert and format dates', () => {
+      expect(evaluate({ $toDate: '$createdAt' })).toEqual(new Date(doc.createdAt));
+      expect(evaluate({ $dateToString: { date: '$createdAt', format: '%Y-%m-%d %H:%M' } })).toBe('2024-03-05 14:07');
+      expect(evaluate({ $dateToString: { date: '$createdAt' } })).toBe(doc.createdAt);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { matchesFilter, sortDocuments, applyProjection, applyPagination } from '../../utils/filters';
-import { DBDocument } from '../../types';
+import { DBDocument, ValidationError } from '../../types';
 
 describe('Filter Utils', () => {
   const sampleDocuments: DBDocument[] = [
@@ -110,6 +110,117 @@ describe('Filter Utils', () => {
       } as any));
       expect(results).toHaveLength(2);
     });
+
+    it('should match scalars against array elements', () => {
+      const match = (filter: any) => sampleDocuments.filter(doc => matchesFilter(doc, filter)).map(doc => doc._id);
+
+      expect(match({ tags: 'premium' })).toEqual(['3']);
+      expect(match({ tags: ['user', 'premium'] })).toEqual(['3']);
+      expect(match({ tags: { $in: ['new', 'moderator'] } })).toEqual(['4', '5']);
+      expect(match({ tags: { $ne: 'user' } })).toEqual(['4']);
+      expect(match({ tags: { $regex: /^prem/ } })).toEqual(['3']);
+      expect(sampleDocuments.filter(doc => matchesFilter({ ...doc, scores: [doc.score, 50] }, { scores: { $gt: 90 } }))).toHaveLength(2);
+    });
+
+    it('should compare objects without operators as values', () => {
+      const doc = { _id: 'x', address: { city: 'Paris', zip: '75001' } };
+
+      expect(matchesFilter(doc, { address: { city: 'Paris', zip: '75001' } } as any)).toBe(true);
+      expect(matchesFilter(doc, { address: { city: 'Paris' } } as any)).toBe(false);
+    });
+
+    it('should match $all and $size', () => {
+      const match = (filter: any) => sampleDocuments.filter(doc => matchesFilter(doc, filter)).map(doc => doc._id);
+
+      expect(match({ tags: { $all: ['active', 'user'] } })).toEqual(['1']);
+      expect(match({ tags: { $all: [] } })).toEqual([]);
+      expect(match({ tags: { $size: 1 } })).toEqual(['2']);
+      expect(match({ name: { $size: 4 } })).toEqual([]);
+    });
+
+    it('should match $elemMatch on scalar and object elements', () => {
+      const orders = [
+        { _id: 'a', items: [{ sku: 'x', qty: 1 }, { sku: 'y', qty: 5 }], ratings: [3, 9] },
+        { _id: 'b', items: [{ sku: 'x', qty: 5 }], ratings: [5] }
+      ];
+      const match = (filter: any) => orders.filter(doc => matchesFilter(doc, filter)).map(doc => doc._id);
+
+      expect(match({ items: { $elemMatch: { sku: 'x', qty: { $gte: 2 } } } })).toEqual(['b']);
+      expect(match({ ratings: { $elemMatch: { $gt: 4, $lt: 6 } } })).toEqual(['b']);
+      expect(match({ ratings: { $gt: 4, $lt: 6 } })).toEqual(['a', 'b']);
+    });
+
+    it('should match $type by name or numeric alias', () => {
+      const doc = { _id: 'x', name: 'a', count: 3, ratio: 0.5, tags: ['a'], meta: {}, none: null, when: new Date(), flag: true };
+
+      expect(matchesFilter(doc, { name: { $type: 'string' } })).toBe(true);
+      expect(matchesFilter(doc, { count: { $type: 'int' } })).toBe(true);
+      expect(matchesFilter(doc, { ratio: { $type: 'int' } })).toBe(false);
+      expect(matchesFilter(doc, { ratio: { $type: 1 } })).toBe(true);
+      expect(matchesFilter(doc, { tags: { $type: 'array' } })).toBe(true);
+      expect(matchesFilter(doc, { tags: { $type: 'string' } })).toBe(true);
+      expect(matchesFilter(doc, { meta: { $type: 3 } })).toBe(true);
+      expect(matchesFilter(doc, { none: { $type: ['null', 'string'] } })).toBe(true);
+      expect(matchesFilter(doc, { when: { $type: 'date' } })).toBe(true);
+      expect(matchesFilter(doc, { flag: { $type: 'bool' } })).toBe(true);
+      expect(matchesFilter(doc, { missing: { $type: 'null' } })).toBe(false);
+    });
+
+    it('should match $mod, $not and $nor', () => {
+      const match = (filter: any) => sampleDocuments.filter(doc => matchesFilter(doc, filter)).map(doc => doc._id);
+
+      expect(match({ age: { $mod: [5, 0] } })).toEqual(['1', '2', '3']);
+      expect(match({ age: { $not: { $gte: 28 } } })).toEqual(['2', '5']);
+      expect(match({ name: { $not: /^J/ } })).toEqual(['3', '4', '5']);
+      expect(match({ $nor: [{ role: 'user' }, { age: { $gt: 29 } }] })).toEqual(['4']);
+    });
+
+    it('should match $expr comparing fields of the same document', () => {
+      const projects = [
+        { _id: 'a', budget: 100, spent: 120 },
+        { _id: 'b', budget: 100, spent: 80 },
+        { _id: 'c', budget: 50 }
+      ];
+      const match = (filter: any) => projects.filter(doc => matchesFilter(doc, filter)).map(doc => doc._id);
+
+      expect(match({ $expr: { $gt: ['$spent', '$budget'] } })).toEqual(['a']);
+      expect(match({ $expr: { $lt: [{ $ifNull: ['$spent', 0] }, { $multiply: ['$budget', 0.9] }] } })).toEqual(['b', 'c']);
+      expect(match({ budget: 100, $expr: { $lt: ['$spent', '$budget'] } })).toEqual(['b']);
+    });
+
+    it('should reject unknown operators and malformed arguments', () => {
+      const doc = sampleDocuments[0];
+
+      expect(() => matchesFilter(doc, { tags: { $any: ['user'] } } as any)).toThrow('Unknown query operator $any');
+      expect(() => matchesFilter(doc, { $where: 'true' } as any)).toThrow(ValidationError);
+      expect(() => matchesFilter(doc, { age: { $and: [] } } as any)).toThrow(ValidationError);
+      expect(() => matchesFilter(doc, { tags: { $size: -1 } })).toThrow(ValidationError);
+      expect(() => matchesFilter(doc, { tags: { $all: 'user' } } as any)).toThrow(ValidationError);
+      expect(() => matchesFilter(doc, { age: { $mod: [0, 1] } })).toThrow(ValidationError);
+      expect(() => matchesFilter(doc, { age: { $type: 'integer' } } as any)).toThrow('Unknown $type integer');
+      expect(() => matchesFilter(doc, { age: { $not: 30 } } as any)).toThrow(ValidationError);
+    });
+
+    it('should match $text searches over the text fields', () => {
+      const notes = [
+        { _id: 'a', title: 'Meeting notes', body: 'Action items for the launch' },
+        { _id: 'b', title: 'Draft', body: 'Launch checklist' },
+        { _id: 'c', title: 'Groceries', body: 'Milk and eggs' }
+      ];
+      const options = { textWeights: { title: 1, body: 1 } };
+      const search = (query: string) =>
+        notes.filter(doc => matchesFilter(doc, { $text: { $search: query } }, options)).map(doc => doc._id);
+
+      expect(search('launching')).toEqual(['a', 'b']);
+      expect(search('launch -draft')).toEqual(['a']);
+      expect(search('"action items" checklist')).toEqual(['a']);
+      expect(notes.filter(doc => matchesFilter(doc, { $or: [{ $text: { $search: 'milk' } }, { title: 'Draft' }] } as any, options)))
+        .toHaveLength(2);
+    });
+
+    it('should reject $text without a text index', () => {
+      expect(() => matchesFilter(sampleDocuments[0], { $text: { $search: 'john' } })).toThrow(ValidationError);
+    });
   });
 
   describe('sortDocuments', () => {
@@ -142,6 +253,11 @@ describe('Filter Utils', () => {
       const sorted = sortDocuments(sampleDocuments, { role: 1, age: -1 });
       expect(sorted.map(doc => doc.name)).toEqual(['John', 'Alice', 'Bob', 'Jane', 'Charlie']);
     });
+
+    it('should sort by text score with the best match first', () => {
+      const sorted = sortDocuments(sampleDocuments, { relevance: { $meta: 'textScore' }, name: 1 }, doc => doc.score % 10);
+      expect(sorted.map(doc => doc.score)).toEqual([88, 78, 95, 85, 92]);
+    });
   });
 
   describe('applyProjection', () => {
@@ -167,6 +283,15 @@ describe('Filter Utils', () => {
       });
     });
 
+    it('should project text scores', () => {
+      const scorer = (doc: DBDocument) => doc.score / 100;
+
+      expect(applyProjection(sampleDocuments, { name: 1, relevance: { $meta: 'textScore' } }, scorer)[0])
+        .toEqual({ name: 'John', relevance: 0.85, _id: '1' });
+      expect(applyProjection(sampleDocuments, { relevance: { $meta: 'textScore' } }, scorer)[1])
+        .toEqual({ ...sampleDocuments[1], relevance: 0.92 });
+    });
+
     it('should exclude _id when explicitly set to 0', () => {
       const projected = applyProjection(sampleDocuments, { name: 1, _id: 0 });
       projected.forEach(doc => {
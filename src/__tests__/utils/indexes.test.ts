@@ -0,0 +1,254 @@
+import { IndexManager, indexName } from '../../utils/indexes';
+import { matchesFilter } from '../../utils/filters';
+import { DBDocument, ValidationError, DuplicateKeyError } from '../../types';
+
+describe('Index Utils', () => {
+  const sampleDocuments: DBDocument[] = [
+    { _id: '1', name: 'John', age: 30, role: 'admin', tags: ['user', 'active'] },
+    { _id: '2', name: 'Jane', age: 25, role: 'user', tags: ['user'] },
+    { _id: '3', name: 'Bob', age: 35, role: 'user', tags: ['premium'] },
+    { _id: '4', name: 'Alice', age: '28', role: 'moderator' },
+    { _id: '5', name: 'Charlie', role: 'user' }
+  ];
+
+  let indexes: IndexManager;
+
+  beforeEach(() => {
+    indexes = new IndexManager();
+    indexes.create({ name: 'age_1', key: { age: 1 } }, sampleDocuments);
+    indexes.create({ name: 'role_1', key: { role: 1 } }, sampleDocuments);
+    indexes.create({ name: 'tags_1', key: { tags: 1 } }, sampleDocuments);
+  });
+
+  const ids = (candidates: Set<string> | undefined) => candidates && Array.from(candidates).sort();
+
+  describe('indexName', () => {
+    it('should join fields and directions', () => {
+      expect(indexName({ age: 1, name: -1 })).toBe('age_1_name_-1');
+    });
+  });
+
+  describe('create', () => {
+    it('should ignore identical indexes and reject conflicting ones', () => {
+      expect(indexes.create({ name: 'age_1', key: { age: 1 } }, [])).toBe(false);
+      expect(() => indexes.create({ name: 'age_1', key: { age: -1 } }, [])).toThrow(ValidationError);
+      expect(indexes.list().map(index => index.name)).toEqual(['age_1', 'role_1', 'tags_1']);
+    });
+  });
+
+  describe('unique indexes', () => {
+    it('should report documents that share all indexed values', () => {
+      indexes.create({ name: 'name_1_role_1', key: { name: 1, role: 1 }, unique: true }, sampleDocuments);
+
+      const duplicate = indexes.checkUnique({ _id: '6', name: 'Jane', role: 'user' });
+      expect(duplicate).toBeInstanceOf(DuplicateKeyError);
+      expect(duplicate).toMatchObject({ index: 'name_1_role_1', keyValue: { name: 'Jane', role: 'user' } });
+      expect(indexes.checkUnique({ _id: '2', name: 'Jane', role: 'user' })).toBeUndefined();
+      expect(indexes.checkUnique({ _id: '6', name: 'Jane', role: 'admin' })).toBeUndefined();
+    });
+
+    it('should follow updates and removals', () => {
+      indexes.create({ name: 'name_1', key: { name: 1 }, unique: true }, sampleDocuments);
+
+      indexes.update({ _id: '2', name: 'Janet' });
+      expect(indexes.checkUnique({ _id: '6', name: 'Jane' })).toBeUndefined();
+      expect(indexes.checkUnique({ _id: '6', name: 'Janet' })).toBeDefined();
+
+      indexes.remove('2');
+      expect(indexes.checkUnique({ _id: '6', name: 'Janet' })).toBeUndefined();
+    });
+
+    it('should treat missing fields as null unless all are missing', () => {
+      indexes.create({ name: 'email_1', key: { email: 1 }, unique: true }, sampleDocuments);
+      expect(indexes.checkUnique({ _id: '6', name: 'Dana' })).toBeUndefined();
+
+      indexes.create({ name: 'name_1_email_1', key: { name: 1, email: 1 }, unique: true }, sampleDocuments);
+      expect(indexes.checkUnique({ _id: '6', name: 'Bob', email: null })).toMatchObject({ keyValue: { name: 'Bob', email: null } });
+    });
+
+    it('should refuse to build over duplicates', () => {
+      expect(() => indexes.create({ name: 'role_unique', key: { role: 1 }, unique: true }, sampleDocuments))
+        .toThrow(DuplicateKeyError);
+      expect(indexes.list().map(index => index.name)).toEqual(['age_1', 'role_1', 'tags_1']);
+      expect(() => indexes.create({ name: 'age_1', key: { age: 1 }, unique: true }, [])).toThrow(ValidationError);
+    });
+
+    it('should rebuild unique keys of documents restored from a snapshot', () => {
+      indexes.create({ name: 'name_1', key: { name: 1 }, unique: true }, sampleDocuments);
+      const restored = new IndexManager();
+      restored.restore(JSON.parse(JSON.stringify(indexes.snapshot('100', 5000))));
+
+      restored.sync(sampleDocuments, () => true);
+
+      expect(restored.list()).toContainEqual({ name: 'name_1', key: { name: 1 }, unique: true });
+      expect(restored.checkUnique({ _id: '6', name: 'Bob' })).toBeDefined();
+    });
+  });
+
+  describe('TTL indexes', () => {
+    const now = Date.parse('2024-01-01T01:00:00.000Z');
+
+    it('should expire documents after the indexed date', () => {
+      indexes.create({ name: 'createdAt_1', key: { createdAt: 1 }, expireAfterSeconds: 3600 }, []);
+
+      expect(indexes.hasTTL).toBe(true);
+      expect(indexes.isExpired({ _id: 'a', createdAt: '2024-01-01T00:00:00.000Z' }, now)).toBe(true);
+      expect(indexes.isExpired({ _id: 'b', createdAt: new Date('2024-01-01T00:00:01.000Z') }, now)).toBe(false);
+      expect(indexes.isExpired({ _id: 'c', createdAt: now - 3600 * 1000 }, now)).toBe(true);
+    });
+
+    it('should use the earliest date of an array and ignore other values', () => {
+      indexes.create({ name: 'expiresAt_1', key: { expiresAt: 1 }, expireAfterSeconds: 0 }, []);
+
+      expect(indexes.isExpired({ _id: 'a', expiresAt: ['2025-01-01', '2023-12-31'] }, now)).toBe(true);
+      expect(indexes.isExpired({ _id: 'b', expiresAt: 'never' }, now)).toBe(false);
+      expect(indexes.isExpired({ _id: 'd', expiresAt: '3' }, now)).toBe(false);
+      expect(indexes.isExpired({ _id: 'e', expiresAt: ['1', 'Jan 1 2000'] }, now)).toBe(false);
+      expect(indexes.isExpired({ _id: 'c' }, now)).toBe(false);
+    });
+
+    it('should not expire anything without a TTL index', () => {
+      expect(indexes.hasTTL).toBe(false);
+      expect(indexes.isExpired({ _id: 'a', age: 0 }, now)).toBe(false);
+    });
+  });
+
+  describe('text indexes', () => {
+    const notes: DBDocument[] = [
+      { _id: 'a', title: 'Meeting notes', body: 'Action items' },
+      { _id: 'b', title: 'Noted', body: ['launch', 'checklist'] },
+      { _id: 'c', title: 'Groceries' }
+    ];
+
+    beforeEach(() => {
+      indexes.create({ name: 'title_text_body_text', key: { title: 'text', body: 'text' }, weights: { title: 5 } }, notes);
+    });
+
+    it('should expose field weights', () => {
+      expect(indexes.textWeights).toEqual({ title: 5, body: 1 });
+    });
+
+    it('should plan $text on stemmed terms', () => {
+      expect(ids(indexes.plan({ $text: { $search: 'note' } }))).toEqual(['a', 'b']);
+      expect(ids(indexes.plan({ $text: { $search: 'checklists grocery' } }))).toEqual(['b', 'c']);
+      expect(ids(indexes.plan({ $text: { $search: '-meeting' } }))).toEqual([]);
+    });
+
+    it('should not plan equality on text fields', () => {
+      expect(indexes.plan({ title: 'Noted' })).toBeUndefined();
+    });
+
+    it('should allow a single text index without mixed fields', () => {
+      expect(() => indexes.create({ name: 'other', key: { body: 'text' } }, notes)).toThrow('only have one text index');
+      expect(() => indexes.create({ name: 'mixed', key: { title: 'text', age: 1 } }, notes)).toThrow(ValidationError);
+    });
+  });
+
+  describe('plan', () => {
+    it('should plan equality, $eq and $in', () => {
+      expect(ids(indexes.plan({ role: 'user' }))).toEqual(['2', '3', '5']);
+      expect(ids(indexes.plan({ role: { $eq: 'admin' } }))).toEqual(['1']);
+      expect(ids(indexes.plan({ role: { $in: ['admin', 'moderator'] } }))).toEqual(['1', '4']);
+    });
+
+    it('should index array elements', () => {
+      expect(ids(indexes.plan({ tags: 'user' }))).toEqual(['1', '2']);
+    });
+
+    it('should plan ranges and keep values of other types as candidates', () => {
+      expect(ids(indexes.plan({ age: { $gt: 25, $lte: 35 } }))).toEqual(['1', '3', '4']);
+      expect(ids(indexes.plan({ age: { $lt: 30 } }))).toEqual(['2', '4']);
+      expect(ids(indexes.plan({ name: { $gte: 'C' } }))).toBeUndefined();
+    });
+
+    it('should agree with a scan on redundant and mixed bounds', () => {
+      const documents: DBDocument[] = [1, 3, 5, 8, 10, 12, 15].map(n => ({ _id: `d${n}`, n }));
+      indexes.create({ name: 'n_1', key: { n: 1 } }, documents);
+      const planned = (filter: any) => documents.filter(doc => indexes.plan(filter)!.has(doc._id!) && matchesFilter(doc, filter));
+      const scanned = (filter: any) => documents.filter(doc => matchesFilter(doc, filter));
+
+      for (const condition of [
+        { $gt: 5, $gte: 10 },
+        { $gte: 3, $gt: 8 },
+        { $lt: 12, $lte: 8 },
+        { $gt: 1, $gte: 5, $lt: 15, $lte: 10 },
+        { $gt: 10, $lt: 5 }
+      ]) {
+        expect(planned({ n: condition })).toEqual(scanned({ n: condition }));
+      }
+      expect(ids(indexes.plan({ n: { $gt: 5, $gte: 10 } }))).toEqual(['d10', 'd12', 'd15']);
+    });
+
+    it('should index dates and agree with a scan on values without a key', () => {
+      const documents: DBDocument[] = [
+        { _id: 'd1', at: new Date(1000) },
+        { _id: 'd2', at: new Date(5000) },
+        { _id: 'o1', at: { valueOf: () => 3000 } },
+        { _id: 'n1', at: 2000 }
+      ];
+      indexes.create({ name: 'at_1', key: { at: 1 } }, documents);
+      const planned = (filter: any) => documents.filter(doc => indexes.plan(filter)!.has(doc._id!) && matchesFilter(doc, filter));
+      const scanned = (filter: any) => documents.filter(doc => matchesFilter(doc, filter));
+
+      for (const filter of [{ at: { $gte: 1500 } }, { at: { $lt: 4000 } }, { at: new Date(5000) }, { at: { $in: [new Date(1000), 2000] } }]) {
+        expect(planned(filter)).toEqual(scanned(filter));
+      }
+      expect(ids(indexes.plan({ at: new Date(5000) }))).toEqual(['d2']);
+    });
+
+    it('should intersect predicates and combine $and and $or', () => {
+      expect(ids(indexes.plan({ role: 'user', age: { $gte: 30 } }))).toEqual(['3']);
+      expect(ids(indexes.plan({ $and: [{ role: 'user' }, { tags: 'user' }] } as any))).toEqual(['2']);
+      expect(ids(indexes.plan({ $or: [{ role: 'admin' }, { tags: 'premium' }] } as any))).toEqual(['1', '3']);
+    });
+
+    it('should not plan unindexed fields or unsupported conditions', () => {
+      expect(indexes.plan({ name: 'John' })).toBeUndefined();
+      expect(indexes.plan({ role: { $ne: 'user' } })).toBeUndefined();
+      expect(indexes.plan({ role: /adm/ })).toBeUndefined();
+      expect(indexes.plan({ $or: [{ role: 'admin' }, { name: 'Bob' }] } as any)).toBeUndefined();
+    });
+  });
+
+  describe('update and remove', () => {
+    it('should keep entries in sync with document changes', () => {
+      indexes.update({ _id: '2', name: 'Jane', age: 26, role: 'admin' });
+      indexes.remove('3');
+
+      expect(ids(indexes.plan({ role: 'admin' }))).toEqual(['1', '2']);
+      expect(ids(indexes.plan({ role: 'user' }))).toEqual(['5']);
+      expect(ids(indexes.plan({ age: { $gte: 26, $lt: 27 } }))).toEqual(['2', '4']);
+    });
+  });
+
+  describe('sync', () => {
+    it('should re-index replaced documents and drop missing ones', () => {
+      const documents = sampleDocuments.slice(0, 3).map(doc => (doc._id === '2' ? { ...doc, role: 'admin' } : doc));
+
+      indexes.sync(documents);
+
+      expect(ids(indexes.plan({ role: 'admin' }))).toEqual(['1', '2']);
+      expect(ids(indexes.plan({ role: 'user' }))).toEqual(['3']);
+    });
+  });
+
+  describe('snapshot and restore', () => {
+    it('should restore definitions and trust entries of unchanged documents', () => {
+      const snapshot = JSON.parse(JSON.stringify(indexes.snapshot('100', 5000)));
+      const restored = new IndexManager();
+      restored.restore(snapshot);
+
+      // Document 2 changed after the snapshot and document 5 was deleted
+      const documents = sampleDocuments.slice(0, 4).map(doc => (doc._id === '2' ? { ...doc, role: 'admin' } : { ...doc }));
+      const isUnchanged = jest.fn((doc: DBDocument, cursor?: string, syncedAt?: number) =>
+        doc._id !== '2' && cursor === '100' && syncedAt === 5000);
+
+      restored.sync(documents, isUnchanged);
+
+      expect(restored.list()).toEqual(indexes.list());
+      expect(isUnchanged).toHaveBeenCalledTimes(4);
+      expect(ids(restored.plan({ role: 'admin' }))).toEqual(['1', '2']);
+      expect(ids(restored.plan({ role: 'user' }))).toEqual(['3']);
+    });
+  });
+});
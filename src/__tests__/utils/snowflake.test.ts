@@ -0,0 +1,31 @@
+import { compareSnowflakes, maxSnowflake, snowflakeTimestamp } from '../../utils/snowflake';
+
+describe('Snowflake Utils', () => {
+  describe('compareSnowflakes', () => {
+    it('should compare ids numerically', () => {
+      expect(compareSnowflakes('999', '1000')).toBeLessThan(0);
+      expect(compareSnowflakes('1175928847299117063', '1175928847299117062')).toBeGreaterThan(0);
+      expect(compareSnowflakes('42', '42')).toBe(0);
+    });
+  });
+
+  describe('maxSnowflake', () => {
+    it('should return the newest id', () => {
+      expect(maxSnowflake(['998', '1001', '999'])).toBe('1001');
+    });
+
+    it('should return undefined for no ids', () => {
+      expect(maxSnowflake([])).toBeUndefined();
+    });
+  });
+
+  describe('snowflakeTimestamp', () => {
+    it('should decode the creation time of a snowflake', () => {
+      expect(snowflakeTimestamp('175928847299117063')).toBe(Date.parse('2016-04-30T11:18:25.796Z'));
+    });
+
+    it('should return undefined for ids that are not snowflakes', () => {
+      expect(snowflakeTimestamp('msg-1')).toBeUndefined();
+    });
+  });
+});
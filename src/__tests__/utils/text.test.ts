@@ -0,0 +1,71 @@
+import { tokenize, stem, textTerms, parseSearch, scoreText } from '../../utils/text';
+import { ValidationError } from '../../types';
+
+describe('Text Utils', () => {
+  describe('tokenize', () => {
+    it('should lowercase words and drop punctuation and diacritics', () => {
+      expect(tokenize('Crème brûlée, déjà-vu! 42x')).toEqual(['creme', 'brulee', 'deja', 'vu', '42x']);
+    });
+  });
+
+  describe('stem', () => {
+    it('should reduce inflections to a shared stem', () => {
+      expect(['note', 'notes', 'noted', 'noting'].map(stem)).toEqual(['not', 'not', 'not', 'not']);
+      expect(['run', 'runs', 'running'].map(stem)).toEqual(['run', 'run', 'run']);
+      expect(['party', 'parties'].map(stem)).toEqual(['party', 'party']);
+      expect(['class', 'classes', 'box', 'boxes'].map(stem)).toEqual(['class', 'class', 'box', 'box']);
+      expect(['meeting', 'meetings', 'building', 'buildings'].map(stem)).toEqual(['meet', 'meet', 'build', 'build']);
+      expect(['thing', 'things'].map(stem)).toEqual(['thing', 'thing']);
+    });
+
+    it('should leave short words alone', () => {
+      expect(stem('bus')).toBe('bus');
+      expect(stem('is')).toBe('is');
+    });
+  });
+
+  describe('textTerms', () => {
+    it('should drop stop words', () => {
+      expect(textTerms('The notes of the meeting')).toEqual(['not', 'meet']);
+    });
+  });
+
+  describe('parseSearch', () => {
+    it('should separate terms, phrases and negations', () => {
+      expect(parseSearch('searching "Quick Brown" -drafts')).toEqual({
+        terms: ['search', 'quick', 'brown'],
+        phrases: [['quick', 'brown']],
+        negated: ['draft']
+      });
+    });
+
+    it('should require a string', () => {
+      expect(() => parseSearch(undefined as any)).toThrow(ValidationError);
+    });
+  });
+
+  describe('scoreText', () => {
+    const field = (value: any, weight = 1) => ({ value, weight });
+
+    it('should score matching terms by weight and frequency', () => {
+      const search = parseSearch('notes');
+
+      expect(scoreText([field('No match here')], search)).toBe(0);
+      expect(scoreText([field('Notes')], search)).toBe(1);
+      expect(scoreText([field('Notes')], search)).toBeGreaterThan(scoreText([field('Notes about many other things')], search));
+      expect(scoreText([field('notes', 3), field('notes')], search)).toBe(4);
+      expect(scoreText([field(['draft', 'notes'])], search)).toBe(1);
+    });
+
+    it('should match plural gerunds both ways', () => {
+      expect(scoreText([field('Weekly meetings')], parseSearch('meeting'))).toBeGreaterThan(0);
+      expect(scoreText([field('The meeting room')], parseSearch('meetings'))).toBeGreaterThan(0);
+    });
+
+    it('should require every phrase and exclude negated terms', () => {
+      expect(scoreText([field('the quick brown fox')], parseSearch('"quick brown"'))).toBeGreaterThan(0);
+      expect(scoreText([field('brown quick fox')], parseSearch('"quick brown" fox'))).toBe(0);
+      expect(scoreText([field('fox notes'), field('draft')], parseSearch('fox -drafts'))).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { TransactionSession, isJournal } from '../../utils/transactions';
+import { DBDocument, ValidationError, DuplicateKeyError } from '../../types';
+
+describe('Transaction Utils', () => {
+  const sampleDocuments: DBDocument[] = [
+    { _id: '1', name: 'John', age: 30, role: 'admin', _version: 1 },
+    { _id: '2', name: 'Jane', age: 25, role: 'user', _version: 3 },
+    { _id: '3', name: 'Bob', age: 35, role: 'user' }
+  ];
+
+  let session: TransactionSession;
+  let nextId: number;
+
+  beforeEach(() => {
+    nextId = 1;
+    session = new TransactionSession(sampleDocuments, {
+      prepareInsert: document => ({ ...document, _id: document._id ?? `new-${nextId++}` })
+    });
+  });
+
+  describe('isJournal', () => {
+    it('should recognize journal ids', () => {
+      expect(isJournal({ _id: '$txn:abc' })).toBe(true);
+      expect(isJournal({ _id: '1' })).toBe(false);
+    });
+  });
+
+  describe('reads', () => {
+    it('should see the snapshot together with the session\'s own writes', async () => {
+      await session.updateOne({ _id: '2' }, { $set: { role: 'admin' } });
+      await session.insertOne({ name: 'Dana', role: 'admin' });
+      await session.deleteOne({ _id: '1' });
+
+      const result = await session.find({ role: 'admin' }, { sort: { name: 1 }, projection: { name: 1 } });
+
+      expect(result.documents).toEqual([{ _id: 'new-1', name: 'Dana' }, { _id: '2', name: 'Jane' }]);
+      expect(await session.countDocuments()).toBe(3);
+      expect(await session.findOne({ _id: '1' })).toBeNull();
+      expect(sampleDocuments[1].role).toBe('user');
+    });
+
+    it('should reject populate', async () => {
+      await expect(session.find({}, { populate: { path: 'owner', from: 'users' } })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('writes', () => {
+    it('should apply updates, replacements and upserts', async () => {
+      expect(await session.updateMany({ role: 'user' }, { $inc: { age: 1 } })).toMatchObject({ matchedCount: 2, modifiedCount: 2 });
+      expect(await session.replaceOne({ _id: '1' }, { name: 'Johnny' })).toMatchObject({ matchedCount: 1 });
+      expect(await session.updateOne({ name: 'Eve' }, { $set: { age: 20 } }, { upsert: true })).toMatchObject({ matchedCount: 0, upsertedId: 'new-1' });
+
+      expect(await session.find({}, { sort: { _id: 1 } })).toMatchObject({
+        documents: [
+          { _id: '1', name: 'Johnny' },
+          { _id: '2', age: 26 },
+          { _id: '3', age: 36 },
+          { _id: 'new-1', name: 'Eve', age: 20 }
+        ]
+      });
+    });
+
+    it('should refuse duplicate _ids but allow re-inserting a deleted one', async () => {
+      await expect(session.insertOne({ _id: '1' })).rejects.toThrow(DuplicateKeyError);
+
+      await session.deleteMany({ role: 'user' });
+      await expect(session.insertOne({ _id: '2', name: 'Janet' })).resolves.toMatchObject({ insertedId: '2' });
+    });
+
+    it('should validate updates', async () => {
+      await expect(session.updateOne({ _id: '1' }, { $bogus: { age: 1 } } as any)).rejects.toThrow('Unknown update operator');
+      await expect(session.replaceOne({ _id: '1' }, { _id: '9' })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('changes', () => {
+    it('should pair the versions read with those written, in write order', async () => {
+      await session.updateOne({ _id: '2' }, { $set: { age: 26 } });
+      await session.insertOne({ _id: '4', name: 'Dana' });
+      await session.deleteOne({ _id: '3' });
+      await session.insertOne({ _id: '5' });
+      await session.deleteOne({ _id: '5' });
+
+      expect(session.changes()).toEqual([
+        { _id: '2', before: sampleDocuments[1], after: { ...sampleDocuments[1], age: 26 } },
+        { _id: '4', before: null, after: { _id: '4', name: 'Dana' } },
+        { _id: '3', before: sampleDocuments[2], after: null }
+      ]);
+    });
+  });
+
+  it('should refuse operations once ended', async () => {
+    session.end();
+
+    await expect(session.find()).rejects.toThrow('The transaction has already ended');
+    await expect(session.insertOne({ name: 'Late' })).rejects.toThrow(ValidationError);
+  });
+});
@@ -1,4 +1,4 @@
-import { applyUpdate, validateUpdate } from '../../utils/updates';
+import { applyUpdate, validateUpdate, validateReplacement, buildUpsertDocument } from '../../utils/updates';
 import { DBDocument } from '../../types';
 
 describe('Update Utils', () => {
@@ -150,6 +150,201 @@ describe('Update Utils', () => {
     });
   });
 
+  describe('field operators', () => {
+    it('should multiply, rename and keep the lower or higher value', () => {
+      const result = applyUpdate(sampleDocument, {
+        $mul: { score: 2, missing: 3 },
+        $min: { age: 25, lowest: 1 },
+        $max: { 'profile.visits': 4 },
+        $rename: { role: 'position' }
+      });
+
+      expect(result).toMatchObject({ score: 170, missing: 0, age: 25, lowest: 1, position: 'user' });
+      expect(result.profile.visits).toBe(4);
+      expect(result).not.toHaveProperty('role');
+      expect(applyUpdate(sampleDocument, { $max: { age: 20 }, $min: { score: 90 } })).toMatchObject({ age: 30, score: 85 });
+    });
+
+    it('should set the current date or timestamp', () => {
+      const before = Date.now();
+      const result = applyUpdate(sampleDocument, { $currentDate: { updatedAt: true, seenAt: { $type: 'timestamp' } } });
+
+      expect(result.updatedAt).toBeInstanceOf(Date);
+      expect(result.seenAt).toBeGreaterThanOrEqual(before);
+    });
+
+    it('should reject arithmetic on non-numeric fields', () => {
+      expect(() => applyUpdate(sampleDocument, { $inc: { name: 1 } })).toThrow('Field "name" is string');
+    });
+
+    it('should not modify the original document', () => {
+      const original = { _id: '1', profile: { email: 'a@example.com' }, tags: ['a'] };
+
+      applyUpdate(original, { $set: { 'profile.email': 'b@example.com' }, $push: { tags: 'b' } });
+
+      expect(original).toEqual({ _id: '1', profile: { email: 'a@example.com' }, tags: ['a'] });
+    });
+  });
+
+  describe('array operators', () => {
+    it('should push with $each, $position, $sort and $slice', () => {
+      const doc = { _id: '1', scores: [7, 3, 9] };
+
+      expect(applyUpdate(doc, { $push: { scores: { $each: [1, 2], $position: 1 } } }).scores).toEqual([7, 1, 2, 3, 9]);
+      expect(applyUpdate(doc, { $push: { scores: { $each: [5], $position: -1 } } }).scores).toEqual([7, 3, 5, 9]);
+      expect(applyUpdate(doc, { $push: { scores: { $each: [8, 1], $sort: -1, $slice: 3 } } }).scores).toEqual([9, 8, 7]);
+      expect(applyUpdate(doc, { $push: { scores: { $each: [], $slice: -2 } } }).scores).toEqual([3, 9]);
+    });
+
+    it('should sort pushed documents by field', () => {
+      const doc = { _id: '1', top: [{ name: 'a', score: 5 }] };
+      const update = { $push: { top: { $each: [{ name: 'b', score: 9 }, { name: 'c', score: 1 }], $sort: { score: -1 }, $slice: 2 } } };
+
+      expect(applyUpdate(doc, update).top.map((item: any) => item.name)).toEqual(['b', 'a']);
+    });
+
+    it('should add several values to a set', () => {
+      const result = applyUpdate(sampleDocument, { $addToSet: { tags: { $each: ['premium', 'new', 'new'] } } });
+
+      expect(result.tags).toEqual(['active', 'premium', 'new']);
+    });
+
+    it('should pop from either end and pull all listed values', () => {
+      const doc = { _id: '1', queue: [1, 2, 3, 2] };
+
+      expect(applyUpdate(doc, { $pop: { queue: 1 } }).queue).toEqual([1, 2, 3]);
+      expect(applyUpdate(doc, { $pop: { queue: -1 } }).queue).toEqual([2, 3, 2]);
+      expect(applyUpdate(doc, { $pullAll: { queue: [2, 3] } }).queue).toEqual([1]);
+      expect(applyUpdate(doc, { $pop: { missing: 1 } })).not.toHaveProperty('missing');
+    });
+
+    it('should pull elements matching a condition', () => {
+      const doc = {
+        _id: '1',
+        votes: [3, 6, 8, 2],
+        tags: ['old-a', 'new', 'old-b'],
+        results: [{ item: 'A', score: 5 }, { item: 'B', score: 8 }, { item: 'B', score: 3 }]
+      };
+
+      const result = applyUpdate(doc, {
+        $pull: { votes: { $gte: 6 }, tags: /^old-/, results: { item: 'B', score: { $gt: 4 } } }
+      });
+
+      expect(result.votes).toEqual([3, 2]);
+      expect(result.tags).toEqual(['new']);
+      expect(result.results).toEqual([{ item: 'A', score: 5 }, { item: 'B', score: 3 }]);
+    });
+
+    it('should reject array operators on non-array fields', () => {
+      expect(() => applyUpdate(sampleDocument, { $push: { name: 'x' } })).toThrow('Field "name" is not an array');
+      expect(() => applyUpdate(sampleDocument, { $pull: { score: 1 } })).toThrow('$pull operator requires an array');
+    });
+  });
+
+  describe('array element paths', () => {
+    const task = {
+      _id: '1',
+      checklist: [
+        { item: 'design', done: true, hours: 3 },
+        { item: 'build', done: false, hours: 8 },
+        { item: 'ship', done: false, hours: 1 }
+      ],
+      scores: [4, 9, 6]
+    };
+
+    it('should address elements by index and create arrays for numeric segments', () => {
+      const result = applyUpdate(task, { $set: { 'checklist.1.done': true, 'slots.2': 'c' }, $unset: { 'scores.0': 1 } });
+
+      expect(result.checklist[1].done).toBe(true);
+      expect(result.slots).toEqual([null, null, 'c']);
+      expect(result.scores).toEqual([null, 9, 6]);
+    });
+
+    it('should update the element matched by the query with $', () => {
+      const filter = { _id: '1', checklist: { $elemMatch: { item: 'build' } } };
+      const result = applyUpdate(task, { $set: { 'checklist.$.done': true } }, { filter });
+      const byValue = applyUpdate(task, { $inc: { 'scores.$': 1 } }, { filter: { scores: { $gt: 5 } } });
+
+      expect(result.checklist.map((entry: any) => entry.done)).toEqual([true, true, false]);
+      expect(byValue.scores).toEqual([4, 10, 6]);
+    });
+
+    it('should use every condition on the array to find the $ element', () => {
+      const filter = { $and: [{ checklist: { $elemMatch: { done: false } } }, { checklist: { $elemMatch: { hours: { $lt: 5 } } } }] } as any;
+
+      expect(applyUpdate(task, { $set: { 'checklist.$.done': true } }, { filter }).checklist[2].done).toBe(true);
+      expect(() => applyUpdate(task, { $set: { 'checklist.$.done': true } }, { filter: { _id: '1' } }))
+        .toThrow('The positional operator did not find the match needed from the query');
+    });
+
+    it('should update every element with $[]', () => {
+      const result = applyUpdate(task, { $set: { 'checklist.$[].done': false }, $mul: { 'scores.$[]': 10 } });
+
+      expect(result.checklist.every((entry: any) => entry.done === false)).toBe(true);
+      expect(result.scores).toEqual([40, 90, 60]);
+      expect(() => applyUpdate(task, { $set: { 'missing.$[].done': true } })).toThrow('the field must be an array');
+    });
+
+    it('should update elements matching array filters with $[identifier]', () => {
+      const result = applyUpdate(
+        task,
+        { $set: { 'checklist.$[open].done': true }, $inc: { 'scores.$[low]': 100 } },
+        { arrayFilters: [{ 'open.done': false, 'open.hours': { $gt: 2 } }, { low: { $lt: 5 } }] }
+      );
+
+      expect(result.checklist.map((entry: any) => entry.done)).toEqual([true, true, false]);
+      expect(result.scores).toEqual([104, 9, 6]);
+    });
+
+    it('should combine positional operators in nested arrays', () => {
+      const doc = { _id: '1', lists: [{ tags: ['a', 'b'] }, { tags: ['b'] }] };
+      const result = applyUpdate(doc, { $set: { 'lists.$[].tags.$[tag]': 'x' } }, { arrayFilters: [{ tag: 'b' }] });
+
+      expect(result.lists).toEqual([{ tags: ['a', 'x'] }, { tags: ['x'] }]);
+    });
+  });
+
+  describe('$setOnInsert', () => {
+    it('should only apply when inserting', () => {
+      const update = { $set: { name: 'Jane' }, $setOnInsert: { createdBy: 'import' } };
+
+      expect(applyUpdate({ _id: '1' }, update)).toEqual({ _id: '1', name: 'Jane' });
+      expect(applyUpdate({ _id: '1' }, update, { isInsert: true })).toEqual({ _id: '1', name: 'Jane', createdBy: 'import' });
+    });
+  });
+
+  describe('buildUpsertDocument', () => {
+    it('should combine the equality conditions of the filter with the update', () => {
+      const filter = {
+        email: 'jane@example.com',
+        'profile.plan': { $eq: 'free' },
+        $and: [{ team: 'core' }, { age: { $gte: 18 } }],
+        name: /^J/
+      } as any;
+
+      expect(buildUpsertDocument(filter, { $set: { visits: 1 }, $setOnInsert: { plan: 'trial' } })).toEqual({
+        email: 'jane@example.com',
+        profile: { plan: 'free' },
+        team: 'core',
+        visits: 1,
+        plan: 'trial'
+      });
+    });
+
+    it('should let the update override filter values', () => {
+      expect(buildUpsertDocument({ status: 'new' }, { $set: { status: 'active' } })).toEqual({ status: 'active' });
+      expect(buildUpsertDocument({ _id: 'a' }, { name: 'Direct' })).toEqual({ _id: 'a', name: 'Direct' });
+    });
+  });
+
+  describe('validateReplacement', () => {
+    it('should reject update operators', () => {
+      expect(() => validateReplacement({ name: 'John' })).not.toThrow();
+      expect(() => validateReplacement({ $set: { name: 'John' } } as any)).toThrow('Replacement must not contain update operators');
+      expect(() => validateReplacement(null as any)).toThrow('Replacement must be an object');
+    });
+  });
+
   describe('validateUpdate', () => {
     it('should validate valid update object', () => {
       expect(() => validateUpdate({ name: 'John' })).not.toThrow();
@@ -180,6 +375,48 @@ describe('Update Utils', () => {
         .toThrow('$unset operator requires value 1 or true. Got invalid for field "field"');
     });
 
+    it('should reject unknown operators and mixed updates', () => {
+      expect(() => validateUpdate({ $sett: { name: 'John' } } as any)).toThrow('Unknown update operator $sett');
+      expect(() => validateUpdate({ $set: { name: 'John' }, age: 3 } as any)).toThrow('cannot mix operators and fields');
+      expect(() => validateUpdate({ $set: 'John' } as any)).toThrow('$set operator requires an object of fields');
+    });
+
+    it('should reject conflicting paths', () => {
+      expect(() => validateUpdate({ $set: { age: 1 }, $inc: { age: 1 } })).toThrow('Updating the path "age" would create a conflict at "age"');
+      expect(() => validateUpdate({ $set: { profile: {} }, $unset: { 'profile.email': 1 } })).toThrow('conflict at "profile"');
+      expect(() => validateUpdate({ $rename: { a: 'b' }, $set: { 'b.c': 1 } })).toThrow('conflict at "b"');
+      expect(() => validateUpdate({ $set: { 'profile.email': 'x', 'profile.phone': 'y', profiles: [] } })).not.toThrow();
+    });
+
+    it('should validate operator arguments', () => {
+      expect(() => validateUpdate({ $mul: { age: '2' as any } })).toThrow('$mul operator requires numeric values');
+      expect(() => validateUpdate({ $rename: { age: 'age' } })).toThrow('$rename operator requires a new field name');
+      expect(() => validateUpdate({ $currentDate: { at: { $type: 'time' } as any } })).toThrow('$currentDate');
+      expect(() => validateUpdate({ $pop: { tags: 2 as any } })).toThrow('$pop operator requires value 1 or -1');
+      expect(() => validateUpdate({ $pullAll: { tags: 'a' as any } })).toThrow('$pullAll operator requires an array');
+      expect(() => validateUpdate({ $addToSet: { tags: { $each: ['a'], $slice: 1 } } })).toThrow('only supports an $each array');
+    });
+
+    it('should validate $push modifiers', () => {
+      expect(() => validateUpdate({ $push: { tags: { $each: ['a'], $position: 0, $slice: -5, $sort: { score: -1 } } } })).not.toThrow();
+      expect(() => validateUpdate({ $push: { tags: { $slice: 2 } } })).toThrow('$push modifiers require an $each array');
+      expect(() => validateUpdate({ $push: { tags: { $each: [], $limit: 2 } } })).toThrow('Unknown $push modifier $limit');
+      expect(() => validateUpdate({ $push: { tags: { $each: [], $position: 1.5 } } })).toThrow('$position modifier requires an integer');
+      expect(() => validateUpdate({ $push: { tags: { $each: [], $sort: 'asc' } } })).toThrow('$sort modifier requires');
+    });
+
+    it('should validate positional operators and array filters', () => {
+      expect(() => validateUpdate({ $set: { 'items.$[x].done': true } }, [{ 'x.done': false }])).not.toThrow();
+      expect(() => validateUpdate({ $set: { 'items.$[x].done': true } })).toThrow('No array filter found for identifier "x"');
+      expect(() => validateUpdate({ $set: { done: true } }, [{ 'x.done': false }])).toThrow('identifier "x" was not used');
+      expect(() => validateUpdate({ $set: { 'items.$[x].a': 1 } }, [{ x: 1, 'y.b': 2 }])).toThrow('a single identifier');
+      expect(() => validateUpdate({ $set: { 'items.$[x].a': 1 } }, [{ x: 1 }, { x: 2 }])).toThrow('multiple array filters');
+      expect(() => validateUpdate({ $set: { 'items.$.a.$.b': 1 } })).toThrow('only contain one positional $');
+      expect(() => validateUpdate({ $set: { 'items.$x': 1 } })).toThrow('Invalid positional operator "$x"');
+      expect(() => validateUpdate({ $rename: { 'items.$.a': 'b' } })).toThrow('$rename does not support positional operators');
+      expect(() => validateUpdate({ name: 'x' }, [{ x: 1 }])).toThrow('arrayFilters require an update with operators');
+    });
+
     it('should validate complex update operations', () => {
       const update = {
         $set: { name: 'John' },
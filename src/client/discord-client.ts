@@ -1,12 +1,23 @@
-import { DiscordMessage, DiscordDBConfig, NetworkError, AuthenticationError } from '../types';
+import { DiscordMessage, DiscordChannel, DiscordDBConfig, MessageFile, NetworkError, AuthenticationError, RateLimitError } from '../types';
+import { RateLimiter, getRoute } from './rate-limiter';
+import { RetryPolicy } from './retry';
+import { snowflakeTimestamp } from '../utils/snowflake';
+
+const BULK_DELETE_MAX_BATCH = 100;
+// Discord rejects bulk deletes of messages older than 14 days; keep a margin for clock skew
+const BULK_DELETE_MAX_AGE = 14 * 24 * 60 * 60 * 1000 - 60 * 1000;
 
 export class DiscordClient {
   private config: DiscordDBConfig;
   private baseURL: string;
+  private rateLimiter: RateLimiter;
+  private retryPolicy: RetryPolicy;
 
   constructor(config: DiscordDBConfig) {
     this.config = config;
     this.baseURL = config.baseURL || 'https://discord.com/api/v10';
+    this.rateLimiter = new RateLimiter(config.rateLimit);
+    this.retryPolicy = new RetryPolicy(config.retry);
     
     if (!config.botToken) {
       throw new AuthenticationError('Bot token is required');
@@ -18,20 +29,21 @@ export class DiscordClient {
   }
 
   /**
-   * Send a message to the Discord channel
+   * Send a message to the Discord channel, optionally uploading files with it.
+   * When retries are enabled the message carries an enforced nonce, so Discord
+   * returns the original message instead of posting a duplicate on retry.
    */
-  async sendMessage(content: string): Promise<DiscordMessage> {
+  async sendMessage(content: string, files?: MessageFile[]): Promise<DiscordMessage> {
     const url = `${this.baseURL}/channels/${this.config.channelId}/messages`;
+    const payload = this.retryPolicy.enabled
+      ? { content, nonce: createNonce(), enforce_nonce: true }
+      : { content };
     
     try {
       const response = await this.makeRequest(url, {
         method: 'POST',
-        headers: {
-          'Authorization': `Bot ${this.config.botToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ content }),
-      });
+        ...this.buildMessageBody(payload, files),
+      }, this.retryPolicy.enabled);
 
       if (!response.ok) {
         await this.handleErrorResponse(response);
@@ -76,19 +88,41 @@ export class DiscordClient {
   }
 
   /**
-   * Edit a message in the Discord channel
+   * Get a single message from the Discord channel
    */
-  async editMessage(messageId: string, content: string): Promise<DiscordMessage> {
+  async getMessage(messageId: string): Promise<DiscordMessage> {
     const url = `${this.baseURL}/channels/${this.config.channelId}/messages/${messageId}`;
 
     try {
       const response = await this.makeRequest(url, {
-        method: 'PATCH',
+        method: 'GET',
         headers: {
           'Authorization': `Bot ${this.config.botToken}`,
-          'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ content }),
+      });
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+
+      const data = await response.json();
+      return data as DiscordMessage;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Edit a message in the Discord channel. When files are given they replace
+   * all existing attachments; an empty array removes them.
+   */
+  async editMessage(messageId: string, content: string, files?: MessageFile[]): Promise<DiscordMessage> {
+    const url = `${this.baseURL}/channels/${this.config.channelId}/messages/${messageId}`;
+
+    try {
+      const response = await this.makeRequest(url, {
+        method: 'PATCH',
+        ...this.buildMessageBody({ content }, files),
       });
 
       if (!response.ok) {
@@ -125,41 +159,324 @@ export class DiscordClient {
   }
 
   /**
-   * Get all messages (with pagination handling)
+   * Delete many messages, using the bulk-delete endpoint in batches of up to 100.
+   * Messages older than 14 days (or leftover single messages) are deleted one by one.
    */
-  async getAllMessages(maxMessages = 1000): Promise<DiscordMessage[]> {
-    const allMessages: DiscordMessage[] = [];
-    let before: string | undefined;
+  async bulkDeleteMessages(messageIds: string[]): Promise<void> {
+    const cutoff = Date.now() - BULK_DELETE_MAX_AGE;
+    const recent: string[] = [];
+    const single: string[] = [];
+
+    for (const messageId of new Set(messageIds)) {
+      const createdAt = snowflakeTimestamp(messageId);
+      if (createdAt !== undefined && createdAt > cutoff) {
+        recent.push(messageId);
+      } else {
+        single.push(messageId);
+      }
+    }
+
+    for (let i = 0; i < recent.length; i += BULK_DELETE_MAX_BATCH) {
+      const batch = recent.slice(i, i + BULK_DELETE_MAX_BATCH);
+      if (batch.length < 2) {
+        single.push(...batch); // The endpoint requires at least 2 messages
+        continue;
+      }
+      await this.postBulkDelete(batch);
+    }
+
+    for (const messageId of single) {
+      await this.deleteMessage(messageId);
+    }
+  }
+
+  /**
+   * Pin a message in the Discord channel
+   */
+  async pinMessage(messageId: string): Promise<void> {
+    const url = `${this.baseURL}/channels/${this.config.channelId}/pins/${messageId}`;
+
+    try {
+      const response = await this.makeRequest(url, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bot ${this.config.botToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the pinned messages of the Discord channel
+   */
+  async getPinnedMessages(): Promise<DiscordMessage[]> {
+    const url = `${this.baseURL}/channels/${this.config.channelId}/pins`;
+
+    try {
+      const response = await this.makeRequest(url, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bot ${this.config.botToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+
+      const data = await response.json();
+      return data as DiscordMessage[];
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Download the body of a message attachment
+   */
+  async downloadAttachment(attachmentUrl: string): Promise<string> {
+    try {
+      const response = await this.makeRequest(attachmentUrl, { method: 'GET' });
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+
+      return await response.text();
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a text channel in a guild
+   */
+  async createChannel(guildId: string, name: string, parentId?: string): Promise<DiscordChannel> {
+    const url = `${this.baseURL}/guilds/${guildId}/channels`;
+
+    try {
+      const response = await this.makeRequest(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bot ${this.config.botToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, type: 0, ...(parentId ? { parent_id: parentId } : {}) }),
+      });
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+
+      const data = await response.json();
+      return data as DiscordChannel;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a public thread (not attached to a message) in a channel
+   */
+  async createThread(channelId: string, name: string): Promise<DiscordChannel> {
+    const url = `${this.baseURL}/channels/${channelId}/threads`;
+
+    try {
+      const response = await this.makeRequest(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bot ${this.config.botToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, type: 11, auto_archive_duration: 10080 }),
+      });
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+
+      const data = await response.json();
+      return data as DiscordChannel;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a channel or thread, along with all of its messages
+   */
+  async deleteChannel(channelId: string): Promise<void> {
+    const url = `${this.baseURL}/channels/${channelId}`;
+
+    try {
+      const response = await this.makeRequest(url, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bot ${this.config.botToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Walk the channel history from newest to oldest, fetching pages lazily.
+   * Stops after `limit` messages when given, otherwise at the start of the channel.
+   */
+  async *iterateMessages(options: { before?: string; limit?: number } = {}): AsyncGenerator<DiscordMessage> {
+    const maxMessages = options.limit ?? Infinity;
+    let before = options.before;
+    let yielded = 0;
     const batchSize = 100;
 
-    while (allMessages.length < maxMessages) {
-      const remaining = maxMessages - allMessages.length;
-      const limit = Math.min(remaining, batchSize);
-      
+    while (yielded < maxMessages) {
+      const limit = Math.min(maxMessages - yielded, batchSize);
       const messages = await this.getMessages(limit, before);
-      
+
       if (messages.length === 0) {
-        break; // No more messages available
+        return; // No more messages available
+      }
+
+      for (const message of messages.slice(0, maxMessages - yielded)) {
+        yield message;
+        yielded++;
       }
 
-      allMessages.push(...messages);
-      
       // Set the 'before' parameter for the next iteration
       before = messages[messages.length - 1].id;
     }
+  }
+
+  /**
+   * Get all messages (with pagination handling), optionally capped at maxMessages
+   */
+  async getAllMessages(maxMessages = Infinity): Promise<DiscordMessage[]> {
+    const allMessages: DiscordMessage[] = [];
+
+    for await (const message of this.iterateMessages({ limit: maxMessages })) {
+      allMessages.push(message);
+    }
 
-    return allMessages.slice(0, maxMessages);
+    return allMessages;
+  }
+
+  private async postBulkDelete(messageIds: string[]): Promise<void> {
+    const url = `${this.baseURL}/channels/${this.config.channelId}/messages/bulk-delete`;
+
+    try {
+      const response = await this.makeRequest(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bot ${this.config.botToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ messages: messageIds }),
+      });
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+    } catch (error) {
+      throw this.handleError(error);
+    }
   }
 
   /**
-   * Make HTTP request with proper error handling
+   * Build headers and body for a message payload, using multipart form data when files are attached
    */
-  private async makeRequest(url: string, options: RequestInit): Promise<Response> {
+  private buildMessageBody(payload: { content: string; nonce?: string; enforce_nonce?: boolean }, files?: MessageFile[]): RequestInit {
+    const authorization = `Bot ${this.config.botToken}`;
+
+    if (!files) {
+      return {
+        headers: {
+          'Authorization': authorization,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      };
+    }
+
+    const body = {
+      ...payload,
+      attachments: files.map((file, index) => ({ id: index, filename: file.name })),
+    };
+
+    if (files.length === 0) {
+      return {
+        headers: {
+          'Authorization': authorization,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      };
+    }
+
+    // The multipart boundary header is set by fetch from the FormData body
+    const form = new FormData();
+    form.append('payload_json', JSON.stringify(body));
+    files.forEach((file, index) => {
+      const blob = new Blob([file.data], { type: file.contentType || 'application/octet-stream' });
+      form.append(`files[${index}]`, blob, file.name);
+    });
+
+    return {
+      headers: { 'Authorization': authorization },
+      body: form,
+    };
+  }
+
+  /**
+   * Make HTTP request with proper error handling. API requests go through the
+   * rate limiter; other URLs (e.g. attachment CDN downloads) are fetched directly.
+   * Transient failures are retried by the retry policy, except for POSTs that
+   * are not marked idempotent since they may already have taken effect.
+   */
+  private async makeRequest(url: string, options: RequestInit, idempotent = options.method !== 'POST'): Promise<Response> {
+    if (!url.startsWith(this.baseURL)) {
+      return this.retryPolicy.execute(() => this.fetchOnce(url, options), idempotent);
+    }
+
+    const route = getRoute(options.method || 'GET', url.slice(this.baseURL.length));
+    return this.retryPolicy.execute(
+      () => this.rateLimiter.schedule(route, () => this.fetchOnce(url, options)),
+      idempotent
+    );
+  }
+
+  private async fetchOnce(url: string, options: RequestInit): Promise<Response> {
+    const timeoutMs = this.retryPolicy.timeoutMs;
+    if (!timeoutMs) {
+      try {
+        return await fetch(url, options);
+      } catch (error) {
+        throw new NetworkError(`Failed to make request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
     try {
-      const response = await fetch(url, options);
-      return response;
+      return await fetch(url, { ...options, signal: controller.signal });
     } catch (error) {
+      if (controller.signal.aborted) {
+        throw new NetworkError(`Request timed out after ${timeoutMs}ms`, 'TIMEOUT');
+      }
       throw new NetworkError(`Failed to make request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      clearTimeout(timer);
     }
   }
 
@@ -184,9 +501,11 @@ export class DiscordClient {
       case 403:
         throw new AuthenticationError(`Forbidden: ${errorMessage}`);
       case 404:
-        throw new NetworkError(`Not found: ${errorMessage}`);
-      case 429:
-        throw new NetworkError(`Rate limited: ${errorMessage}`);
+        throw new NetworkError(`Not found: ${errorMessage}`, 'NOT_FOUND');
+      case 429: {
+        const retryAfter = Number(response.headers?.get('retry-after') ?? 0) * 1000;
+        throw new RateLimitError(`Rate limited: ${errorMessage}`, retryAfter);
+      }
       default:
         throw new NetworkError(errorMessage);
     }
@@ -213,4 +532,11 @@ export class DiscordClient {
       return false;
     }
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Nonce for message creation; Discord accepts at most 25 characters
+ */
+function createNonce(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 12)}`;
+}
@@ -0,0 +1,176 @@
+import { RateLimitOptions, RateLimitError } from '../types';
+
+const DEFAULT_MAX_WAIT = 60000; // 1 minute
+const GLOBAL_REQUESTS_PER_SECOND = 50;
+const MIN_RETRY_AFTER = 100; // ms; a 429 is never retried sooner, whatever its headers say
+
+// Path segments that Discord treats as major parameters; their ids are part of the bucket
+const MAJOR_PARAMETERS = new Set(['channels', 'guilds', 'webhooks']);
+
+interface BucketState {
+  remaining: number;
+  resetAt: number; // epoch ms
+}
+
+/**
+ * Schedules requests against Discord's rate limits. Requests sharing a bucket
+ * run one at a time; they are delayed until the bucket (or the global limit)
+ * resets, using the X-RateLimit-* and Retry-After headers of previous responses.
+ */
+export class RateLimiter {
+  private maxWaitMs: number;
+  private routeBuckets: Map<string, string> = new Map(); // route -> bucket hash
+  private buckets: Map<string, BucketState> = new Map();
+  private queues: Map<string, Promise<unknown>> = new Map();
+  private globalResetAt = 0;
+  private globalWindowStart = 0;
+  private globalWindowCount = 0;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT;
+  }
+
+  /**
+   * Run a request for a route once its bucket has capacity. Requests that are
+   * rate limited anyway (HTTP 429) are retried after the advertised delay.
+   */
+  schedule(route: string, request: () => Promise<Response>): Promise<Response> {
+    const key = this.bucketKey(route);
+    const previous = this.queues.get(key) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => this.execute(route, request));
+
+    this.queues.set(key, run);
+    const cleanup = () => {
+      if (this.queues.get(key) === run) {
+        this.queues.delete(key);
+      }
+    };
+    run.then(cleanup, cleanup);
+
+    return run;
+  }
+
+  private async execute(route: string, request: () => Promise<Response>): Promise<Response> {
+    let waited = 0;
+
+    for (;;) {
+      const wait = this.delayFor(route);
+      if (wait > 0) {
+        if (waited + wait > this.maxWaitMs) {
+          throw new RateLimitError(
+            `Rate limited on ${route}: retry after ${wait}ms exceeds the maximum wait of ${this.maxWaitMs}ms`,
+            wait,
+            Date.now() < this.globalResetAt
+          );
+        }
+        await sleep(wait);
+        waited += wait;
+      }
+
+      this.countGlobalRequest();
+      const response = await request();
+      this.update(route, response);
+
+      if (response.status !== 429) {
+        return response;
+      }
+    }
+  }
+
+  /**
+   * Milliseconds to wait before a request on this route may be sent
+   */
+  private delayFor(route: string): number {
+    const now = Date.now();
+    let resetAt = this.globalResetAt;
+
+    if (this.globalWindowCount >= GLOBAL_REQUESTS_PER_SECOND && now - this.globalWindowStart < 1000) {
+      resetAt = Math.max(resetAt, this.globalWindowStart + 1000);
+    }
+
+    const bucket = this.buckets.get(this.bucketKey(route));
+    if (bucket && bucket.remaining <= 0) {
+      resetAt = Math.max(resetAt, bucket.resetAt);
+    }
+
+    return Math.max(0, resetAt - now);
+  }
+
+  private countGlobalRequest(): void {
+    const now = Date.now();
+    if (now - this.globalWindowStart >= 1000) {
+      this.globalWindowStart = now;
+      this.globalWindowCount = 0;
+    }
+    this.globalWindowCount++;
+  }
+
+  /**
+   * Record bucket state from the rate limit headers of a response
+   */
+  private update(route: string, response: Response): void {
+    const headers = response.headers;
+    if (!headers) {
+      return;
+    }
+
+    const now = Date.now();
+    const hash = headers.get('x-ratelimit-bucket');
+    if (hash) {
+      this.routeBuckets.set(route, hash);
+    }
+
+    const key = this.bucketKey(route);
+    const remaining = headers.get('x-ratelimit-remaining');
+    const resetAfter = headers.get('x-ratelimit-reset-after');
+    if (remaining !== null && resetAfter !== null) {
+      this.buckets.set(key, { remaining: Number(remaining), resetAt: now + Number(resetAfter) * 1000 });
+    }
+
+    if (response.status === 429) {
+      const advertised = Number(headers.get('retry-after') ?? resetAfter ?? 1) * 1000;
+      // Zero, missing or malformed delays would otherwise retry in a tight loop
+      const retryAfter = Number.isFinite(advertised) ? Math.max(advertised, MIN_RETRY_AFTER) : MIN_RETRY_AFTER;
+      const global = headers.get('x-ratelimit-global') === 'true' || headers.get('x-ratelimit-scope') === 'global';
+
+      if (global) {
+        this.globalResetAt = now + retryAfter;
+      } else {
+        this.buckets.set(key, { remaining: 0, resetAt: now + retryAfter });
+      }
+    }
+  }
+
+  /**
+   * Routes that share a bucket hash share state, scoped by their major parameter
+   */
+  private bucketKey(route: string): string {
+    const hash = this.routeBuckets.get(route);
+    if (!hash) {
+      return route;
+    }
+    const major = route.split(' ')[1].split('/').slice(0, 3).join('/');
+    return `${hash}:${major}`;
+  }
+}
+
+/**
+ * Derive a rate limit route from a request, e.g. `PATCH /channels/123/messages/:id`.
+ * Ids of major parameters are kept because Discord buckets per channel, guild and webhook.
+ */
+export function getRoute(method: string, path: string): string {
+  const segments = path.split('?')[0].split('/');
+
+  const normalized = segments.map((segment, index) => {
+    if (/^\d+$/.test(segment) && !MAJOR_PARAMETERS.has(segments[index - 1])) {
+      return ':id';
+    }
+    return segment;
+  });
+
+  return `${method.toUpperCase()} ${normalized.join('/')}`;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
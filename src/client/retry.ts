@@ -0,0 +1,67 @@
+import { RetryOptions, NetworkError, RateLimitError } from '../types';
+import { sleep } from './rate-limiter';
+
+const DEFAULT_RETRYABLE_STATUS_CODES = [500, 502, 503, 504];
+
+/**
+ * Retries transient failures with exponential backoff. Only idempotent requests
+ * are retried: a failed POST may already have taken effect on Discord's side.
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number;
+  readonly timeoutMs?: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private jitter: boolean;
+  private retryableStatusCodes: Set<number>;
+  private retryOnNetworkError: boolean;
+
+  constructor(options: RetryOptions = {}) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 1);
+    this.timeoutMs = options.timeoutMs;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 10000;
+    this.jitter = options.jitter ?? true;
+    this.retryableStatusCodes = new Set(options.retryableStatusCodes ?? DEFAULT_RETRYABLE_STATUS_CODES);
+    this.retryOnNetworkError = options.retryOnNetworkError ?? true;
+  }
+
+  get enabled(): boolean {
+    return this.maxAttempts > 1;
+  }
+
+  /**
+   * Run a request, retrying retryable status codes and network errors
+   */
+  async execute(request: () => Promise<Response>, idempotent: boolean): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      const canRetry = idempotent && attempt < this.maxAttempts;
+
+      try {
+        const response = await request();
+        if (!canRetry || !this.retryableStatusCodes.has(response.status)) {
+          return response;
+        }
+      } catch (error) {
+        if (!canRetry || !this.isRetryableError(error)) {
+          throw error;
+        }
+      }
+
+      await sleep(this.delayFor(attempt));
+    }
+  }
+
+  /**
+   * Exponential backoff capped at maxDelayMs, with full jitter when enabled
+   */
+  delayFor(attempt: number): number {
+    const delay = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempt - 1));
+    return this.jitter ? Math.random() * delay : delay;
+  }
+
+  private isRetryableError(error: unknown): boolean {
+    // Rate limits are already waited out by the scheduler
+    return this.retryOnNetworkError && error instanceof NetworkError && !(error instanceof RateLimitError);
+  }
+}
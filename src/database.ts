@@ -0,0 +1,164 @@
+import { DiscordDB } from './discord-db';
+import { DiscordClient } from './client/discord-client';
+import {
+  DatabaseConfig,
+  DiscordDBConfig,
+  CollectionInfo,
+  CollectionType,
+  ValidationError
+} from './types';
+
+// Discord channel and thread names are lowercase and at most 100 characters
+const COLLECTION_NAME_PATTERN = /^[a-z0-9_-]{1,100}$/;
+
+/**
+ * A database of named collections. Each collection is a DiscordDB bound to its
+ * own channel or thread, and the catalog of collection -> channel mappings is
+ * stored as documents in the metadata channel.
+ */
+export class Database {
+  private client: DiscordClient;
+  private catalog: DiscordDB;
+  private baseConfig: Omit<DiscordDBConfig, 'channelId'>;
+  private metadataChannelId: string;
+  private collectionType: CollectionType;
+  private guildId?: string;
+  private parentId?: string;
+  private collections: Map<string, DiscordDB> = new Map();
+  private pending: Map<string, Promise<DiscordDB>> = new Map();
+
+  constructor(config: DatabaseConfig) {
+    const { metadataChannelId, collectionType, guildId, parentId, ...baseConfig } = config;
+
+    if (!metadataChannelId) {
+      throw new ValidationError('Metadata channel ID is required');
+    }
+
+    this.collectionType = collectionType || 'thread';
+    if (this.collectionType === 'channel' && !guildId) {
+      throw new ValidationError('Guild ID is required when collections are channels');
+    }
+
+    this.baseConfig = baseConfig;
+    this.metadataChannelId = metadataChannelId;
+    this.guildId = guildId;
+    this.parentId = parentId;
+    this.client = new DiscordClient({ ...baseConfig, channelId: metadataChannelId });
+    this.catalog = new DiscordDB({ ...baseConfig, channelId: metadataChannelId });
+  }
+
+  /**
+   * Get a collection by name, creating its channel or thread on first use
+   */
+  async collection(name: string): Promise<DiscordDB> {
+    if (!COLLECTION_NAME_PATTERN.test(name)) {
+      throw new ValidationError(`Invalid collection name "${name}". Use 1-100 lowercase letters, digits, dashes or underscores.`);
+    }
+
+    const existing = this.collections.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    // Concurrent callers share one lookup so a collection is only created once per instance
+    let pending = this.pending.get(name);
+    if (!pending) {
+      pending = this.openCollection(name).finally(() => this.pending.delete(name));
+      this.pending.set(name, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * List all collections in the catalog
+   */
+  async listCollections(): Promise<CollectionInfo[]> {
+    const result = await this.catalog.find<CollectionInfo>({}, { sort: { _timestamp: 1 } });
+    const collections: Map<string, CollectionInfo> = new Map();
+
+    // The oldest entry wins if a name was registered more than once
+    for (const { name, channelId, type, createdAt } of result.documents) {
+      if (!collections.has(name)) {
+        collections.set(name, { name, channelId, type, createdAt });
+      }
+    }
+
+    return Array.from(collections.values());
+  }
+
+  /**
+   * Drop a collection, deleting its channel or thread and its catalog entry
+   */
+  async dropCollection(name: string): Promise<boolean> {
+    const entries = await this.findEntries(name);
+    if (entries.length === 0) {
+      return false;
+    }
+
+    for (const entry of entries) {
+      await this.client.deleteChannel(entry.channelId);
+    }
+    await this.catalog.deleteMany({ name });
+    this.collections.delete(name);
+
+    return true;
+  }
+
+  /**
+   * Test the connection to the metadata channel
+   */
+  async ping(): Promise<boolean> {
+    return this.catalog.ping();
+  }
+
+  private async openCollection(name: string): Promise<DiscordDB> {
+    const entries = await this.findEntries(name);
+    const entry = entries[0] || await this.createCollection(name);
+
+    const db = new DiscordDB({ ...this.baseConfig, channelId: entry.channelId });
+    // $lookup and populate can refer to sibling collections by name
+    db.setCollectionResolver(other => this.collection(other));
+    this.collections.set(name, db);
+    return db;
+  }
+
+  /**
+   * Create the channel or thread for a collection and record it in the catalog.
+   * If another instance registered the same name concurrently, the oldest
+   * catalog entry wins and this instance's channel is removed.
+   */
+  private async createCollection(name: string): Promise<CollectionInfo> {
+    const channel = this.collectionType === 'channel'
+      ? await this.client.createChannel(this.guildId!, name, this.parentId)
+      : await this.client.createThread(this.parentId || this.metadataChannelId, name);
+
+    const info: CollectionInfo = {
+      name,
+      channelId: channel.id,
+      type: this.collectionType,
+      createdAt: new Date().toISOString()
+    };
+
+    try {
+      await this.catalog.insertOne({ ...info });
+    } catch (error) {
+      await this.client.deleteChannel(channel.id).catch(() => undefined);
+      throw error;
+    }
+
+    this.catalog.clearCache();
+    const [winner] = await this.findEntries(name);
+    if (winner && winner.channelId !== channel.id) {
+      await this.catalog.deleteMany({ name, channelId: channel.id });
+      await this.client.deleteChannel(channel.id).catch(() => undefined);
+      return winner;
+    }
+
+    return info;
+  }
+
+  private async findEntries(name: string): Promise<CollectionInfo[]> {
+    const result = await this.catalog.find<CollectionInfo>({ name }, { sort: { _timestamp: 1 } });
+    return result.documents;
+  }
+}
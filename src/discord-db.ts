@@ -1,27 +1,120 @@
 import { DiscordClient } from './client/discord-client';
-import { matchesFilter, sortDocuments, applyProjection, applyPagination } from './utils/filters';
-import { applyUpdate, validateUpdate } from './utils/updates';
+import { matchesFilter, sortDocuments, applyProjection, applyPagination, textScore, isTextScoreMeta, TextScorer } from './utils/filters';
+import { applyUpdate, validateUpdate, buildUpsertDocument, updateWrite, replaceWrite, SingleWrite } from './utils/updates';
 import { EncryptionService } from './utils/encryption';
+import { CodecRegistry, CodecPipeline, createEncryptionCodec, isCodecEncoded } from './utils/codecs';
+import { maxSnowflake, compareSnowflakes } from './utils/snowflake';
+import { runPipeline, populateDocuments, collectLookupSources, SourceResolver } from './utils/aggregation';
+import { isPlainObject } from './utils/expressions';
+import { IndexManager, IndexSnapshot, indexName } from './utils/indexes';
+import { LockManager, Lock } from './lock-manager';
+import { TransactionSession, TransactionChange, TransactionJournal, JOURNAL_ID_PREFIX, isJournal } from './utils/transactions';
+import {
+  MAX_MESSAGE_LENGTH,
+  splitIntoChunks,
+  encodeChunk,
+  decodeChunk,
+  encodeManifest,
+  decodeManifest,
+  estimateManifestLength,
+  assembleChunks
+} from './utils/chunking';
 import {
   DiscordDBConfig,
+  DiscordMessage,
+  MessageFile,
+  AttachmentMode,
+  SyncOptions,
+  HistoryLimitMode,
   DBDocument,
   Filter,
+  TextSearch,
   UpdateFilter,
+  UpdateOptions,
   QueryOptions,
+  SortOption,
+  FindOneAndUpdateOptions,
+  FindOneAndReplaceOptions,
+  FindOneAndDeleteOptions,
+  BulkWriteOperation,
+  BulkWriteOptions,
+  BulkWriteResult,
+  BulkWriteFailure,
+  LockOptions,
+  PipelineStage,
+  LookupSource,
+  IndexSpec,
+  IndexOptions,
+  IndexInfo,
   InsertResult,
   UpdateResult,
   DeleteResult,
   FindResult,
   ValidationError,
-  DiscordDBError
+  DiscordDBError,
+  HistoryLimitError,
+  NetworkError,
+  DuplicateKeyError,
+  WriteConflictError,
+  BulkWriteError
 } from './types';
 
+const DOCUMENT_ATTACHMENT = 'document.json';
+const ATTACHMENT_MARKER = 'ddb:attachment';
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // Discord's default upload limit in bytes
+const DEFAULT_RECONCILE_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const INDEX_SNAPSHOT_ID = '$indexes'; // _id of the pinned document holding the index snapshot
+const DEFAULT_WRITE_CONFLICT_RETRIES = 3;
+const DEFAULT_TRANSACTION_TIMEOUT = 60 * 1000; // 1 minute
+const DOCUMENT_LOCK_PREFIX = 'document:'; // name prefix of the distributed locks taken by writeLocks
+const CLOCK_SKEW_MARGIN = 60 * 1000; // Slack between local and Discord clocks when trusting a snapshot
+const DEFAULT_TTL_REAP_INTERVAL = 60 * 1000; // 1 minute
+
+// How a document is laid out across Discord messages
+interface StoredLayout {
+  parts: string[]; // continuation message ids
+  attachment: boolean;
+}
+
+// Outcome of a single-document write
+interface Modification {
+  before: DBDocument | null; // the matched document
+  after: DBDocument | null; // its new version, or the upserted document
+  upsertedId?: string;
+}
+
 export class DiscordDB {
   private client: DiscordClient;
   private encryptionService?: EncryptionService;
+  private codecs = new CodecRegistry();
+  private codecPipeline?: CodecPipeline;
   private cache: Map<string, DBDocument> = new Map();
+  private layouts: Map<string, StoredLayout> = new Map();
+  private attachmentMode?: AttachmentMode;
   private lastCacheUpdate = 0;
   private cacheTimeout = 30000; // 30 seconds
+  private syncOptions: Required<SyncOptions>;
+  private syncCursor?: string; // newest message id seen
+  private lastReconcile = 0;
+  private messageVersions: Map<string, string> = new Map(); // header message id -> edit version
+  private writtenVersions: Map<string, string> = new Map(); // header message id -> edit version of our last write
+  private maxMessages: number;
+  private historyLimitMode: HistoryLimitMode;
+  private collectionResolver?: (name: string) => Promise<LookupSource>;
+  private indexes = new IndexManager();
+  private indexesLoaded = false;
+  private indexMessageId?: string;
+  private pending: Map<string, DBDocument> = new Map(); // documents being written, by id
+  private reaper?: ReturnType<typeof setInterval>;
+  private reaping?: Promise<number>;
+  private locks: Map<string, Promise<void>> = new Map(); // last queued single-document write, by id
+  private writeConflictRetries: number;
+  private transactionTimeoutMs: number;
+  private journals: Map<string, TransactionJournal> = new Map(); // synced transaction journals, by id
+  private activeJournals: Set<string> = new Set(); // journals of transactions this instance is committing
+  private recovering?: Promise<void>;
+  private lockManager: LockManager;
+  private writeLocks?: LockOptions;
 
   constructor(config: DiscordDBConfig) {
     this.client = new DiscordClient(config);
@@ -29,32 +122,37 @@ export class DiscordDB {
     // Initialize encryption service if encryption key is provided
     if (config.encryptionKey) {
       this.encryptionService = new EncryptionService(config.encryptionKey);
+      this.codecs.registerByteCodec(createEncryptionCodec(this.encryptionService));
     }
+
+    // With a codec configured, encryption runs as a pipeline stage after compression
+    if (config.codec) {
+      const encryption = this.encryptionService ? [createEncryptionCodec(this.encryptionService)] : [];
+      this.codecPipeline = this.codecs.createPipeline(config.codec, encryption);
+    }
+
+    this.attachmentMode = config.attachmentMode;
+    this.syncOptions = {
+      mode: config.sync?.mode || 'incremental',
+      reconcileIntervalMs: config.sync?.reconcileIntervalMs ?? DEFAULT_RECONCILE_INTERVAL
+    };
+    this.maxMessages = config.maxMessages ?? Infinity;
+    this.historyLimitMode = config.historyLimitMode || 'warn';
+    this.writeConflictRetries = config.writeConflictRetries ?? DEFAULT_WRITE_CONFLICT_RETRIES;
+    this.transactionTimeoutMs = config.transactionTimeoutMs ?? DEFAULT_TRANSACTION_TIMEOUT;
+    this.lockManager = new LockManager(this.client, () => this.syncNow());
+    this.writeLocks = config.writeLocks;
   }
 
   async insertOne(document: Partial<DBDocument>): Promise<InsertResult> {
     try {
       const docToInsert = this.prepareDocumentForInsert(document);
-      const content = this.serializeDocument(docToInsert);
-      
-      if (content.length > 2000) {
-        throw new ValidationError('Document too large. Discord messages are limited to 2000 characters.');
-      }
-
-      const message = await this.client.sendMessage(content);
-      
-      const insertedDoc: DBDocument = {
-        ...docToInsert,
-        _id: docToInsert._id,
-        _messageId: message.id,
-        _timestamp: message.timestamp
-      };
-
-      this.cache.set(insertedDoc._id!, insertedDoc);
+      await this.getAllDocuments();
+      const message = await this.storeDocument(docToInsert);
 
       return {
         acknowledged: true,
-        insertedId: insertedDoc._id!,
+        insertedId: docToInsert._id!,
         messageId: message.id
       };
     } catch (error) {
@@ -66,18 +164,25 @@ export class DiscordDB {
     try {
       const documents = await this.getAllDocuments();
       
-      let filteredDocs = documents.filter(doc => matchesFilter(doc, filter));
+      let filteredDocs = this.matchDocuments(documents, filter);
+      const textScorer = this.textScorer(filter, options);
       
       if (options.sort) {
-        filteredDocs = sortDocuments(filteredDocs, options.sort);
+        filteredDocs = sortDocuments(filteredDocs, options.sort, textScorer);
       }
 
       const total = filteredDocs.length;
       
       filteredDocs = applyPagination(filteredDocs, options.skip, options.limit);
+
+      if (options.populate) {
+        const populate = Array.isArray(options.populate) ? options.populate : [options.populate];
+        const resolveSource = await this.loadSources(populate.map(option => option.from));
+        filteredDocs = populateDocuments(filteredDocs, populate, resolveSource);
+      }
       
       if (options.projection) {
-        filteredDocs = applyProjection(filteredDocs, options.projection);
+        filteredDocs = applyProjection(filteredDocs, options.projection, textScorer);
       }
 
       return {
@@ -95,48 +200,224 @@ export class DiscordDB {
     return result.documents[0] || null;
   }
 
-  async updateOne(filter: Filter, update: UpdateFilter): Promise<UpdateResult> {
+  async updateOne(filter: Filter, update: UpdateFilter, options: UpdateOptions = {}): Promise<UpdateResult> {
     try {
-      validateUpdate(update);
-      
-      const document = await this.findOne(filter);
-      if (!document) {
-        return { acknowledged: true, matchedCount: 0, modifiedCount: 0 };
-      }
+      const modification = await this.modifyOne(filter, undefined, updateWrite(filter, update, options));
+      return this.updateResult(modification);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
 
-      const updatedDoc = applyUpdate(document, update);
-      const content = this.serializeDocument(updatedDoc);
-      
-      if (content.length > 2000) {
-        throw new ValidationError('Updated document too large.');
-      }
+  /**
+   * Replace the first matching document with a new one, keeping its _id
+   */
+  async replaceOne(filter: Filter, replacement: Partial<DBDocument>, options: UpdateOptions = {}): Promise<UpdateResult> {
+    try {
+      const modification = await this.modifyOne(filter, undefined, replaceWrite(filter, replacement, options.upsert));
+      return this.updateResult(modification);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
 
-      await this.client.editMessage(document._messageId!, content);
-      this.cache.set(document._id!, updatedDoc);
+  /**
+   * Update the first matching document and return it as it was before the
+   * update, or after it with `returnDocument: 'after'`
+   */
+  async findOneAndUpdate<T = DBDocument>(
+    filter: Filter,
+    update: UpdateFilter,
+    options: FindOneAndUpdateOptions = {}
+  ): Promise<T | null> {
+    try {
+      const modification = await this.modifyOne(filter, options.sort, updateWrite(filter, update, options));
+      return this.returnedDocument<T>(filter, modification, options);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
 
-      return { acknowledged: true, matchedCount: 1, modifiedCount: 1 };
+  /**
+   * Replace the first matching document and return it as it was before the
+   * replacement, or after it with `returnDocument: 'after'`
+   */
+  async findOneAndReplace<T = DBDocument>(
+    filter: Filter,
+    replacement: Partial<DBDocument>,
+    options: FindOneAndReplaceOptions = {}
+  ): Promise<T | null> {
+    try {
+      const modification = await this.modifyOne(filter, options.sort, replaceWrite(filter, replacement, options.upsert));
+      return this.returnedDocument<T>(filter, modification, options);
     } catch (error) {
       throw this.handleError(error);
     }
   }
 
-  async deleteOne(filter: Filter): Promise<DeleteResult> {
+  /**
+   * Delete the first matching document and return it
+   */
+  async findOneAndDelete<T = DBDocument>(filter: Filter, options: FindOneAndDeleteOptions = {}): Promise<T | null> {
     try {
-      const document = await this.findOne(filter);
+      const modification = await this.modifyOne(filter, options.sort, { modify: () => null });
+      return this.returnedDocument<T>(filter, modification, options);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Modify the first document matching the filter, in sort order. When nothing
+   * matches, the write may upsert a document instead. Writes to one document
+   * through these methods run one at a time, each on its latest version, so
+   * callers never overwrite a change they have not seen. A write that loses to
+   * another process is retried on that process's version.
+   */
+  private async modifyOne(filter: Filter, sort: SortOption | undefined, write: SingleWrite): Promise<Modification> {
+    for (let conflicts = 0; ; ) {
+      const { documents: [document] } = await this.find(filter, { sort, limit: 1 });
       if (!document) {
-        return { acknowledged: true, deletedCount: 0 };
+        if (!write.upsert) {
+          return { before: null, after: null };
+        }
+        const { insertedId } = await this.insertOne(write.upsert());
+        return { before: null, after: this.cache.get(insertedId) ?? null, upsertedId: insertedId };
+      }
+
+      const id = document._id!;
+      const release = await this.lockForWrite(id);
+      try {
+        // Another write got there first: match again against its result
+        if (this.cache.get(id) !== document) {
+          continue;
+        }
+
+        const modified = write.modify(document);
+        if (modified) {
+          await this.storeDocument(modified, document);
+        } else {
+          await this.removeDocument(document);
+        }
+        return { before: document, after: modified && (this.cache.get(id) ?? null) };
+      } catch (error) {
+        // The conflict refreshed the cache, so the next attempt matches the new version
+        if (error instanceof WriteConflictError && conflicts++ < this.writeConflictRetries) {
+          continue;
+        }
+        throw error;
+      } finally {
+        await release();
+      }
+    }
+  }
+
+  /**
+   * Take the local write lock on a document and, when writeLocks is set, the
+   * distributed lock that other instances take too. Returns the release.
+   */
+  private async lockForWrite(id: string): Promise<() => Promise<void>> {
+    const release = await this.lockDocument(id);
+    let lease: Lock | undefined;
+    try {
+      lease = this.writeLocks ? await this.lockManager.acquire(DOCUMENT_LOCK_PREFIX + id, this.writeLocks) : undefined;
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    return async () => {
+      try {
+        await lease?.release();
+      } finally {
+        release();
+      }
+    };
+  }
+
+  /**
+   * Take the write locks of several documents in _id order, so that two
+   * callers cannot wait on each other. Returns the release of them all.
+   */
+  private async lockForWrites(ids: string[]): Promise<() => Promise<void>> {
+    const releases: Array<() => Promise<void>> = [];
+    const releaseAll = async () => {
+      await Promise.all(releases.map(release => release()));
+    };
+
+    try {
+      for (const id of [...ids].sort()) {
+        releases.push(await this.lockForWrite(id));
       }
+    } catch (error) {
+      await releaseAll();
+      throw error;
+    }
+    return releaseAll;
+  }
+
+  /**
+   * Wait for earlier writes to a document queued here, returning the function
+   * that lets the next one go
+   */
+  private async lockDocument(id: string): Promise<() => void> {
+    const previous = this.locks.get(id) ?? Promise.resolve();
+    let release!: () => void;
+    const tail = previous.then(() => new Promise<void>(resolve => { release = resolve; }));
+    this.locks.set(id, tail);
+
+    await previous;
+    return () => {
+      release();
+      if (this.locks.get(id) === tail) {
+        this.locks.delete(id);
+      }
+    };
+  }
+
+  private updateResult({ before, upsertedId }: Modification): UpdateResult {
+    if (upsertedId !== undefined) {
+      return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedId };
+    }
+    const count = before ? 1 : 0;
+    return { acknowledged: true, matchedCount: count, modifiedCount: count };
+  }
+
+  private returnedDocument<T>(
+    filter: Filter,
+    { before, after }: Modification,
+    options: FindOneAndUpdateOptions
+  ): T | null {
+    const document = options.returnDocument === 'after' ? after : before;
+    if (!document || !options.projection) {
+      return document as T | null;
+    }
+    const [projected] = applyProjection([document], options.projection, this.textScorer(filter, options));
+    return projected as T;
+  }
+
+  /**
+   * Result of an update that matched nothing, inserting the upserted document if there is one
+   */
+  private async upsert(document?: DBDocument): Promise<UpdateResult> {
+    if (!document) {
+      return { acknowledged: true, matchedCount: 0, modifiedCount: 0 };
+    }
 
-      await this.client.deleteMessage(document._messageId!);
-      this.cache.delete(document._id!);
+    const { insertedId } = await this.insertOne(document);
+    return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedId: insertedId };
+  }
 
-      return { acknowledged: true, deletedCount: 1 };
+  async deleteOne(filter: Filter): Promise<DeleteResult> {
+    try {
+      const { before } = await this.modifyOne(filter, undefined, { modify: () => null });
+      return { acknowledged: true, deletedCount: before ? 1 : 0 };
     } catch (error) {
       throw this.handleError(error);
     }
   }
 
-  private async getAllDocuments(): Promise<DBDocument[]> {
+  private async getAllDocuments(recover = true): Promise<DBDocument[]> {
     const now = Date.now();
     
     if (now - this.lastCacheUpdate < this.cacheTimeout && this.cache.size > 0) {
@@ -144,190 +425,1326 @@ export class DiscordDB {
     }
 
     try {
-      const messages = await this.client.getAllMessages();
-      const documents: DBDocument[] = [];
-      
-      this.cache.clear();
-      
-      for (const message of messages) {
-        try {
-          if (message.content.trim()) {
-            const doc = this.deserializeDocument(message.content);
-            doc._messageId = message.id;
-            doc._timestamp = message.timestamp;
-            
-            if (doc._id) {
-              documents.push(doc);
-              this.cache.set(doc._id, doc);
-            }
-          }
-        } catch {
-          continue;
-        }
+      if (!this.indexesLoaded) {
+        await this.loadIndexes();
       }
-      
+
+      const reconcileDue = this.syncOptions.mode === 'full' ||
+        !this.syncCursor ||
+        now - this.lastReconcile >= this.syncOptions.reconcileIntervalMs;
+
+      if (reconcileDue) {
+        await this.fullSync();
+        this.lastReconcile = now;
+      } else {
+        await this.incrementalSync();
+      }
+
+      // Documents still being written keep their claim on unique keys
+      const documents = new Map([...this.cache, ...this.pending]);
+      this.indexes.sync(documents.values(), (doc, cursor, syncedAt) => this.unchangedSince(doc, cursor, syncedAt));
       this.lastCacheUpdate = now;
-      return documents;
+
+      // A snapshot's entries are only trusted up to its cursor, so move it on
+      // after full syncs; otherwise cold starts re-index more and more history
+      if (reconcileDue && this.indexes.size > 0 && this.indexes.stale) {
+        await this.saveIndexes().catch(error => console.warn('Failed to refresh the index snapshot:', error));
+      }
+
+      if (recover && reconcileDue && this.journals.size > 0) {
+        await this.recoverTransactions();
+      }
+      return Array.from(this.cache.values());
     } catch (error) {
       throw this.handleError(error);
     }
   }
 
-  private prepareDocumentForInsert(document: Partial<DBDocument>): DBDocument {
-    const doc: DBDocument = { ...document };
-    if (!doc._id) {
-      doc._id = Date.now().toString(36) + Math.random().toString(36).substr(2);
+  /**
+   * Rebuild the cache from the whole channel. This is the only way to notice
+   * edits to older messages and deletions by other writers. Messages whose edit
+   * version is unchanged reuse their cached document instead of being decoded again.
+   */
+  private async fullSync(): Promise<void> {
+    const messages = await this.scanHistory();
+    const previous = new Map<string, { document: DBDocument; layout: StoredLayout }>();
+
+    for (const doc of this.cache.values()) {
+      const layout = this.layouts.get(doc._id!);
+      if (doc._messageId && layout) {
+        previous.set(doc._messageId, { document: doc, layout });
+      }
     }
-    return doc;
+
+    const previousVersions = this.messageVersions;
+    this.cache.clear();
+    this.layouts.clear();
+    this.journals.clear();
+    this.lockManager.clear();
+    this.messageVersions = new Map();
+
+    await this.applyMessages(messages, (message) => {
+      const cached = previous.get(message.id);
+      return cached && previousVersions.get(message.id) === messageVersion(message) ? cached : undefined;
+    });
+    this.syncCursor = maxSnowflake(messages.map(message => message.id));
   }
 
   /**
-   * Serialize document for storage (with optional encryption)
+   * Fetch the channel history up to the configured message cap. One extra
+   * message is requested so that truncation is reported instead of silent.
    */
-  private serializeDocument(document: DBDocument): string {
-    const jsonString = JSON.stringify(document);
-    
-    if (this.encryptionService) {
-      const encrypted = this.encryptionService.encrypt(jsonString);
-      return JSON.stringify(encrypted);
+  private async scanHistory(): Promise<DiscordMessage[]> {
+    const messages = await this.client.getAllMessages(this.maxMessages + 1);
+    if (messages.length <= this.maxMessages) {
+      return messages;
     }
-    
-    return jsonString;
+
+    const message = `Channel has more than ${this.maxMessages} messages; older documents are not loaded. Raise maxMessages to read the full history.`;
+    if (this.historyLimitMode === 'error') {
+      throw new HistoryLimitError(message, this.maxMessages);
+    }
+    console.warn(message);
+    return messages.slice(0, this.maxMessages);
   }
 
   /**
-   * Deserialize document from storage (with optional decryption)
+   * Pull only messages newer than the sync cursor and merge them into the cache
    */
-  private deserializeDocument(content: string): DBDocument {
-    const parsed = JSON.parse(content);
-    
-    // Check if the content is encrypted
-    if (EncryptionService.isEncrypted(parsed)) {
-      if (!this.encryptionService) {
-        throw new DiscordDBError('Encrypted data found but no encryption key provided');
+  private async incrementalSync(): Promise<void> {
+    const messages: DiscordMessage[] = [];
+    let after = this.syncCursor;
+
+    for (;;) {
+      const batch = await this.client.getMessages(100, undefined, after);
+      if (batch.length === 0) {
+        break;
+      }
+
+      messages.push(...batch);
+      after = maxSnowflake(batch.map(message => message.id));
+      if (batch.length < 100) {
+        break;
       }
-      
-      const decryptedContent = this.encryptionService.decrypt(parsed);
-      return JSON.parse(decryptedContent) as DBDocument;
     }
-    
-    return parsed as DBDocument;
+
+    await this.applyMessages(messages);
+    if (after) {
+      this.syncCursor = after;
+    }
   }
 
   /**
-   * Check if encryption is enabled
+   * Decode messages and merge the documents they hold into the cache
    */
-  isEncryptionEnabled(): boolean {
-    return !!this.encryptionService;
-  }
+  private async applyMessages(
+    messages: DiscordMessage[],
+    reuse?: (message: DiscordMessage) => { document: DBDocument; layout: StoredLayout } | undefined
+  ): Promise<void> {
+    // Continuation chunks are collected first so their headers can be reassembled
+    const chunkData = new Map<string, string>();
+    for (const message of messages) {
+      const chunk = decodeChunk(message.content);
+      if (chunk) {
+        chunkData.set(message.id, chunk.data);
+      }
+    }
+      
+    for (const message of messages) {
+      try {
+        // The index snapshot was already read from the pins
+        if (chunkData.has(message.id) || message.id === this.indexMessageId || this.lockManager.observe(message)) {
+          continue;
+        }
 
-  private handleError(error: unknown): Error {
-    if (error instanceof DiscordDBError) return error;
-    if (error instanceof Error) return new DiscordDBError(error.message);
-    return new DiscordDBError(`Unknown error: ${String(error)}`);
-  }
+        const stored = reuse?.(message) || await this.readMessage(message, chunkData);
+        if (!stored) {
+          continue;
+        }
 
-  // Additional utility methods
-  
-  async insertMany(documents: Partial<DBDocument>[]): Promise<InsertResult[]> {
-    const results: InsertResult[] = [];
-    for (const doc of documents) {
-      try {
-        const result = await this.insertOne(doc);
-        results.push(result);
-      } catch (error) {
-        console.error('Failed to insert document:', error);
+        const doc = stored.document;
+        if (doc._id === INDEX_SNAPSHOT_ID) {
+          this.indexMessageId = message.id;
+          continue;
+        }
+        if (isJournal(doc)) {
+          this.journals.set(doc._id, { ...doc, _messageId: message.id });
+          this.layouts.set(doc._id, stored.layout);
+          continue;
+        }
+
+        doc._messageId = message.id;
+        doc._timestamp = message.timestamp;
+            
+        if (doc._id) {
+          this.cache.set(doc._id, doc);
+          this.layouts.set(doc._id, stored.layout);
+          this.messageVersions.set(message.id, messageVersion(message));
+        }
+      } catch {
+        continue;
       }
     }
-    return results;
   }
 
-  async findById<T = DBDocument>(id: string): Promise<T | null> {
-    return this.findOne<T>({ _id: id });
+  private prepareDocumentForInsert(document: Partial<DBDocument>): DBDocument {
+    const doc: DBDocument = { ...document };
+    if (!doc._id) {
+      doc._id = generateId();
+    }
+    return doc;
   }
 
-  async updateById(id: string, update: UpdateFilter): Promise<UpdateResult> {
-    return this.updateOne({ _id: id }, update);
-  }
+  /**
+   * Read the document stored in a message, reassembling chunks or downloading
+   * its attachment. Chunks missing from chunkData are fetched. Returns null for
+   * messages that hold no document.
+   */
+  private async readMessage(
+    message: DiscordMessage,
+    chunkData: Map<string, string>
+  ): Promise<{ document: DBDocument; layout: StoredLayout } | null> {
+    let content = message.content;
+    const layout: StoredLayout = { parts: [], attachment: false };
 
-  async updateMany(filter: Filter, update: UpdateFilter): Promise<UpdateResult> {
-    try {
-      validateUpdate(update);
-      const documents = await this.getAllDocuments();
-      const matchingDocs = documents.filter(doc => matchesFilter(doc, filter));
-      
-      let modifiedCount = 0;
-      for (const doc of matchingDocs) {
-        try {
-          const updatedDoc = applyUpdate(doc, update);
-          const content = this.serializeDocument(updatedDoc);
-          
-          if (content.length > 2000) {
-            console.error(`Skipping update for document ${doc._id}: too large after update`);
-            continue;
-          }
+    if (content === ATTACHMENT_MARKER) {
+      const attachment = (message.attachments || []).find(file => file.filename === DOCUMENT_ATTACHMENT);
+      if (!attachment) {
+        return null;
+      }
+      content = await this.client.downloadAttachment(attachment.url);
+      layout.attachment = true;
+    }
 
-          await this.client.editMessage(doc._messageId!, content);
-          this.cache.set(doc._id!, updatedDoc);
-          modifiedCount++;
-        } catch (error) {
-          console.error(`Failed to update document ${doc._id}:`, error);
+    const manifest = decodeManifest(content);
+    if (manifest) {
+      // Chunks are sent before their header, so a sync may have read them in an earlier batch
+      for (const part of manifest.parts.filter(part => !chunkData.has(part))) {
+        const chunk = decodeChunk((await this.fetchMessage(part))?.content ?? '');
+        if (chunk) {
+          chunkData.set(part, chunk.data);
         }
       }
+      const assembled = assembleChunks(manifest, chunkData);
+      if (assembled === null) {
+        return null; // Incomplete chain, e.g. chunks deleted by another writer
+      }
+      content = assembled;
+      layout.parts = manifest.parts;
+    }
 
-      return {
-        acknowledged: true,
-        matchedCount: matchingDocs.length,
-        modifiedCount
-      };
-    } catch (error) {
-      throw this.handleError(error);
+    if (!content.trim()) {
+      return null;
     }
-  }
 
-  async deleteById(id: string): Promise<DeleteResult> {
-    return this.deleteOne({ _id: id });
+    return { document: this.deserializeDocument(content), layout };
   }
 
-  async deleteMany(filter: Filter): Promise<DeleteResult> {
-    try {
-      const documents = await this.getAllDocuments();
-      const matchingDocs = documents.filter(doc => matchesFilter(doc, filter));
-      
-      let deletedCount = 0;
-      for (const doc of matchingDocs) {
-        try {
-          await this.client.deleteMessage(doc._messageId!);
-          this.cache.delete(doc._id!);
-          deletedCount++;
-        } catch (error) {
-          console.error(`Failed to delete document ${doc._id}:`, error);
-        }
-      }
+  /**
+   * Write a document and record it in the cache and indexes. Its _id and
+   * unique index keys are claimed before the write starts, so concurrent writes
+   * through this instance cannot both pass the check; the claim is released if
+   * the write fails. Passing the stored document updates it. Every write
+   * stores the next _version of the document, starting at 1.
+   */
+  private async storeDocument(unversioned: DBDocument, existing?: DBDocument): Promise<DiscordMessage> {
+    const document = { ...unversioned, _version: (existing?._version ?? 0) + 1 };
+    const id = document._id!;
+    if (!existing && (this.cache.has(id) || this.pending.has(id))) {
+      throw new DuplicateKeyError(`Duplicate key: a document with _id "${id}" already exists`, '_id_', { _id: id });
+    }
+    const duplicate = this.indexes.checkUnique(document);
+    if (duplicate) {
+      throw duplicate;
+    }
 
-      return {
-        acknowledged: true,
-        deletedCount
-      };
+    this.pending.set(id, document);
+    this.indexes.update(document);
+    try {
+      const message = await this.writeDocument(document, existing);
+      const stored = existing ? document : { ...document, _messageId: message.id, _timestamp: message.timestamp };
+      this.cache.set(id, stored);
+      this.indexes.update(stored);
+      return message;
     } catch (error) {
-      throw this.handleError(error);
+      // Back to what is cached, which a write conflict may have refreshed
+      const current = this.cache.get(id);
+      if (current) {
+        this.indexes.update(current);
+      } else {
+        this.indexes.remove(id);
+      }
+      throw error;
+    } finally {
+      this.pending.delete(id);
     }
   }
 
-  async countDocuments(filter: Filter = {}): Promise<number> {
-    const documents = await this.getAllDocuments();
-    return documents.filter(doc => matchesFilter(doc, filter)).length;
-  }
-
-  async exists(filter: Filter): Promise<boolean> {
-    const count = await this.countDocuments(filter);
-    return count > 0;
-  }
+  /**
+   * Write a document to Discord. Depending on its size and the attachment mode it
+   * is stored inline, as a JSON attachment, or split across continuation messages.
+   * Passing the stored document edits it in place, once checkVersion confirms
+   * that no one else has changed it since.
+   */
+  private async writeDocument(document: DBDocument, existing?: DBDocument): Promise<DiscordMessage> {
+    if (existing) {
+      await this.checkVersion(existing);
+    }
 
-  async drop(): Promise<void> {
-    await this.deleteMany({});
-    this.cache.clear();
-  }
+    const content = this.serializeDocument(document);
+    const previous = existing ? this.layouts.get(existing._id!) : undefined;
+    const useAttachment = this.attachmentMode === 'always' ||
+      (this.attachmentMode === 'oversized' && content.length > MAX_MESSAGE_LENGTH);
+    let headContent = content;
+    let files: MessageFile[] | undefined;
+    let parts: string[] = [];
+
+    if (useAttachment) {
+      if (new TextEncoder().encode(content).length > MAX_ATTACHMENT_SIZE) {
+        throw new ValidationError('Document too large. Attachments are limited to 10 MB.');
+      }
+      headContent = ATTACHMENT_MARKER;
+      files = [{ name: DOCUMENT_ATTACHMENT, data: content, contentType: 'application/json' }];
+    } else if (content.length > MAX_MESSAGE_LENGTH) {
+      const pieces = splitIntoChunks(content);
+      if (estimateManifestLength(pieces.length, content.length) > MAX_MESSAGE_LENGTH) {
+        throw new ValidationError(`Document too large. It would need ${pieces.length} chunks, more than a single manifest can reference.`);
+      }
+
+      // Fresh continuation messages are written before the header is switched over,
+      // so readers never see a header pointing at partially rewritten chunks
+      parts = await this.sendChunks(pieces);
+      headContent = encodeManifest({ parts, length: content.length });
+    } else if (previous?.attachment) {
+      files = []; // Drop the old attachment when moving back inline
+    }
+
+    let message: DiscordMessage;
+    try {
+      if (existing) {
+        message = files
+          ? await this.client.editMessage(existing._messageId!, headContent, files)
+          : await this.client.editMessage(existing._messageId!, headContent);
+      } else {
+        message = files
+          ? await this.client.sendMessage(headContent, files)
+          : await this.client.sendMessage(headContent);
+      }
+    } catch (error) {
+      await this.deleteMessagesQuietly(parts);
+      throw error;
+    }
+
+    await this.deleteMessagesQuietly(previous?.parts || []);
+    if (existing) {
+      this.layouts.delete(existing._id!);
+    }
+    this.layouts.set(document._id!, { parts, attachment: useAttachment });
+
+    // The cached copy is not what Discord returns once JSON round-tripped, so the
+    // next reconcile must decode this message again rather than reuse the cache
+    if (existing) {
+      this.messageVersions.delete(existing._messageId!);
+    }
+    const version = messageVersion(message);
+    if (version) {
+      this.writtenVersions.set(existing ? existing._messageId! : message.id, version);
+    }
+
+    return message;
+  }
+
+  /**
+   * Re-read a document's header message before editing it. When another process
+   * has written the document since this instance read it, the cache takes on
+   * that version and a WriteConflictError is thrown instead of overwriting it.
+   * The edit timestamp settles most checks; otherwise the stored _version is
+   * compared. Discord has no conditional edits, so this narrows the window for
+   * lost updates rather than closing it.
+   */
+  private async checkVersion(existing: DBDocument): Promise<void> {
+    const id = existing._id!;
+    const messageId = existing._messageId!;
+    const message = await this.fetchMessage(messageId);
+    const version = message && messageVersion(message);
+    if (version && (version === this.messageVersions.get(messageId) || version === this.writtenVersions.get(messageId))) {
+      return;
+    }
+
+    const stored = message && await this.readMessage(message, new Map());
+    const current = stored && stored.document._id === id ? stored.document : undefined;
+    if (current && current._version === existing._version) {
+      return;
+    }
+
+    if (message && current) {
+      current._messageId = messageId;
+      current._timestamp = message.timestamp;
+      this.cache.set(id, current);
+      this.layouts.set(id, stored!.layout);
+      this.indexes.update(current);
+      this.messageVersions.set(messageId, messageVersion(message));
+    } else {
+      this.cache.delete(id);
+      this.layouts.delete(id);
+      this.indexes.remove(id);
+      this.messageVersions.delete(messageId);
+    }
+    this.writtenVersions.delete(messageId);
+
+    throw new WriteConflictError(
+      current
+        ? `Document "${id}" was changed by another writer (version ${existing._version ?? 0}, now ${current._version ?? 0})`
+        : `Document "${id}" was deleted by another writer`,
+      id,
+      existing._version,
+      current?._version
+    );
+  }
+
+  /**
+   * Fetch a message, or undefined when it has been deleted
+   */
+  private async fetchMessage(messageId: string): Promise<DiscordMessage | undefined> {
+    try {
+      return await this.client.getMessage(messageId);
+    } catch (error) {
+      if (error instanceof NetworkError && error.code === 'NOT_FOUND') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send continuation chunks in order, returning their message ids
+   */
+  private async sendChunks(pieces: string[]): Promise<string[]> {
+    const parts: string[] = [];
+    try {
+      for (let i = 0; i < pieces.length; i++) {
+        const message = await this.client.sendMessage(encodeChunk(i, pieces[i]));
+        parts.push(message.id);
+      }
+    } catch (error) {
+      await this.deleteMessagesQuietly(parts);
+      throw error;
+    }
+    return parts;
+  }
+
+  /**
+   * Delete a document's header message and any continuation chunks
+   */
+  private async removeDocument(document: DBDocument): Promise<void> {
+    // The header goes first: once it is gone the document is gone for readers
+    await this.client.deleteMessage(document._messageId!);
+    this.cache.delete(document._id!);
+    this.indexes.remove(document._id!);
+    this.messageVersions.delete(document._messageId!);
+    this.writtenVersions.delete(document._messageId!);
+
+    const layout = this.layouts.get(document._id!);
+    this.layouts.delete(document._id!);
+    await this.deleteMessagesQuietly(layout?.parts || []);
+  }
+
+  /**
+   * Best-effort cleanup of chunk messages. Orphaned chunks are ignored by readers.
+   */
+  private async deleteMessagesQuietly(messageIds: string[]): Promise<void> {
+    for (const messageId of messageIds) {
+      try {
+        await this.client.deleteMessage(messageId);
+      } catch (error) {
+        console.error(`Failed to delete chunk message ${messageId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Serialize document for storage (with optional codec pipeline or encryption)
+   */
+  private serializeDocument(document: DBDocument): string {
+    const jsonString = JSON.stringify(document);
+
+    if (this.codecPipeline) {
+      return this.codecPipeline.encode(jsonString);
+    }
+    
+    if (this.encryptionService) {
+      const encrypted = this.encryptionService.encrypt(jsonString);
+      return JSON.stringify(encrypted);
+    }
+    
+    return jsonString;
+  }
+
+  /**
+   * Deserialize document from storage, accepting codec-encoded, encrypted or plain JSON content
+   */
+  private deserializeDocument(content: string): DBDocument {
+    if (isCodecEncoded(content)) {
+      return JSON.parse(this.codecs.decode(content)) as DBDocument;
+    }
+
+    const parsed = JSON.parse(content);
+    
+    // Check if the content is encrypted
+    if (EncryptionService.isEncrypted(parsed)) {
+      if (!this.encryptionService) {
+        throw new DiscordDBError('Encrypted data found but no encryption key provided');
+      }
+      
+      const decryptedContent = this.encryptionService.decrypt(parsed);
+      return JSON.parse(decryptedContent) as DBDocument;
+    }
+    
+    return parsed as DBDocument;
+  }
+
+  /**
+   * Check if encryption is enabled
+   */
+  isEncryptionEnabled(): boolean {
+    return !!this.encryptionService;
+  }
+
+  private handleError(error: unknown): Error {
+    if (error instanceof DiscordDBError) return error;
+    if (error instanceof Error) return new DiscordDBError(error.message);
+    return new DiscordDBError(`Unknown error: ${String(error)}`);
+  }
+
+  // Additional utility methods
+  
+  async insertMany(documents: Partial<DBDocument>[]): Promise<InsertResult[]> {
+    const results: InsertResult[] = [];
+    for (const doc of documents) {
+      try {
+        const result = await this.insertOne(doc);
+        results.push(result);
+      } catch (error) {
+        if (error instanceof DuplicateKeyError) {
+          throw error;
+        }
+        console.error('Failed to insert document:', error);
+      }
+    }
+    return results;
+  }
+
+  async findById<T = DBDocument>(id: string): Promise<T | null> {
+    return this.findOne<T>({ _id: id });
+  }
+
+  async updateById(id: string, update: UpdateFilter, options: UpdateOptions = {}): Promise<UpdateResult> {
+    return this.updateOne({ _id: id }, update, options);
+  }
+
+  async updateMany(filter: Filter, update: UpdateFilter, options: UpdateOptions = {}): Promise<UpdateResult> {
+    try {
+      return await this.updateEach(filter, update, options, (doc, error) => {
+        if (error instanceof DuplicateKeyError) {
+          throw error;
+        }
+        console.error(`Failed to update document ${doc._id}:`, error);
+        return true;
+      });
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update every matching document, or upsert one when none match. `onFailure`
+   * decides whether to go on after a document fails to update.
+   */
+  private async updateEach(
+    filter: Filter,
+    update: UpdateFilter,
+    options: UpdateOptions,
+    onFailure: (document: DBDocument, error: unknown) => boolean
+  ): Promise<UpdateResult> {
+    validateUpdate(update, options.arrayFilters);
+    const documents = await this.getAllDocuments();
+    const matchingDocs = this.matchDocuments(documents, filter);
+    if (matchingDocs.length === 0) {
+      return this.upsert(options.upsert ? buildUpsertDocument(filter, update) : undefined);
+    }
+
+    let modifiedCount = 0;
+    for (const doc of matchingDocs) {
+      try {
+        if (await this.updateDocument(doc, filter, update, options)) {
+          modifiedCount++;
+        }
+      } catch (error) {
+        if (!onFailure(doc, error)) {
+          break;
+        }
+      }
+    }
+
+    return {
+      acknowledged: true,
+      matchedCount: matchingDocs.length,
+      modifiedCount
+    };
+  }
+
+  /**
+   * Apply an update to one document, on its latest version. After a write
+   * conflict the update is applied again to the other writer's version.
+   * Returns false when the document no longer matches the filter.
+   */
+  private async updateDocument(
+    document: DBDocument,
+    filter: Filter,
+    update: UpdateFilter,
+    options: UpdateOptions
+  ): Promise<boolean> {
+    const release = await this.lockForWrite(document._id!);
+    try {
+      for (let conflicts = 0; ; conflicts++) {
+        const current = this.cache.get(document._id!);
+        if (!current || this.matchDocuments([current], filter).length === 0) {
+          return false;
+        }
+        try {
+          await this.storeDocument(applyUpdate(current, update, { filter, arrayFilters: options.arrayFilters }), current);
+          return true;
+        } catch (error) {
+          if (!(error instanceof WriteConflictError) || conflicts >= this.writeConflictRetries) {
+            throw error;
+          }
+        }
+      }
+    } finally {
+      await release();
+    }
+  }
+
+  async deleteById(id: string): Promise<DeleteResult> {
+    return this.deleteOne({ _id: id });
+  }
+
+  async deleteMany(filter: Filter): Promise<DeleteResult> {
+    try {
+      const documents = await this.getAllDocuments();
+      const matchingDocs = this.matchDocuments(documents, filter);
+      await this.removeDocuments(matchingDocs);
+
+      return {
+        acknowledged: true,
+        deletedCount: matchingDocs.length
+      };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Run a batch of insert, update, replace and delete operations in order.
+   * An ordered bulk (the default) stops at the first failure, an unordered one
+   * attempts every operation. Failures are reported together in a
+   * BulkWriteError, which also carries the combined result of what succeeded.
+   */
+  async bulkWrite(operations: BulkWriteOperation[], options: BulkWriteOptions = {}): Promise<BulkWriteResult> {
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw new ValidationError('bulkWrite requires a non-empty array of operations');
+    }
+
+    const ordered = options.ordered ?? true;
+    const result: BulkWriteResult = {
+      acknowledged: true,
+      insertedCount: 0,
+      matchedCount: 0,
+      modifiedCount: 0,
+      deletedCount: 0,
+      upsertedCount: 0,
+      insertedIds: {},
+      upsertedIds: {}
+    };
+    const writeErrors: BulkWriteFailure[] = [];
+
+    for (const [index, operation] of operations.entries()) {
+      const failed = await this.runBulkOperation(operation, index, result, ordered, (error, documentId) => {
+        writeErrors.push({ index, documentId, error: this.handleError(error) });
+      });
+      if (failed && ordered) {
+        break;
+      }
+    }
+
+    if (writeErrors.length > 0) {
+      const [first] = writeErrors;
+      throw new BulkWriteError(
+        `Bulk write failed with ${writeErrors.length} error${writeErrors.length === 1 ? '' : 's'}, ` +
+        `first at operation ${first.index}: ${first.error.message}`,
+        writeErrors,
+        result
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Run one bulk operation, adding to the combined result. Returns whether anything failed.
+   */
+  private async runBulkOperation(
+    operation: BulkWriteOperation,
+    index: number,
+    result: BulkWriteResult,
+    ordered: boolean,
+    fail: (error: unknown, documentId?: string) => void
+  ): Promise<boolean> {
+    let documentId: string | undefined;
+    // Remembers which document a single-document write matched
+    const tracked = (write: SingleWrite): SingleWrite => ({
+      ...write,
+      modify: document => {
+        documentId = document._id;
+        return write.modify(document);
+      }
+    });
+
+    try {
+      const types = isPlainObject(operation) ? Object.keys(operation) : [];
+      const [spec] = types.length === 1 ? Object.values(operation) : [];
+      if (!isPlainObject(spec)) {
+        throw new ValidationError('Each bulk write operation must be an object with a single operation, e.g. { insertOne: { document } }');
+      }
+      const [type] = types;
+      if (type !== 'insertOne' && !isPlainObject(spec.filter)) {
+        throw new ValidationError(`${type} requires a filter`);
+      }
+
+      if ('insertOne' in operation) {
+        if (!isPlainObject(operation.insertOne.document)) {
+          throw new ValidationError('insertOne requires a document');
+        }
+        const document = this.prepareDocumentForInsert(operation.insertOne.document);
+        documentId = document._id;
+        await this.insertOne(document);
+        result.insertedCount++;
+        result.insertedIds[index] = document._id!;
+        return false;
+      }
+
+      if ('updateOne' in operation || 'replaceOne' in operation) {
+        const write = 'updateOne' in operation
+          ? updateWrite(operation.updateOne.filter, operation.updateOne.update, operation.updateOne)
+          : replaceWrite(operation.replaceOne.filter, operation.replaceOne.replacement, operation.replaceOne.upsert);
+        const { filter } = 'updateOne' in operation ? operation.updateOne : operation.replaceOne;
+        addUpdateResult(result, index, this.updateResult(await this.modifyOne(filter, undefined, tracked(write))));
+        return false;
+      }
+
+      if ('updateMany' in operation) {
+        const { filter, update } = operation.updateMany;
+        let failed = false;
+        const updated = await this.updateEach(filter, update, operation.updateMany, (document, error) => {
+          failed = true;
+          fail(error, document._id);
+          return !ordered;
+        });
+        addUpdateResult(result, index, updated);
+        return failed;
+      }
+
+      if ('deleteOne' in operation) {
+        const { before } = await this.modifyOne(operation.deleteOne.filter, undefined, tracked({ modify: () => null }));
+        result.deletedCount += before ? 1 : 0;
+        return false;
+      }
+
+      if ('deleteMany' in operation) {
+        result.deletedCount += (await this.deleteMany(operation.deleteMany.filter)).deletedCount;
+        return false;
+      }
+
+      throw new ValidationError(`Unknown bulk write operation ${type}`);
+    } catch (error) {
+      fail(error, documentId);
+      return true;
+    }
+  }
+
+  /**
+   * Take a named lock shared with every instance using this channel, such as
+   * one guarding a scheduled job. The lease lapses after `ttlMs` unless
+   * renewed; waits up to `waitMs` and then throws a LockTimeoutError.
+   */
+  async acquireLock(name: string, options: LockOptions = {}): Promise<Lock> {
+    try {
+      return await this.lockManager.acquire(name, options);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Run a callback while holding a named lock, renewing the lease until the
+   * callback settles and then releasing it
+   */
+  async withLock<T>(name: string, callback: (lock: Lock) => Promise<T>, options: LockOptions = {}): Promise<T> {
+    try {
+      return await this.lockManager.withLock(name, callback, options);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Pull new messages now, whatever the age of the cache. Lock waits sync this
+   * way, so journals are left to the next sync rather than waiting on a
+   * recovery that may itself be waiting for the lock.
+   */
+  private async syncNow(): Promise<void> {
+    this.lastCacheUpdate = 0;
+    await this.getAllDocuments(false);
+  }
+
+  /**
+   * Run a callback in a transaction and commit its writes together, returning
+   * what the callback returns. Reads through the session see the collection as
+   * it was when the transaction started, plus the session's own writes, which
+   * are held back until the callback resolves; if it throws nothing is written.
+   * The commit records every change in a journal message before applying any,
+   * so a crash part way through is rolled back by the next instance to sync.
+   * When a document the transaction writes has changed since it started, the
+   * callback runs again, up to writeConflictRetries times.
+   */
+  async withTransaction<T>(callback: (session: TransactionSession) => Promise<T>): Promise<T> {
+    try {
+      for (let conflicts = 0; ; conflicts++) {
+        const documents = this.liveDocuments(await this.getAllDocuments());
+        const session = new TransactionSession(documents, {
+          prepareInsert: document => this.prepareDocumentForInsert(document),
+          textWeights: this.indexes.textWeights
+        });
+
+        let result: T;
+        try {
+          result = await callback(session);
+        } finally {
+          session.end();
+        }
+
+        try {
+          await this.commitTransaction(session.changes());
+          return result;
+        } catch (error) {
+          if (!(error instanceof WriteConflictError) || conflicts >= this.writeConflictRetries) {
+            throw error;
+          }
+        }
+      }
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Commit the changes of a transaction. The documents are locked and checked
+   * against the versions the transaction read, then written behind a journal:
+   * the journal goes first, then each change, then the journal is marked
+   * committed and deleted. A failed change rolls back the ones before it.
+   */
+  private async commitTransaction(changes: TransactionChange[]): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    const journal: TransactionJournal = {
+      _id: JOURNAL_ID_PREFIX + generateId(),
+      state: 'pending',
+      startedAt: Date.now(),
+      // The versions storeDocument will give the documents, so recovery can tell which changes landed
+      changes: changes.map(({ _id, before, after }) => ({
+        _id,
+        before,
+        after: after && { ...after, _version: (before?._version ?? 0) + 1 }
+      }))
+    };
+
+    let release: (() => Promise<void>) | undefined;
+    this.activeJournals.add(journal._id);
+    try {
+      release = await this.lockForWrites(changes.map(change => change._id));
+
+      for (const { _id, before } of changes) {
+        const current = this.cache.get(_id) ?? null;
+        if (!isSameVersion(current, before)) {
+          throw new WriteConflictError(
+            `Document "${_id}" was changed by another writer during the transaction`,
+            _id,
+            before?._version,
+            current?._version
+          );
+        }
+      }
+
+      const message = await this.writeDocument(journal);
+      journal._messageId = message.id;
+
+      const applied: TransactionChange[] = [];
+      try {
+        for (const change of journal.changes) {
+          await this.restoreDocument(change._id, change.after);
+          applied.push(change);
+        }
+        await this.writeDocument({ ...journal, state: 'committed' }, journal);
+      } catch (error) {
+        await this.rollBack(journal, applied);
+        throw error;
+      }
+      await this.removeJournal(journal);
+    } finally {
+      this.activeJournals.delete(journal._id);
+      await release?.();
+    }
+  }
+
+  /**
+   * Undo applied changes of a transaction, newest first, and delete its journal.
+   * If that fails the journal is left for recovery to finish the job.
+   */
+  private async rollBack(journal: TransactionJournal, applied: TransactionChange[]): Promise<void> {
+    try {
+      for (const change of [...applied].reverse()) {
+        await this.restoreDocument(change._id, change.before);
+      }
+      await this.removeJournal(journal);
+    } catch (error) {
+      console.error(`Failed to roll back transaction ${journal._id}, leaving it for recovery:`, error);
+    }
+  }
+
+  /**
+   * Give a document the content of one of its versions, or delete it for null
+   */
+  private async restoreDocument(id: string, target: DBDocument | null): Promise<void> {
+    const current = this.cache.get(id);
+    if (!target) {
+      if (current) {
+        await this.removeDocument(current);
+      }
+      return;
+    }
+
+    const document: DBDocument = { ...target };
+    delete document._messageId;
+    delete document._timestamp;
+    if (current) {
+      await this.storeDocument({ ...document, _messageId: current._messageId, _timestamp: current._timestamp }, current);
+    } else {
+      await this.storeDocument(document);
+    }
+  }
+
+  private async removeJournal(journal: TransactionJournal): Promise<void> {
+    try {
+      await this.removeDocument(journal);
+    } catch (error) {
+      console.warn(`Failed to delete the journal of transaction ${journal._id}:`, error);
+    }
+    this.journals.delete(journal._id);
+  }
+
+  /**
+   * Finish transactions that were interrupted, e.g. by a crash. Committed
+   * journals are deleted, and pending ones older than transactionTimeoutMs
+   * have the changes that reached their documents rolled back. Runs after a
+   * full sync; syncs during a run share it.
+   */
+  private async recoverTransactions(): Promise<void> {
+    if (!this.recovering) {
+      this.recovering = this.recoverJournals().finally(() => {
+        this.recovering = undefined;
+      });
+    }
+    return this.recovering;
+  }
+
+  private async recoverJournals(): Promise<void> {
+    const now = Date.now();
+    for (const journal of Array.from(this.journals.values())) {
+      const unfinished = journal.state === 'pending' && now - journal.startedAt < this.transactionTimeoutMs;
+      if (unfinished || this.activeJournals.has(journal._id)) {
+        continue;
+      }
+
+      try {
+        // Read it again: the transaction may have finished since the sync
+        const current = await this.readJournal(journal);
+        if (current?.state === 'pending') {
+          // Locked like any other write, so writers here are not overwritten
+          const release = await this.lockForWrites(current.changes.map(change => change._id));
+          try {
+            for (const change of [...current.changes].reverse()) {
+              if (wasApplied(this.cache.get(change._id), change)) {
+                await this.restoreDocument(change._id, change.before);
+              }
+            }
+          } finally {
+            await release();
+          }
+        }
+        if (current) {
+          await this.removeJournal(current);
+        }
+        this.journals.delete(journal._id);
+      } catch (error) {
+        console.warn(`Failed to recover transaction ${journal._id}:`, error);
+      }
+    }
+  }
+
+  private async readJournal(journal: TransactionJournal): Promise<TransactionJournal | null> {
+    const message = await this.fetchMessage(journal._messageId!);
+    const stored = message && await this.readMessage(message, new Map());
+    if (!stored || !isJournal(stored.document)) {
+      return null;
+    }
+    this.layouts.set(journal._id, stored.layout);
+    return { ...stored.document, _messageId: message!.id };
+  }
+
+  /**
+   * Delete documents and their continuation messages in bulk
+   */
+  private async removeDocuments(documents: DBDocument[]): Promise<void> {
+    if (documents.length === 0) {
+      return;
+    }
+
+    try {
+      await this.client.bulkDeleteMessages(documents.map(doc => doc._messageId!));
+    } catch (error) {
+      // Some headers may already be gone; resync from Discord on the next read
+      this.clearCache();
+      throw error;
+    }
+
+    const parts: string[] = [];
+    for (const doc of documents) {
+      this.cache.delete(doc._id!);
+      this.indexes.remove(doc._id!);
+      this.messageVersions.delete(doc._messageId!);
+      parts.push(...(this.layouts.get(doc._id!)?.parts || []));
+      this.layouts.delete(doc._id!);
+    }
+
+    if (parts.length > 0) {
+      try {
+        await this.client.bulkDeleteMessages(parts);
+      } catch (error) {
+        console.error('Failed to delete chunk messages:', error);
+      }
+    }
+  }
+
+  /**
+   * Delete the documents that TTL indexes have expired. Returns how many were
+   * deleted; calls made while a run is in progress share its result.
+   */
+  async reapExpired(): Promise<number> {
+    if (!this.reaping) {
+      this.reaping = this.removeExpired().finally(() => {
+        this.reaping = undefined;
+      });
+    }
+    return this.reaping;
+  }
+
+  /**
+   * Run reapExpired every `intervalMs` until stopTTLReaper is called. The timer
+   * does not keep the process alive.
+   */
+  startTTLReaper(intervalMs: number = DEFAULT_TTL_REAP_INTERVAL): void {
+    if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+      throw new ValidationError('The reap interval must be a positive number of milliseconds');
+    }
+
+    this.stopTTLReaper();
+    this.reaper = setInterval(() => {
+      this.reapExpired().catch(error => console.warn('Failed to delete expired documents:', error));
+    }, intervalMs);
+    this.reaper.unref?.();
+  }
+
+  stopTTLReaper(): void {
+    if (this.reaper) {
+      clearInterval(this.reaper);
+      this.reaper = undefined;
+    }
+  }
+
+  private async removeExpired(): Promise<number> {
+    try {
+      const documents = await this.getAllDocuments();
+      const now = Date.now();
+      const expired = documents.filter(doc => this.indexes.isExpired(doc, now));
+      await this.removeDocuments(expired);
+      return expired.length;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Documents that no TTL index has expired. Expired documents stay hidden
+   * from reads until the reaper deletes them.
+   */
+  private liveDocuments(documents: DBDocument[]): DBDocument[] {
+    if (!this.indexes.hasTTL) {
+      return documents;
+    }
+    const now = Date.now();
+    return documents.filter(doc => !this.indexes.isExpired(doc, now));
+  }
+
+  /**
+   * Run an aggregation pipeline over the documents in the collection
+   */
+  async aggregate<T = DBDocument>(pipeline: PipelineStage[]): Promise<T[]> {
+    try {
+      const documents = this.liveDocuments(await this.getAllDocuments());
+      const resolveSource = await this.loadSources(collectLookupSources(pipeline));
+      return runPipeline(documents, pipeline, resolveSource) as T[];
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a secondary index, build it over the current documents and persist
+   * it. Returns the index name. Queries are planned on the first field.
+   * With expireAfterSeconds the index also expires documents, see reapExpired.
+   */
+  async createIndex(spec: IndexSpec, options: IndexOptions = {}): Promise<string> {
+    try {
+      const fields = Object.entries(spec || {});
+      if (fields.length === 0 || fields.some(([, direction]) => direction !== 1 && direction !== -1 && direction !== 'text')) {
+        throw new ValidationError("Index fields must be given with a direction of 1 or -1, or as 'text'");
+      }
+      const ttl = options.expireAfterSeconds;
+      if (ttl !== undefined && (fields.length !== 1 || typeof ttl !== 'number' || !Number.isFinite(ttl) || ttl < 0)) {
+        throw new ValidationError('A TTL index needs a single date field and a non-negative expireAfterSeconds');
+      }
+      const isText = fields.some(([, direction]) => direction === 'text');
+      if (isText && (options.unique || ttl !== undefined)) {
+        throw new ValidationError('A text index cannot be unique or expire documents');
+      }
+      if (options.weights && (!isText || Object.entries(options.weights).some(([field, weight]) =>
+        spec[field] !== 'text' || typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0))) {
+        throw new ValidationError('Weights must be positive numbers for fields of a text index');
+      }
+
+      const documents = await this.getAllDocuments();
+      const name = options.name || indexName(spec);
+      const info: IndexInfo = { name, key: spec };
+      if (options.unique) {
+        info.unique = true;
+      }
+      if (ttl !== undefined) {
+        info.expireAfterSeconds = ttl;
+      }
+      if (options.weights) {
+        info.weights = options.weights;
+      }
+      if (this.indexes.create(info, documents)) {
+        await this.saveIndexes();
+      }
+      return name;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  async dropIndex(name: string): Promise<boolean> {
+    try {
+      await this.getAllDocuments();
+      if (!this.indexes.drop(name)) {
+        return false;
+      }
+      await this.saveIndexes();
+      return true;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  async listIndexes(): Promise<IndexInfo[]> {
+    try {
+      await this.getAllDocuments();
+      return this.indexes.list();
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Persist the index snapshot in its pinned message, so that a cold start
+   * only re-indexes documents written or edited after the last full sync.
+   * Index definitions are saved on creation and the entries after full syncs
+   * that follow changes; call this to refresh the entries sooner.
+   */
+  async saveIndexes(): Promise<void> {
+    try {
+      if (this.indexes.size === 0) {
+        if (this.indexMessageId) {
+          await this.client.deleteMessage(this.indexMessageId);
+          this.indexMessageId = undefined;
+        }
+        return;
+      }
+
+      const snapshot = this.indexes.snapshot(this.syncCursor, this.lastReconcile - CLOCK_SKEW_MARGIN);
+      const content = this.serializeDocument({ _id: INDEX_SNAPSHOT_ID, snapshot });
+      if (new TextEncoder().encode(content).length > MAX_ATTACHMENT_SIZE) {
+        console.warn('Index snapshot exceeds the attachment size limit and was not saved');
+        return;
+      }
+
+      // Snapshots are read from the pins alone, so larger ones always go in an attachment
+      const files: MessageFile[] = content.length > MAX_MESSAGE_LENGTH
+        ? [{ name: DOCUMENT_ATTACHMENT, data: content, contentType: 'application/json' }]
+        : [];
+      const headContent = files.length > 0 ? ATTACHMENT_MARKER : content;
+
+      if (this.indexMessageId) {
+        try {
+          await this.client.editMessage(this.indexMessageId, headContent, files);
+          return;
+        } catch (error) {
+          if (!(error instanceof DiscordDBError) || error.code !== 'NOT_FOUND') {
+            throw error;
+          }
+        }
+      }
+
+      const message = files.length > 0
+        ? await this.client.sendMessage(headContent, files)
+        : await this.client.sendMessage(headContent);
+      await this.client.pinMessage(message.id);
+      this.indexMessageId = message.id;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Load the index snapshot from the channel pins. Failures only cost a
+   * rebuild, so they are logged rather than thrown.
+   */
+  private async loadIndexes(): Promise<void> {
+    this.indexesLoaded = true;
+
+    try {
+      const pinned = await this.client.getPinnedMessages();
+      for (const message of pinned || []) {
+        const stored = await this.readMessage(message, new Map()).catch(() => null);
+        if (stored?.document._id === INDEX_SNAPSHOT_ID) {
+          this.indexMessageId = message.id;
+          this.indexes.restore(stored.document.snapshot as IndexSnapshot);
+          return;
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to load the index snapshot; indexes will be rebuilt:', error);
+    }
+  }
+
+  /**
+   * Whether a document's message predates a snapshot taken at `syncedAt` with the given cursor
+   */
+  private unchangedSince(doc: DBDocument, cursor: string | undefined, syncedAt: number): boolean {
+    const version = this.messageVersions.get(doc._messageId!);
+    return !!cursor && !!version &&
+      compareSnowflakes(doc._messageId!, cursor) <= 0 &&
+      Date.parse(version) <= syncedAt;
+  }
+
+  /**
+   * Filter documents, narrowing them down with an index or the _id first when possible.
+   * Candidates are checked against the filter, so the result is the same as a scan.
+   */
+  private matchDocuments(documents: DBDocument[], filter: Filter): DBDocument[] {
+    documents = this.liveDocuments(documents);
+    const matchOptions = { textWeights: this.indexes.textWeights };
+    let candidates = this.indexes.plan(filter);
+    if (filter && typeof filter._id === 'string') {
+      candidates = candidates?.has(filter._id) === false ? new Set() : new Set([filter._id]);
+    }
+
+    if (!candidates) {
+      return documents.filter(doc => matchesFilter(doc, filter, matchOptions));
+    }
+    if (candidates.size === 0) {
+      return [];
+    }
+    return documents.filter(doc => candidates!.has(doc._id!) && matchesFilter(doc, filter, matchOptions));
+  }
+
+  /**
+   * Scores documents for the $text search of a query, for sorting and
+   * projecting `{ $meta: 'textScore' }`
+   */
+  private textScorer(filter: Filter, options: QueryOptions): TextScorer | undefined {
+    const search = filter?.$text;
+    if (!search) {
+      const usesScore = [options.sort, options.projection].some(spec => Object.values(spec || {}).some(isTextScoreMeta));
+      if (usesScore) {
+        throw new ValidationError("{ $meta: 'textScore' } requires a $text query");
+      }
+      return undefined;
+    }
+
+    const weights = this.indexes.textWeights;
+    const scores: Map<string, number> = new Map();
+    return (doc) => {
+      if (!scores.has(doc._id!)) {
+        scores.set(doc._id!, textScore(doc, search as TextSearch, weights));
+      }
+      return scores.get(doc._id!);
+    };
+  }
+
+  async countDocuments(filter: Filter = {}): Promise<number> {
+    const documents = await this.getAllDocuments();
+    return this.matchDocuments(documents, filter).length;
+  }
+
+  async exists(filter: Filter): Promise<boolean> {
+    const count = await this.countDocuments(filter);
+    return count > 0;
+  }
+
+  async drop(): Promise<void> {
+    try {
+      // Expired documents are hidden from deleteMany; transaction journals and lock claims are not documents
+      await this.removeDocuments([...await this.getAllDocuments(), ...this.journals.values()]);
+      const claims = this.lockManager.messageIds();
+      if (claims.length > 0) {
+        await this.client.bulkDeleteMessages(claims);
+      }
+      this.cache.clear();
+      this.layouts.clear();
+      this.journals.clear();
+      this.lockManager.clear();
+
+      if (this.indexMessageId) {
+        await this.client.deleteMessage(this.indexMessageId);
+        this.indexMessageId = undefined;
+      }
+      this.indexes = new IndexManager();
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
 
   async ping(): Promise<boolean> {
     return this.client.testConnection();
@@ -335,10 +1752,102 @@ export class DiscordDB {
 
   clearCache(): void {
     this.cache.clear();
+    this.layouts.clear();
+    this.journals.clear();
+    this.lockManager.clear();
+    this.messageVersions.clear();
+    this.indexes.clear();
+    this.syncCursor = undefined;
+    this.lastReconcile = 0;
     this.lastCacheUpdate = 0;
   }
 
+  /**
+   * Resolve collection names used in $lookup and populate, e.g. to other
+   * collections of a Database. Without a resolver, sources must be instances.
+   */
+  setCollectionResolver(resolver: (name: string) => Promise<LookupSource>): void {
+    this.collectionResolver = resolver;
+  }
+
+  /**
+   * Load the documents of every join source up front, since pipelines run synchronously
+   */
+  private async loadSources(sources: Array<string | LookupSource>): Promise<SourceResolver> {
+    const loaded: Map<string | LookupSource, DBDocument[]> = new Map();
+
+    for (const source of sources) {
+      if (loaded.has(source)) {
+        continue;
+      }
+
+      let collection: LookupSource;
+      if (typeof source === 'string') {
+        if (!this.collectionResolver) {
+          throw new ValidationError(`Cannot resolve collection "${source}"; pass a DiscordDB instance as the source instead`);
+        }
+        collection = await this.collectionResolver(source);
+      } else if (source && typeof source.find === 'function') {
+        collection = source;
+      } else {
+        throw new ValidationError('Join source must be a collection name or a DiscordDB instance');
+      }
+
+      loaded.set(source, (await collection.find()).documents);
+    }
+
+    return (source) => {
+      const documents = loaded.get(source);
+      if (!documents) {
+        throw new ValidationError('Join source was not loaded');
+      }
+      return documents;
+    };
+  }
+
   setCacheTimeout(timeoutMs: number): void {
     this.cacheTimeout = timeoutMs;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Version of a message's content, changing whenever the message is edited
+ */
+function messageVersion(message: DiscordMessage): string {
+  return message.edited_timestamp || message.timestamp;
+}
+
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+}
+
+/**
+ * Whether a document is still the version a transaction read: the same
+ * _version or, for documents stored before versions existed, the same object
+ */
+function isSameVersion(current: DBDocument | null, read: DBDocument | null): boolean {
+  if (!current || !read) {
+    return current === read;
+  }
+  return current._version === undefined ? current === read : current._version === read._version;
+}
+
+/**
+ * Whether a journaled change reached its document: the document holds the
+ * version the change writes, or is gone when the change deletes it
+ */
+function wasApplied(current: DBDocument | undefined, change: TransactionChange): boolean {
+  return change.after ? current?._version === change.after._version : !current;
+}
+
+/**
+ * Add the counts of an update or replace to a bulk write result
+ */
+function addUpdateResult(result: BulkWriteResult, index: number, update: UpdateResult): void {
+  result.matchedCount += update.matchedCount;
+  result.modifiedCount += update.modifiedCount;
+  if (update.upsertedId !== undefined) {
+    result.upsertedCount++;
+    result.upsertedIds[index] = update.upsertedId;
+  }
+}
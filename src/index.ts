@@ -1,25 +1,66 @@
 // Main exports
 export { DiscordDB } from './discord-db';
+export { Database } from './database';
+export { LockManager, Lock } from './lock-manager';
 
 // Type exports
 export type {
   DiscordDBConfig,
+  DatabaseConfig,
+  CollectionType,
+  CollectionInfo,
   DBDocument,
   Filter,
   FilterOperators,
   FilterValue,
+  FieldType,
+  TextSearch,
+  TextScoreMeta,
   UpdateFilter,
   UpdateOperators,
+  PushModifiers,
+  UpdateOptions,
   QueryOptions,
+  FindOneAndUpdateOptions,
+  FindOneAndReplaceOptions,
+  FindOneAndDeleteOptions,
   SortOption,
   SortDirection,
   InsertResult,
   UpdateResult,
   DeleteResult,
   FindResult,
+  BulkWriteOperation,
+  BulkWriteOptions,
+  LockOptions,
+  BulkWriteResult,
+  BulkWriteFailure,
   DiscordMessage,
+  DiscordChannel,
+  DiscordAttachment,
+  MessageFile,
+  AttachmentMode,
   EncryptedData,
-  EncryptionOptions
+  EncryptionOptions,
+  ByteCodec,
+  TextCodec,
+  CodecOptions,
+  SyncOptions,
+  HistoryLimitMode,
+  RateLimitOptions,
+  RetryOptions,
+  PipelineStage,
+  GroupStage,
+  UnwindOptions,
+  Accumulator,
+  Expression,
+  LookupStage,
+  LookupSource,
+  PopulateOptions,
+  IndexDirection,
+  IndexSpec,
+  IndexOptions,
+  IndexInfo
 } from './types';
 
 // Error exports
@@ -27,16 +68,40 @@ export {
   DiscordDBError,
   ValidationError,
   AuthenticationError,
-  NetworkError
+  NetworkError,
+  RateLimitError,
+  HistoryLimitError,
+  DuplicateKeyError,
+  WriteConflictError,
+  LockTimeoutError,
+  BulkWriteError
 } from './types';
 
 // Utility exports (for advanced usage)
 export { matchesFilter, sortDocuments, applyProjection, applyPagination } from './utils/filters';
-export { applyUpdate, validateUpdate } from './utils/updates';
+export { applyUpdate, validateUpdate, validateReplacement, buildUpsertDocument } from './utils/updates';
+export { TransactionSession } from './utils/transactions';
+export { runPipeline, populateDocuments } from './utils/aggregation';
+export { evaluateExpression } from './utils/expressions';
+export { tokenize, stem, textTerms } from './utils/text';
+export { compareSnowflakes } from './utils/snowflake';
 
 // Encryption exports
 export { EncryptionService, encrypt, decrypt } from './utils/encryption';
 
+// Codec exports
+export {
+  CodecRegistry,
+  CodecPipeline,
+  deflateCodec,
+  brotliCodec,
+  base64Codec,
+  base2048Codec,
+  encodeBase2048,
+  decodeBase2048,
+  isCodecEncoded
+} from './utils/codecs';
+
 // Client export (for advanced usage)
 export { DiscordClient } from './client/discord-client';
 
@@ -0,0 +1,287 @@
+import { DiscordClient } from './client/discord-client';
+import { sleep } from './client/rate-limiter';
+import { compareSnowflakes } from './utils/snowflake';
+import { DiscordMessage, LockOptions, ValidationError, NetworkError, LockTimeoutError } from './types';
+
+const LOCK_PREFIX = 'ddb:lock:';
+const DEFAULT_LOCK_TTL = 30 * 1000; // 30 seconds
+const DEFAULT_LOCK_WAIT = 10 * 1000; // 10 seconds
+const DEFAULT_RETRY_INTERVAL = 1000; // 1 second
+
+// A claim on a lock, as stored in its message
+interface LockClaim {
+  messageId: string;
+  name: string;
+  owner: string; // the LockManager that made the claim
+  ttlMs: number;
+  expiresAt: number; // ms since the epoch
+}
+
+/**
+ * A held lock. Its lease lapses at `expiresAt` unless renewed, after which
+ * another instance may take the lock.
+ */
+export class Lock {
+  private released = false;
+
+  constructor(private manager: LockManager, private claim: LockClaim) {}
+
+  get name(): string {
+    return this.claim.name;
+  }
+
+  /**
+   * Id of the claim message. Later holders of a lock always have larger
+   * tokens (compare them with compareSnowflakes), so a resource that remembers
+   * the largest token it has seen can refuse writes from a holder whose lease
+   * lapsed without it noticing.
+   */
+  get fencingToken(): string {
+    return this.claim.messageId;
+  }
+
+  get expiresAt(): number {
+    return this.claim.expiresAt;
+  }
+
+  get held(): boolean {
+    return !this.released && Date.now() < this.claim.expiresAt;
+  }
+
+  /**
+   * Extend the lease by `ttlMs`, by default the lease's original length.
+   * Returns false when the lock was released or its lease already lapsed;
+   * it may then belong to someone else.
+   */
+  async renew(ttlMs = this.claim.ttlMs): Promise<boolean> {
+    if (!this.held) {
+      return false;
+    }
+    const renewed = await this.manager.renewClaim(this.claim, ttlMs);
+    if (!renewed) {
+      this.released = true;
+      return false;
+    }
+    this.claim = renewed;
+    return true;
+  }
+
+  async release(): Promise<void> {
+    if (!this.released) {
+      this.released = true;
+      await this.manager.deleteClaim(this.claim);
+    }
+  }
+}
+
+/**
+ * Named locks shared by every instance writing to a channel. Taking a lock
+ * posts a claim message; the earliest claim whose lease has not lapsed holds
+ * the lock and later ones wait their turn. Claim messages are hidden from
+ * documents, and claims are learned from the channel through `sync`, which
+ * must pass every message it reads to `observe`.
+ */
+export class LockManager {
+  private claims: Map<string, LockClaim> = new Map(); // by message id
+  private owner = Date.now().toString(36) + Math.random().toString(36).substr(2);
+
+  constructor(private client: DiscordClient, private sync: () => Promise<void>) {}
+
+  /**
+   * Take a lock, waiting up to `waitMs` for the claims ahead to be released or
+   * lapse. Throws a LockTimeoutError when the wait runs out.
+   */
+  async acquire(name: string, options: LockOptions = {}): Promise<Lock> {
+    const ttlMs = options.ttlMs ?? DEFAULT_LOCK_TTL;
+    const waitMs = options.waitMs ?? DEFAULT_LOCK_WAIT;
+    if (typeof name !== 'string' || name.length === 0) {
+      throw new ValidationError('A lock name must be a non-empty string');
+    }
+    if (!Number.isFinite(ttlMs) || ttlMs <= 0 || !(waitMs >= 0)) {
+      throw new ValidationError('ttlMs must be a positive number and waitMs a non-negative one');
+    }
+    // Waiting claims are renewed between checks, so checks come at least twice per lease
+    const retryMs = Math.min(options.retryIntervalMs ?? DEFAULT_RETRY_INTERVAL, ttlMs / 2);
+    const deadline = Date.now() + waitMs;
+
+    let claim = await this.sendClaim(name, ttlMs);
+    try {
+      for (;;) {
+        // Every claim made before ours must be known when deciding who holds the lock
+        await this.sync();
+        const holder = await this.holder(claim);
+        if (holder === claim) {
+          return new Lock(this, claim);
+        }
+
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          throw new LockTimeoutError(`Timed out after ${waitMs} ms waiting for lock "${name}"`, name, waitMs);
+        }
+        await sleep(Math.min(retryMs, remaining));
+
+        // Keep our place in line, or queue again if another instance deleted our lapsed claim
+        if (claim.expiresAt - Date.now() < ttlMs / 2) {
+          claim = await this.renewClaim(claim, ttlMs) ?? await this.sendClaim(name, ttlMs);
+        }
+      }
+    } catch (error) {
+      await this.deleteClaim(claim).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a callback while holding a lock, renewing its lease in the background
+   * and releasing it afterwards
+   */
+  async withLock<T>(name: string, callback: (lock: Lock) => Promise<T>, options: LockOptions = {}): Promise<T> {
+    const lock = await this.acquire(name, options);
+    // A third of the lease leaves room for one renewal to fail
+    const timer = setInterval(() => {
+      lock.renew().catch(error => console.warn(`Failed to renew lock "${name}":`, error));
+    }, (options.ttlMs ?? DEFAULT_LOCK_TTL) / 3);
+    timer.unref?.();
+
+    try {
+      return await callback(lock);
+    } finally {
+      clearInterval(timer);
+      await lock.release();
+    }
+  }
+
+  /**
+   * Record a message if it is a lock claim. Returns whether it was one.
+   */
+  observe(message: DiscordMessage): boolean {
+    const claim = decodeClaim(message);
+    if (claim) {
+      this.claims.set(claim.messageId, claim);
+    }
+    return claim !== null || message.content.startsWith(LOCK_PREFIX);
+  }
+
+  /**
+   * Ids of the claim messages seen so far, whether held, waiting or lapsed
+   */
+  messageIds(): string[] {
+    return Array.from(this.claims.keys());
+  }
+
+  /**
+   * Forget the claims seen so far, before a full sync reads them again
+   */
+  clear(): void {
+    this.claims.clear();
+  }
+
+  /**
+   * Push a claim's lease out to `ttlMs` from now. Returns the renewed claim,
+   * or undefined when its message is gone.
+   */
+  async renewClaim(claim: LockClaim, ttlMs: number): Promise<LockClaim | undefined> {
+    try {
+      const message = await this.client.editMessage(claim.messageId, encodeClaim(claim.name, this.owner, ttlMs));
+      const renewed = { ...claim, ttlMs, expiresAt: messageTime(message) + ttlMs };
+      this.claims.set(renewed.messageId, renewed);
+      return renewed;
+    } catch (error) {
+      if (isNotFound(error)) {
+        this.claims.delete(claim.messageId);
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async deleteClaim(claim: LockClaim): Promise<void> {
+    this.claims.delete(claim.messageId);
+    try {
+      await this.client.deleteMessage(claim.messageId);
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  }
+
+  private async sendClaim(name: string, ttlMs: number): Promise<LockClaim> {
+    const message = await this.client.sendMessage(encodeClaim(name, this.owner, ttlMs));
+    const claim = { messageId: message.id, name, owner: this.owner, ttlMs, expiresAt: messageTime(message) + ttlMs };
+    this.claims.set(claim.messageId, claim);
+    return claim;
+  }
+
+  /**
+   * The claim holding the lock, from the point of view of our own claim: the
+   * earliest earlier claim still in force, or ours when there is none. Earlier
+   * claims are read again, since renewals and releases are edits and deletions
+   * a sync does not see. Lapsed claims are deleted on the way.
+   */
+  private async holder(own: LockClaim): Promise<LockClaim> {
+    const earlier = Array.from(this.claims.values())
+      .filter(claim => claim.name === own.name && compareSnowflakes(claim.messageId, own.messageId) < 0)
+      .sort((a, b) => compareSnowflakes(a.messageId, b.messageId));
+
+    for (const claim of earlier) {
+      const current = await this.readClaim(claim.messageId);
+      if (current && current.expiresAt > Date.now()) {
+        return current;
+      }
+      if (current) {
+        await this.deleteClaim(current);
+      }
+    }
+    return own;
+  }
+
+  private async readClaim(messageId: string): Promise<LockClaim | undefined> {
+    try {
+      const claim = decodeClaim(await this.client.getMessage(messageId));
+      if (claim) {
+        this.claims.set(messageId, claim);
+        return claim;
+      }
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+    this.claims.delete(messageId);
+    return undefined;
+  }
+}
+
+function encodeClaim(name: string, owner: string, ttlMs: number): string {
+  // renewedAt makes every renewal a real edit, which moves the edit timestamp
+  return LOCK_PREFIX + JSON.stringify({ name, owner, ttlMs, renewedAt: Date.now() });
+}
+
+function decodeClaim(message: DiscordMessage): LockClaim | null {
+  if (!message.content.startsWith(LOCK_PREFIX)) {
+    return null;
+  }
+  try {
+    const { name, owner, ttlMs } = JSON.parse(message.content.slice(LOCK_PREFIX.length));
+    if (typeof name !== 'string' || typeof ttlMs !== 'number') {
+      return null;
+    }
+    return { messageId: message.id, name, owner, ttlMs, expiresAt: messageTime(message) + ttlMs };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * When a message was last written according to Discord, so that every
+ * instance times a lease from the same moment
+ */
+function messageTime(message: DiscordMessage): number {
+  const time = Date.parse(message.edited_timestamp || message.timestamp);
+  return Number.isNaN(time) ? Date.now() : time;
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof NetworkError && error.code === 'NOT_FOUND';
+}
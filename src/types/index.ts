@@ -25,7 +25,7 @@ export interface DiscordMessage {
   type: number;
   mentions: any[];
   mention_roles: string[];
-  attachments: any[];
+  attachments: DiscordAttachment[];
   embeds: any[];
   flags: number;
   components: any[];
@@ -34,14 +34,95 @@ export interface DiscordMessage {
   tts: boolean;
 }
 
+export interface DiscordChannel {
+  id: string;
+  type: number;
+  name?: string;
+  guild_id?: string;
+  parent_id?: string | null;
+}
+
+export interface DiscordAttachment {
+  id: string;
+  filename: string;
+  size: number;
+  url: string;
+  proxy_url: string;
+  content_type?: string;
+}
+
+// File uploaded alongside a message
+export interface MessageFile {
+  name: string;
+  data: string | Uint8Array;
+  contentType?: string;
+}
+
 // Database Configuration
 export interface DiscordDBConfig {
   botToken: string;
   channelId: string;
   baseURL?: string;
   encryptionKey?: string; // Optional encryption key
+  attachmentMode?: AttachmentMode; // Store documents as JSON attachments (optional)
+  codec?: CodecOptions; // Compress and densely encode stored documents (optional)
+  sync?: SyncOptions; // How the document cache is refreshed (optional)
+  maxMessages?: number; // Cap on messages scanned per full sync, unlimited by default
+  historyLimitMode?: HistoryLimitMode; // What to do when the cap is exceeded, defaults to 'warn'
+  rateLimit?: RateLimitOptions; // Rate limit scheduling (optional)
+  retry?: RetryOptions; // Retries and request timeouts, disabled by default
+  writeConflictRetries?: number; // Retries of a document write that lost to another writer, defaults to 3
+  transactionTimeoutMs?: number; // Age at which an unfinished transaction is rolled back by recovery, defaults to 1 minute
+  writeLocks?: LockOptions; // Take a distributed lock on each document while writing it (optional)
+}
+
+export interface LockOptions {
+  ttlMs?: number; // Length of the lease, defaults to 30 seconds
+  waitMs?: number; // How long to wait for the lock before a LockTimeoutError, defaults to 10 seconds
+  retryIntervalMs?: number; // Pause between checks while waiting, defaults to 1 second
+}
+
+export interface RateLimitOptions {
+  maxWaitMs?: number; // Longest a request may be delayed before a RateLimitError, defaults to 60 seconds
+}
+
+export interface RetryOptions {
+  maxAttempts?: number; // Attempts per request including the first, defaults to 1 (no retries)
+  baseDelayMs?: number; // Backoff before the first retry, doubled on each attempt, defaults to 500
+  maxDelayMs?: number; // Upper bound on the backoff, defaults to 10 seconds
+  jitter?: boolean; // Randomize each backoff between 0 and its full length, defaults to true
+  retryableStatusCodes?: number[]; // Defaults to 500, 502, 503 and 504
+  retryOnNetworkError?: boolean; // Retry dropped connections and timeouts, defaults to true
+  timeoutMs?: number; // Abort requests that take longer than this, no timeout by default
+}
+
+export type HistoryLimitMode = 'warn' | 'error';
+
+export interface SyncOptions {
+  mode?: 'incremental' | 'full'; // Defaults to 'incremental'
+  reconcileIntervalMs?: number; // Full rescan interval that picks up edits and deletions, defaults to 5 minutes
+}
+
+// Multi-collection database configuration
+export interface DatabaseConfig extends Omit<DiscordDBConfig, 'channelId'> {
+  metadataChannelId: string; // Channel holding the collection catalog
+  collectionType?: CollectionType; // Defaults to 'thread'
+  guildId?: string; // Required when collections are channels
+  parentId?: string; // Category for collection channels, or channel for threads
+}
+
+export type CollectionType = 'channel' | 'thread';
+
+export interface CollectionInfo {
+  name: string;
+  channelId: string;
+  type: CollectionType;
+  createdAt: string;
 }
 
+// 'oversized' stores only documents over the message limit as attachments
+export type AttachmentMode = 'oversized' | 'always';
+
 // Encryption Types
 export interface EncryptedData {
   data: string;
@@ -53,16 +134,45 @@ export interface EncryptionOptions {
   algorithm?: string;
 }
 
+// Codec Types
+export interface ByteCodec {
+  name: string;
+  encode(data: Uint8Array): Uint8Array;
+  decode(data: Uint8Array): Uint8Array;
+}
+
+export interface TextCodec {
+  name: string;
+  encode(data: Uint8Array): string;
+  decode(text: string): Uint8Array;
+}
+
+export interface CodecOptions {
+  compression?: 'deflate' | 'brotli' | 'none' | ByteCodec;
+  encoding?: 'base64' | 'base2048' | TextCodec;
+}
+
 // Database Document Interface
 export interface DBDocument {
   _id?: string;
   _timestamp?: string;
   _messageId?: string;
+  _version?: number; // Incremented on every write, maintained by DiscordDB
   [key: string]: any;
 }
 
 // Query Filter Types (MongoDB-like)
-export type FilterValue = string | number | boolean | Date | RegExp | FilterValue[] | FilterOperators;
+export type FilterValue = string | number | boolean | Date | RegExp | FilterValue[] | FilterOperators | TextSearch;
+
+// Full-text search, e.g. { $text: { $search: 'meeting "action items" -draft' } }
+export interface TextSearch {
+  $search: string; // Terms, "quoted phrases" and -negated terms
+}
+
+// Sorts or projects the relevance score of a $text search
+export interface TextScoreMeta {
+  $meta: 'textScore';
+}
 
 export interface FilterOperators {
   $eq?: any;
@@ -76,11 +186,20 @@ export interface FilterOperators {
   $exists?: boolean;
   $regex?: string | RegExp;
   $options?: string;
-  $and?: Filter[];
-  $or?: Filter[];
-  $not?: Filter;
+  $all?: any[];
+  $elemMatch?: Filter | FilterOperators; // A filter for object elements, or operators for scalar elements
+  $size?: number;
+  $type?: FieldType | FieldType[];
+  $mod?: [number, number]; // [divisor, remainder]
+  $not?: FilterOperators | RegExp;
 }
 
+// Type names for $type, with MongoDB's numeric aliases
+export type FieldType =
+  | 'string' | 'number' | 'double' | 'int' | 'long' | 'decimal' | 'bool'
+  | 'object' | 'array' | 'null' | 'date' | 'regex'
+  | 1 | 2 | 3 | 4 | 8 | 9 | 10 | 11 | 16 | 18 | 19;
+
 export type Filter = {
   [key: string]: FilterValue;
 };
@@ -90,15 +209,35 @@ export interface UpdateOperators {
   $set?: Partial<DBDocument>;
   $unset?: { [key: string]: 1 | true };
   $inc?: { [key: string]: number };
-  $push?: { [key: string]: any };
-  $pull?: { [key: string]: any };
-  $addToSet?: { [key: string]: any };
+  $mul?: { [key: string]: number };
+  $min?: { [key: string]: any }; // Only set when lower than the current value
+  $max?: { [key: string]: any }; // Only set when higher than the current value
+  $rename?: { [key: string]: string };
+  $currentDate?: { [key: string]: true | { $type: 'date' | 'timestamp' } };
+  $push?: { [key: string]: any }; // A value, or PushModifiers to add several
+  $pop?: { [key: string]: 1 | -1 };
+  $pull?: { [key: string]: any }; // A value, or a condition on elements
+  $pullAll?: { [key: string]: any[] };
+  $addToSet?: { [key: string]: any }; // A value, or { $each: [...] }
+  $setOnInsert?: Partial<DBDocument>; // Only applied when an upsert inserts the document
+}
+
+export interface PushModifiers {
+  $each: any[];
+  $position?: number; // Insert at this index instead of appending; negative counts from the end
+  $slice?: number; // Keep the first n elements, or the last -n
+  $sort?: 1 | -1 | { [field: string]: 1 | -1 };
 }
 
 export type UpdateFilter = UpdateOperators | Partial<DBDocument>;
 
+export interface UpdateOptions {
+  upsert?: boolean; // Insert a document when nothing matches the filter
+  arrayFilters?: Filter[]; // Element conditions for $[identifier] paths, e.g. [{ 'item.done': false }]
+}
+
 // Sort Options
-export type SortDirection = 1 | -1 | 'asc' | 'desc';
+export type SortDirection = 1 | -1 | 'asc' | 'desc' | TextScoreMeta;
 export type SortOption = {
   [key: string]: SortDirection;
 };
@@ -108,7 +247,97 @@ export interface QueryOptions {
   limit?: number;
   skip?: number;
   sort?: SortOption;
-  projection?: { [key: string]: 1 | 0 };
+  projection?: { [key: string]: 1 | 0 | TextScoreMeta };
+  populate?: PopulateOptions | PopulateOptions[];
+}
+
+// Find-and-modify Options
+export interface FindOneAndDeleteOptions {
+  sort?: SortOption; // Picks the document when several match
+  projection?: QueryOptions['projection'];
+}
+
+export interface FindOneAndUpdateOptions extends FindOneAndDeleteOptions, UpdateOptions {
+  returnDocument?: 'before' | 'after'; // Defaults to 'before'
+}
+
+export type FindOneAndReplaceOptions = FindOneAndUpdateOptions;
+
+// Aggregation Pipeline
+// Expressions are field paths ('$field.path'), literals or objects of expressions
+export type Expression = any;
+
+export type Accumulator =
+  | { $sum: Expression }
+  | { $avg: Expression }
+  | { $min: Expression }
+  | { $max: Expression }
+  | { $push: Expression }
+  | { $addToSet: Expression }
+  | { $first: Expression }
+  | { $last: Expression };
+
+export interface GroupStage {
+  _id: Expression;
+  [field: string]: Expression | Accumulator;
+}
+
+export interface UnwindOptions {
+  path: string;
+  includeArrayIndex?: string;
+  preserveNullAndEmptyArrays?: boolean;
+}
+
+// Anything documents can be joined from, e.g. another DiscordDB instance
+export interface LookupSource {
+  find(filter?: Filter, options?: QueryOptions): Promise<FindResult<any>>;
+}
+
+export interface LookupStage {
+  from: string | LookupSource; // A collection name (within a Database) or a DiscordDB instance
+  localField?: string;
+  foreignField?: string;
+  let?: { [name: string]: Expression }; // Variables available as '$$name' in the pipeline
+  pipeline?: PipelineStage[];
+  as: string;
+}
+
+export interface PopulateOptions {
+  path: string; // Field holding the reference (or an array of references)
+  from: string | LookupSource;
+  foreignField?: string; // Defaults to '_id'
+  as?: string; // Defaults to replacing the reference at path
+}
+
+export type PipelineStage =
+  | { $match: Filter }
+  | { $lookup: LookupStage }
+  | { $group: GroupStage }
+  | { $project: { [key: string]: 0 | 1 | boolean | Expression } }
+  | { $sort: SortOption }
+  | { $skip: number }
+  | { $limit: number }
+  | { $unwind: string | UnwindOptions }
+  | { $count: string }
+  | { $addFields: { [key: string]: Expression } };
+
+// Indexes
+export type IndexDirection = 1 | -1 | 'text';
+export type IndexSpec = { [field: string]: IndexDirection };
+
+export interface IndexOptions {
+  name?: string; // Defaults to the fields and directions, e.g. 'age_1'
+  unique?: boolean; // Reject documents that share the indexed values with another document
+  expireAfterSeconds?: number; // Make this a TTL index: documents expire this long after the indexed date
+  weights?: { [field: string]: number }; // Relevance weights of text index fields, 1 by default
+}
+
+export interface IndexInfo {
+  name: string;
+  key: IndexSpec;
+  unique?: boolean;
+  expireAfterSeconds?: number;
+  weights?: { [field: string]: number };
 }
 
 // Results
@@ -130,6 +359,36 @@ export interface DeleteResult {
   deletedCount: number;
 }
 
+// Bulk Writes
+export type BulkWriteOperation =
+  | { insertOne: { document: Partial<DBDocument> } }
+  | { updateOne: { filter: Filter; update: UpdateFilter } & UpdateOptions }
+  | { updateMany: { filter: Filter; update: UpdateFilter } & UpdateOptions }
+  | { replaceOne: { filter: Filter; replacement: Partial<DBDocument>; upsert?: boolean } }
+  | { deleteOne: { filter: Filter } }
+  | { deleteMany: { filter: Filter } };
+
+export interface BulkWriteOptions {
+  ordered?: boolean; // Stop at the first failure (default) or run every operation
+}
+
+export interface BulkWriteResult {
+  acknowledged: boolean;
+  insertedCount: number;
+  matchedCount: number;
+  modifiedCount: number;
+  deletedCount: number;
+  upsertedCount: number;
+  insertedIds: { [index: number]: string }; // By position of the operation
+  upsertedIds: { [index: number]: string };
+}
+
+export interface BulkWriteFailure {
+  index: number; // Position of the failed operation
+  documentId?: string; // The document being written, when known
+  error: Error;
+}
+
 export interface FindResult<T = DBDocument> {
   documents: T[];
   total: number;
@@ -157,7 +416,43 @@ export class AuthenticationError extends DiscordDBError {
 }
 
 export class NetworkError extends DiscordDBError {
-  constructor(message: string) {
-    super(message, 'NETWORK_ERROR');
+  constructor(message: string, code = 'NETWORK_ERROR') {
+    super(message, code);
+  }
+}
+
+export class RateLimitError extends NetworkError {
+  constructor(message: string, public retryAfter: number, public global = false) {
+    super(message, 'RATE_LIMITED');
+  }
+}
+
+export class HistoryLimitError extends DiscordDBError {
+  constructor(message: string, public limit: number) {
+    super(message, 'HISTORY_LIMIT');
   }
-} 
\ No newline at end of file
+}
+
+export class DuplicateKeyError extends DiscordDBError {
+  constructor(message: string, public index: string, public keyValue: { [field: string]: any }) {
+    super(message, 'DUPLICATE_KEY');
+  }
+}
+
+export class WriteConflictError extends DiscordDBError {
+  constructor(message: string, public documentId: string, public expectedVersion?: number, public actualVersion?: number) {
+    super(message, 'WRITE_CONFLICT');
+  }
+}
+
+export class LockTimeoutError extends DiscordDBError {
+  constructor(message: string, public lockName: string, public waitMs: number) {
+    super(message, 'LOCK_TIMEOUT');
+  }
+}
+
+export class BulkWriteError extends DiscordDBError {
+  constructor(message: string, public writeErrors: BulkWriteFailure[], public result: BulkWriteResult) {
+    super(message, 'BULK_WRITE_ERROR');
+  }
+}
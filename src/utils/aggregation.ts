@@ -0,0 +1,396 @@
+import {
+  DBDocument,
+  PipelineStage,
+  GroupStage,
+  UnwindOptions,
+  LookupStage,
+  LookupSource,
+  PopulateOptions,
+  ValidationError
+} from '../types';
+import { matchesFilter, sortDocuments, applyPagination, getNestedValue, compareValues, compareForSort } from './filters';
+import { evaluateExpression, isPlainObject } from './expressions';
+
+export { evaluateExpression };
+
+const ACCUMULATORS = new Set(['$sum', '$avg', '$min', '$max', '$push', '$addToSet', '$first', '$last']);
+
+/**
+ * Returns the documents of a $lookup or populate source. Sources are loaded
+ * up front by the caller, since pipelines are evaluated synchronously.
+ */
+export type SourceResolver = (from: string | LookupSource) => DBDocument[];
+
+/**
+ * Runs an aggregation pipeline over a set of documents. Stages never mutate
+ * their input, so the documents may come straight from the cache.
+ */
+export function runPipeline(documents: DBDocument[], pipeline: PipelineStage[], resolveSource?: SourceResolver): DBDocument[] {
+  if (!Array.isArray(pipeline)) {
+    throw new ValidationError('Aggregation pipeline must be an array of stages');
+  }
+
+  return pipeline.reduce((current, stage) => runStage(current, stage, resolveSource), documents);
+}
+
+/**
+ * Lists the sources referenced by $lookup stages, including nested pipelines
+ */
+export function collectLookupSources(pipeline: PipelineStage[]): Array<string | LookupSource> {
+  const sources: Array<string | LookupSource> = [];
+
+  for (const stage of Array.isArray(pipeline) ? pipeline : []) {
+    const lookup = (stage as { $lookup?: LookupStage })?.$lookup;
+    if (lookup) {
+      sources.push(lookup.from, ...collectLookupSources(lookup.pipeline || []));
+    }
+  }
+
+  return sources.filter((source, index) => sources.indexOf(source) === index);
+}
+
+function runStage(documents: DBDocument[], stage: PipelineStage, resolveSource?: SourceResolver): DBDocument[] {
+  const keys = stage && typeof stage === 'object' ? Object.keys(stage) : [];
+  if (keys.length !== 1) {
+    throw new ValidationError('Each pipeline stage must have exactly one operator');
+  }
+
+  const operator = keys[0];
+  const spec = (stage as any)[operator];
+
+  switch (operator) {
+    case '$match':
+      return documents.filter(doc => matchesFilter(doc, spec));
+
+    case '$lookup':
+      return lookup(documents, spec, resolveSource);
+
+    case '$group':
+      return group(documents, spec);
+
+    case '$project':
+      return documents.map(doc => project(doc, spec));
+
+    case '$sort':
+      return sortDocuments(documents, spec);
+
+    case '$skip':
+      return applyPagination(documents, requireCount(operator, spec));
+
+    case '$limit':
+      return applyPagination(documents, 0, requireCount(operator, spec));
+
+    case '$unwind':
+      return unwind(documents, typeof spec === 'string' ? { path: spec } : spec);
+
+    case '$count':
+      if (typeof spec !== 'string' || !spec || spec.startsWith('$') || spec.includes('.')) {
+        throw new ValidationError('$count requires a field name that does not start with $ or contain a dot');
+      }
+      return documents.length > 0 ? [{ [spec]: documents.length }] : [];
+
+    case '$addFields':
+      return documents.map(doc => {
+        let result = doc;
+        for (const [field, expression] of Object.entries(spec)) {
+          result = setField(result, field, evaluateExpression(doc, expression));
+        }
+        return result;
+      });
+
+    default:
+      throw new ValidationError(`Unknown pipeline stage ${operator}`);
+  }
+}
+
+/**
+ * $lookup: joins documents whose foreignField equals the localField (either
+ * side may be an array), then runs the optional pipeline over the joined
+ * documents with the `let` variables substituted for '$$name' references
+ */
+function lookup(documents: DBDocument[], spec: LookupStage, resolveSource?: SourceResolver): DBDocument[] {
+  if (!spec || !spec.from || typeof spec.as !== 'string' || !spec.as) {
+    throw new ValidationError('$lookup requires from and as');
+  }
+  if (!spec.pipeline && (!spec.localField || !spec.foreignField)) {
+    throw new ValidationError('$lookup requires localField and foreignField, or a pipeline');
+  }
+  if (!resolveSource) {
+    throw new ValidationError('$lookup is not available without a collection resolver');
+  }
+
+  const foreignDocuments = resolveSource(spec.from);
+
+  return documents.map(doc => {
+    let joined = foreignDocuments;
+
+    if (spec.localField && spec.foreignField) {
+      const localValue = getNestedValue(doc, spec.localField) ?? null;
+      joined = joined.filter(foreign => valuesMatch(localValue, getNestedValue(foreign, spec.foreignField!) ?? null));
+    }
+
+    if (spec.pipeline) {
+      const variables: DBDocument = {};
+      for (const [name, expression] of Object.entries(spec.let || {})) {
+        variables[name] = evaluateExpression(doc, expression);
+      }
+      joined = runPipeline(joined, substituteVariables(spec.pipeline, variables), resolveSource);
+    }
+
+    return setField(doc, spec.as, joined);
+  });
+}
+
+/**
+ * Replaces the value at each populate path with the referenced document(s):
+ * a single reference becomes the matching document or null, an array of
+ * references becomes the array of matching documents
+ */
+export function populateDocuments(documents: DBDocument[], options: PopulateOptions[], resolveSource: SourceResolver): DBDocument[] {
+  return options.reduce((current, option) => {
+    if (!option || !option.path || !option.from) {
+      throw new ValidationError('populate requires a path and from');
+    }
+
+    const foreignField = option.foreignField || '_id';
+    const foreignDocuments = resolveSource(option.from);
+    const find = (reference: any) =>
+      foreignDocuments.find(foreign => valuesMatch(reference, getNestedValue(foreign, foreignField))) ?? null;
+
+    return current.map(doc => {
+      const reference = getNestedValue(doc, option.path);
+      if (reference === undefined) {
+        return doc;
+      }
+
+      const populated = Array.isArray(reference)
+        ? reference.map(find).filter(foreign => foreign !== null)
+        : find(reference);
+      return setField(doc, option.as || option.path, populated);
+    });
+  }, documents);
+}
+
+function valuesMatch(local: any, foreign: any): boolean {
+  if (Array.isArray(local)) {
+    return local.some(item => valuesMatch(item, foreign));
+  }
+  if (Array.isArray(foreign)) {
+    return foreign.some(item => compareValues(local, item));
+  }
+  return compareValues(local, foreign);
+}
+
+/**
+ * Replaces '$$name' and '$$name.path' strings with the value of the variable.
+ * Unknown names are left alone for the `let` of a nested $lookup to fill in.
+ */
+function substituteVariables(value: any, variables: DBDocument): any {
+  if (typeof value === 'string' && value.startsWith('$$')) {
+    const [name, ...path] = value.slice(2).split('.');
+    if (!(name in variables)) {
+      return value;
+    }
+    return path.length > 0 ? getNestedValue(variables[name], path.join('.')) : variables[name];
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => substituteVariables(item, variables));
+  }
+
+  // Only literal objects; a $lookup source such as a DiscordDB instance is kept as is
+  if (isPlainObject(value) && Object.getPrototypeOf(value) === Object.prototype) {
+    const result: { [key: string]: any } = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = substituteVariables(item, variables);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+function group(documents: DBDocument[], spec: GroupStage): DBDocument[] {
+  if (!spec || typeof spec !== 'object' || !('_id' in spec)) {
+    throw new ValidationError('$group requires an _id expression');
+  }
+
+  const fields = Object.entries(spec).filter(([field]) => field !== '_id').map(([field, accumulator]) => {
+    const operators = isPlainObject(accumulator) ? Object.keys(accumulator) : [];
+    if (operators.length !== 1 || !ACCUMULATORS.has(operators[0])) {
+      throw new ValidationError(`$group field "${field}" must use one accumulator (${Array.from(ACCUMULATORS).join(', ')})`);
+    }
+    return { field, operator: operators[0], expression: accumulator[operators[0]] };
+  });
+
+  // Groups keep the order in which their key was first seen
+  const groups: Map<string, { _id: any; documents: DBDocument[] }> = new Map();
+  for (const doc of documents) {
+    const id = evaluateExpression(doc, spec._id) ?? null;
+    const key = JSON.stringify(id);
+    if (!groups.has(key)) {
+      groups.set(key, { _id: id, documents: [] });
+    }
+    groups.get(key)!.documents.push(doc);
+  }
+
+  return Array.from(groups.values()).map(({ _id, documents: members }) => {
+    const result: DBDocument = { _id };
+    for (const { field, operator, expression } of fields) {
+      result[field] = accumulate(operator, members.map(doc => evaluateExpression(doc, expression)));
+    }
+    return result;
+  });
+}
+
+function accumulate(operator: string, values: any[]): any {
+  const present = values.filter(value => value !== undefined && value !== null);
+  const numbers = values.filter(value => typeof value === 'number' && !Number.isNaN(value));
+
+  switch (operator) {
+    case '$sum':
+      return numbers.reduce((total, value) => total + value, 0);
+
+    case '$avg':
+      return numbers.length > 0 ? numbers.reduce((total, value) => total + value, 0) / numbers.length : null;
+
+    case '$min':
+      return present.length > 0 ? present.reduce((min, value) => (compareForSort(value, min) < 0 ? value : min)) : null;
+
+    case '$max':
+      return present.length > 0 ? present.reduce((max, value) => (compareForSort(value, max) > 0 ? value : max)) : null;
+
+    case '$push':
+      return values.filter(value => value !== undefined);
+
+    case '$addToSet':
+      return values.filter(value => value !== undefined).reduce<any[]>((set, value) => {
+        if (!set.some(item => compareValues(item, value))) {
+          set.push(value);
+        }
+        return set;
+      }, []);
+
+    case '$first':
+      return values.length > 0 ? values[0] ?? null : null;
+
+    case '$last':
+      return values.length > 0 ? values[values.length - 1] ?? null : null;
+
+    default:
+      throw new ValidationError(`Unknown accumulator ${operator}`);
+  }
+}
+
+/**
+ * $project: 1/true includes a field, 0/false excludes it and any other value
+ * is an expression for a computed field. Inclusion and exclusion can't be mixed,
+ * except for excluding _id.
+ */
+function project(document: DBDocument, spec: { [key: string]: any }): DBDocument {
+  const entries = Object.entries(spec || {});
+  if (entries.length === 0) {
+    throw new ValidationError('$project requires at least one field');
+  }
+
+  const isExclusion = (value: any) => value === 0 || value === false;
+  const isInclusion = (value: any) => value === 1 || value === true;
+  const excluded = entries.filter(([field, value]) => isExclusion(value) && field !== '_id');
+  const included = entries.filter(([, value]) => !isExclusion(value));
+
+  if (excluded.length > 0 && included.length > 0) {
+    throw new ValidationError('$project cannot mix inclusion and exclusion');
+  }
+
+  if (included.length === 0) {
+    const result = { ...document };
+    for (const [field] of entries) {
+      unsetField(result, field);
+    }
+    return result;
+  }
+
+  let result: DBDocument = {};
+  if (spec._id === undefined || isInclusion(spec._id)) {
+    result._id = document._id;
+  }
+
+  for (const [field, value] of included) {
+    if (field === '_id' && isInclusion(value)) {
+      continue;
+    }
+    const projected = isInclusion(value) ? getNestedValue(document, field) : evaluateExpression(document, value);
+    if (projected !== undefined) {
+      result = setField(result, field, projected);
+    }
+  }
+
+  return result;
+}
+
+function unwind(documents: DBDocument[], options: UnwindOptions): DBDocument[] {
+  if (!options || typeof options.path !== 'string' || !options.path.startsWith('$')) {
+    throw new ValidationError('$unwind requires a field path starting with $');
+  }
+
+  const path = options.path.slice(1);
+  const result: DBDocument[] = [];
+
+  for (const doc of documents) {
+    const value = getNestedValue(doc, path);
+
+    if (Array.isArray(value) && value.length > 0) {
+      value.forEach((item, index) => {
+        let unwound = setField(doc, path, item);
+        if (options.includeArrayIndex) {
+          unwound = setField(unwound, options.includeArrayIndex, index);
+        }
+        result.push(unwound);
+      });
+    } else if (value !== undefined && value !== null && !Array.isArray(value)) {
+      // Non-array values are treated as a single-element array
+      result.push(options.includeArrayIndex ? setField(doc, options.includeArrayIndex, null) : doc);
+    } else if (options.preserveNullAndEmptyArrays) {
+      result.push(options.includeArrayIndex ? setField(doc, options.includeArrayIndex, null) : doc);
+    }
+  }
+
+  return result;
+}
+
+function requireCount(operator: string, value: any): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new ValidationError(`${operator} requires a non-negative integer`);
+  }
+  return value;
+}
+
+/**
+ * Returns a copy of the document with a (dot notation) field set, copying
+ * every object along the path instead of mutating it
+ */
+function setField(document: DBDocument, path: string, value: any): DBDocument {
+  const [key, ...rest] = path.split('.');
+  if (rest.length === 0) {
+    return { ...document, [key]: value };
+  }
+
+  const child = isPlainObject(document[key]) ? document[key] : {};
+  return { ...document, [key]: setField(child, rest.join('.'), value) };
+}
+
+/**
+ * Removes a (dot notation) field from a shallow copy, copying nested objects on the way
+ */
+function unsetField(document: DBDocument, path: string): void {
+  const [key, ...rest] = path.split('.');
+  if (rest.length === 0) {
+    delete document[key];
+    return;
+  }
+
+  if (isPlainObject(document[key])) {
+    document[key] = { ...document[key] };
+    unsetField(document[key], rest.join('.'));
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Maximum number of characters Discord accepts in a message's content
+ */
+export const MAX_MESSAGE_LENGTH = 2000;
+
+const CHUNK_PREFIX = 'ddb:chunk:';
+// Discord trims trailing whitespace from message content, so every chunk is
+// terminated with a sentinel to keep whitespace at the end of a piece intact.
+const CHUNK_TERMINATOR = ';';
+const MANIFEST_KEY = '$chunks';
+// Snowflakes are at most 20 digits, used to size a manifest before sending
+const PLACEHOLDER_ID = '0'.repeat(20);
+
+export interface ChunkManifest {
+  parts: string[];
+  length: number;
+}
+
+export interface DecodedChunk {
+  index: number;
+  data: string;
+}
+
+/**
+ * Splits serialized content into pieces that each fit in one continuation message
+ */
+export function splitIntoChunks(content: string, maxLength = MAX_MESSAGE_LENGTH): string[] {
+  const pieces: string[] = [];
+  let offset = 0;
+
+  while (offset < content.length) {
+    const overhead = encodeChunk(pieces.length, '').length;
+    let end = Math.min(offset + maxLength - overhead, content.length);
+
+    // Never split a surrogate pair across two messages
+    if (end < content.length && isHighSurrogate(content.charCodeAt(end - 1))) {
+      end--;
+    }
+
+    pieces.push(content.slice(offset, end));
+    offset = end;
+  }
+
+  return pieces;
+}
+
+/**
+ * Encodes a continuation chunk for storage
+ */
+export function encodeChunk(index: number, data: string): string {
+  return `${CHUNK_PREFIX}${index}:${data}${CHUNK_TERMINATOR}`;
+}
+
+/**
+ * Decodes a continuation chunk, returning null if the content is not a chunk
+ */
+export function decodeChunk(content: string): DecodedChunk | null {
+  if (!content.startsWith(CHUNK_PREFIX) || !content.endsWith(CHUNK_TERMINATOR)) {
+    return null;
+  }
+
+  const separator = content.indexOf(':', CHUNK_PREFIX.length);
+  if (separator === -1) {
+    return null;
+  }
+
+  const index = Number(content.slice(CHUNK_PREFIX.length, separator));
+  if (!Number.isInteger(index) || index < 0) {
+    return null;
+  }
+
+  return {
+    index,
+    data: content.slice(separator + 1, content.length - CHUNK_TERMINATOR.length)
+  };
+}
+
+/**
+ * Encodes the header manifest that points at a document's continuation chunks
+ */
+export function encodeManifest(manifest: ChunkManifest): string {
+  return JSON.stringify({ [MANIFEST_KEY]: manifest.parts, $length: manifest.length });
+}
+
+/**
+ * Decodes a header manifest, returning null if the content is not a manifest
+ */
+export function decodeManifest(content: string): ChunkManifest | null {
+  if (!content.startsWith(`{"${MANIFEST_KEY}"`)) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed[MANIFEST_KEY]) || typeof parsed.$length !== 'number') {
+      return null;
+    }
+    return { parts: parsed[MANIFEST_KEY], length: parsed.$length };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Estimates the manifest length for a given number of chunks, before their ids are known
+ */
+export function estimateManifestLength(partCount: number, contentLength: number): number {
+  return encodeManifest({
+    parts: Array.from({ length: partCount }, () => PLACEHOLDER_ID),
+    length: contentLength
+  }).length;
+}
+
+/**
+ * Reassembles chunked content from the data of its continuation messages.
+ * Returns null if any chunk is missing or the reassembled length does not match.
+ */
+export function assembleChunks(manifest: ChunkManifest, chunkData: Map<string, string>): string | null {
+  let content = '';
+
+  for (const part of manifest.parts) {
+    const data = chunkData.get(part);
+    if (data === undefined) {
+      return null;
+    }
+    content += data;
+  }
+
+  return content.length === manifest.length ? content : null;
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
@@ -0,0 +1,254 @@
+import { deflateRawSync, inflateRawSync, brotliCompressSync, brotliDecompressSync } from 'zlib';
+import { EncryptionService } from './encryption';
+import { ByteCodec, TextCodec, CodecOptions, ValidationError, DiscordDBError } from '../types';
+
+/**
+ * Prefix of codec-encoded content, followed by the stage names and the payload:
+ * `ddb:codec:deflate.aes.base2048:<payload>`
+ */
+export const CODEC_PREFIX = 'ddb:codec:';
+
+const CODEC_NAME_PATTERN = /^[a-z0-9-]+$/i;
+
+// Base-2048 uses one contiguous block of CJK ideographs so every character is a
+// single UTF-16 unit and counts once against Discord's message limit.
+const BASE2048_START = 0x4e00;
+const BASE2048_BITS = 11;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export const deflateCodec: ByteCodec = {
+  name: 'deflate',
+  encode: data => new Uint8Array(deflateRawSync(data)),
+  decode: data => new Uint8Array(inflateRawSync(data))
+};
+
+export const brotliCodec: ByteCodec = {
+  name: 'brotli',
+  encode: data => new Uint8Array(brotliCompressSync(data)),
+  decode: data => new Uint8Array(brotliDecompressSync(data))
+};
+
+export const base64Codec: TextCodec = {
+  name: 'base64',
+  encode: data => Buffer.from(data).toString('base64'),
+  decode: text => new Uint8Array(Buffer.from(text, 'base64'))
+};
+
+export const base2048Codec: TextCodec = {
+  name: 'base2048',
+  encode: encodeBase2048,
+  decode: decodeBase2048
+};
+
+/**
+ * Creates a byte codec that encrypts with the given encryption service
+ */
+export function createEncryptionCodec(service: EncryptionService): ByteCodec {
+  return {
+    name: 'aes',
+    encode: data => service.encryptBytes(data),
+    decode: data => service.decryptBytes(data)
+  };
+}
+
+/**
+ * Encodes bytes as base-2048 text. The first character holds the number of
+ * padding bits in the last character (0-10).
+ */
+export function encodeBase2048(data: Uint8Array): string {
+  const chars: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of data) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= BASE2048_BITS) {
+      bits -= BASE2048_BITS;
+      chars.push((buffer >> bits) & 0x7ff);
+      buffer &= (1 << bits) - 1;
+    }
+  }
+
+  let padding = 0;
+  if (bits > 0) {
+    padding = BASE2048_BITS - bits;
+    chars.push((buffer << padding) & 0x7ff);
+  }
+
+  let text = String.fromCharCode(BASE2048_START + padding);
+  // Converted in slices to stay clear of argument count limits on large payloads
+  for (let i = 0; i < chars.length; i += 4096) {
+    text += String.fromCharCode(...chars.slice(i, i + 4096).map(value => BASE2048_START + value));
+  }
+  return text;
+}
+
+/**
+ * Decodes base-2048 text produced by encodeBase2048
+ */
+export function decodeBase2048(text: string): Uint8Array {
+  if (text.length === 0) {
+    throw new DiscordDBError('Invalid base2048 data: missing header');
+  }
+
+  const padding = text.charCodeAt(0) - BASE2048_START;
+  const totalBits = (text.length - 1) * BASE2048_BITS - padding;
+  if (padding < 0 || padding >= BASE2048_BITS || totalBits < 0 || totalBits % 8 !== 0) {
+    throw new DiscordDBError('Invalid base2048 data: bad padding');
+  }
+
+  const bytes = new Uint8Array(totalBits / 8);
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+
+  for (let i = 1; i < text.length && offset < bytes.length; i++) {
+    const value = text.charCodeAt(i) - BASE2048_START;
+    if (value < 0 || value > 0x7ff) {
+      throw new DiscordDBError(`Invalid base2048 character at position ${i}`);
+    }
+
+    buffer = (buffer << BASE2048_BITS) | value;
+    bits += BASE2048_BITS;
+    while (bits >= 8 && offset < bytes.length) {
+      bits -= 8;
+      bytes[offset++] = (buffer >> bits) & 0xff;
+      buffer &= (1 << bits) - 1;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Registry of named codecs. Encoded content names its stages in a prefix, so any
+ * message can be decoded as long as its codecs are registered, regardless of the
+ * pipeline currently configured for writing.
+ */
+export class CodecRegistry {
+  private byteCodecs: Map<string, ByteCodec> = new Map();
+  private textCodecs: Map<string, TextCodec> = new Map();
+
+  constructor() {
+    this.registerByteCodec(deflateCodec);
+    this.registerByteCodec(brotliCodec);
+    this.registerTextCodec(base64Codec);
+    this.registerTextCodec(base2048Codec);
+  }
+
+  registerByteCodec(codec: ByteCodec): void {
+    validateCodecName(codec.name);
+    this.byteCodecs.set(codec.name, codec);
+  }
+
+  registerTextCodec(codec: TextCodec): void {
+    validateCodecName(codec.name);
+    this.textCodecs.set(codec.name, codec);
+  }
+
+  /**
+   * Resolves codec options into the stages used for writing.
+   * Extra byte stages (e.g. encryption) run after compression.
+   */
+  createPipeline(options: CodecOptions, extraStages: ByteCodec[] = []): CodecPipeline {
+    const stages: ByteCodec[] = [];
+
+    if (options.compression && options.compression !== 'none') {
+      stages.push(this.resolveByteCodec(options.compression));
+    }
+    stages.push(...extraStages);
+
+    const text = this.resolveTextCodec(options.encoding || 'base64');
+    return new CodecPipeline(stages, text);
+  }
+
+  /**
+   * Decodes codec-encoded content back to the original string
+   */
+  decode(content: string): string {
+    if (!isCodecEncoded(content)) {
+      throw new DiscordDBError('Content is not codec encoded');
+    }
+
+    const separator = content.indexOf(':', CODEC_PREFIX.length);
+    if (separator === -1) {
+      throw new DiscordDBError('Invalid codec prefix');
+    }
+
+    const names = content.slice(CODEC_PREFIX.length, separator).split('.');
+    const textCodec = this.textCodecs.get(names[names.length - 1]);
+    if (!textCodec) {
+      throw new DiscordDBError(`Unknown text codec "${names[names.length - 1]}"`);
+    }
+
+    let data = textCodec.decode(content.slice(separator + 1));
+    for (const name of names.slice(0, -1).reverse()) {
+      const codec = this.byteCodecs.get(name);
+      if (!codec) {
+        throw new DiscordDBError(`Unknown codec "${name}"`);
+      }
+      data = codec.decode(data);
+    }
+
+    return textDecoder.decode(data);
+  }
+
+  private resolveByteCodec(codec: string | ByteCodec): ByteCodec {
+    if (typeof codec !== 'string') {
+      this.registerByteCodec(codec);
+      return codec;
+    }
+
+    const resolved = this.byteCodecs.get(codec);
+    if (!resolved) {
+      throw new ValidationError(`Unknown compression codec "${codec}"`);
+    }
+    return resolved;
+  }
+
+  private resolveTextCodec(codec: string | TextCodec): TextCodec {
+    if (typeof codec !== 'string') {
+      this.registerTextCodec(codec);
+      return codec;
+    }
+
+    const resolved = this.textCodecs.get(codec);
+    if (!resolved) {
+      throw new ValidationError(`Unknown text encoding "${codec}"`);
+    }
+    return resolved;
+  }
+}
+
+/**
+ * An ordered set of byte stages followed by a text encoding
+ */
+export class CodecPipeline {
+  constructor(private stages: ByteCodec[], private text: TextCodec) {}
+
+  encode(content: string): string {
+    let data = textEncoder.encode(content);
+    for (const stage of this.stages) {
+      data = stage.encode(data);
+    }
+
+    const names = [...this.stages.map(stage => stage.name), this.text.name].join('.');
+    return `${CODEC_PREFIX}${names}:${this.text.encode(data)}`;
+  }
+}
+
+/**
+ * Check if content was written by a codec pipeline
+ */
+export function isCodecEncoded(content: string): boolean {
+  return content.startsWith(CODEC_PREFIX);
+}
+
+function validateCodecName(name: string): void {
+  if (!CODEC_NAME_PATTERN.test(name)) {
+    throw new ValidationError(`Invalid codec name "${name}". Use letters, digits and dashes only.`);
+  }
+}
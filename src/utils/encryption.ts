@@ -50,6 +50,34 @@ export class EncryptionService {
     }
   }
 
+  /**
+   * Encrypt raw bytes, returning the IV followed by the ciphertext
+   */
+  encryptBytes(data: Uint8Array): Uint8Array {
+    try {
+      const iv = randomBytes(16);
+      const cipher = createCipheriv(this.algorithm, this.key, iv);
+
+      return new Uint8Array(Buffer.concat([iv, cipher.update(data), cipher.final()]));
+    } catch (error) {
+      throw new Error(`Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Decrypt bytes produced by encryptBytes
+   */
+  decryptBytes(data: Uint8Array): Uint8Array {
+    try {
+      const iv = data.subarray(0, 16);
+      const decipher = createDecipheriv(this.algorithm, this.key, iv);
+
+      return new Uint8Array(Buffer.concat([decipher.update(data.subarray(16)), decipher.final()]));
+    } catch (error) {
+      throw new Error(`Decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Check if data is encrypted
    */
@@ -0,0 +1,310 @@
+import { DBDocument, Expression, ValidationError } from '../types';
+import { getNestedValue, compareValues, compareForSort } from './filters';
+
+const DEFAULT_DATE_FORMAT = '%Y-%m-%dT%H:%M:%S.%LZ';
+
+/**
+ * Evaluates an expression against a document. Expressions are field paths
+ * ('$field.path', or '$$ROOT' for the document itself), operator objects with
+ * a single operator such as { $add: ['$price', '$tax'] }, arrays and objects
+ * of expressions, and literals. Used by $expr filters and aggregation stages.
+ */
+export function evaluateExpression(document: DBDocument, expression: Expression): any {
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    if (expression === '$$ROOT' || expression === '$$CURRENT') {
+      return document;
+    }
+    return getNestedValue(document, expression.slice(1));
+  }
+
+  if (Array.isArray(expression)) {
+    return expression.map(item => evaluateExpression(document, item));
+  }
+
+  if (isPlainObject(expression)) {
+    const keys = Object.keys(expression);
+    if (keys.length > 0 && keys[0].startsWith('$')) {
+      if (keys.length > 1) {
+        throw new ValidationError(`An expression object takes a single operator, got ${keys.join(', ')}`);
+      }
+      return applyOperator(document, keys[0], expression[keys[0]]);
+    }
+
+    const result: DBDocument = {};
+    for (const [key, value] of Object.entries(expression)) {
+      result[key] = evaluateExpression(document, value);
+    }
+    return result;
+  }
+
+  return expression;
+}
+
+/**
+ * Truthiness as in MongoDB expressions: only false, null, undefined and 0 are false
+ */
+export function isTruthy(value: any): boolean {
+  return value !== false && value !== null && value !== undefined && value !== 0;
+}
+
+export function isPlainObject(value: any): value is { [key: string]: any } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    !(value instanceof Date) && !(value instanceof RegExp);
+}
+
+function applyOperator(document: DBDocument, operator: string, spec: any): any {
+  const evaluate = (expression: Expression) => evaluateExpression(document, expression);
+
+  // Operators that decide which arguments to evaluate
+  switch (operator) {
+    case '$literal':
+      return spec;
+
+    case '$cond': {
+      const [condition, then, otherwise] = Array.isArray(spec) ? spec : isPlainObject(spec) ? [spec.if, spec.then, spec.else] : [];
+      if (Array.isArray(spec) ? spec.length !== 3 : !isPlainObject(spec) || !('if' in spec && 'then' in spec && 'else' in spec)) {
+        throw new ValidationError('$cond requires [if, then, else] or { if, then, else }');
+      }
+      return isTruthy(evaluate(condition)) ? evaluate(then) : evaluate(otherwise);
+    }
+
+    case '$ifNull': {
+      const args = requireArguments(operator, spec, 2, Infinity);
+      for (const arg of args.slice(0, -1)) {
+        const value = evaluate(arg);
+        if (value !== null && value !== undefined) {
+          return value;
+        }
+      }
+      return evaluate(args[args.length - 1]);
+    }
+
+    case '$and':
+      return argumentsOf(spec).every(arg => isTruthy(evaluate(arg)));
+
+    case '$or':
+      return argumentsOf(spec).some(arg => isTruthy(evaluate(arg)));
+
+    case '$not':
+      return !isTruthy(evaluate(requireArguments(operator, spec, 1)[0]));
+  }
+
+  const args = argumentsOf(spec).map(evaluate);
+
+  switch (operator) {
+    case '$eq':
+    case '$ne':
+    case '$gt':
+    case '$gte':
+    case '$lt':
+    case '$lte':
+    case '$cmp':
+      return compare(operator, requireArguments(operator, args, 2));
+
+    case '$add':
+    case '$subtract':
+    case '$multiply':
+    case '$divide':
+    case '$mod':
+      return args.some(isNullish) ? null : arithmetic(operator, args);
+
+    case '$concat':
+      if (args.some(isNullish)) {
+        return null;
+      }
+      if (!args.every(arg => typeof arg === 'string')) {
+        throw new ValidationError('$concat only supports strings');
+      }
+      return args.join('');
+
+    case '$toLower':
+    case '$toUpper': {
+      const [value] = requireArguments(operator, args, 1);
+      const text = isNullish(value) ? '' : String(value);
+      return operator === '$toLower' ? text.toLowerCase() : text.toUpperCase();
+    }
+
+    case '$substr': {
+      const [value, start, length] = requireArguments(operator, args, 3);
+      if (typeof start !== 'number' || typeof length !== 'number') {
+        throw new ValidationError('$substr requires a numeric start and length');
+      }
+      const text = isNullish(value) ? '' : String(value);
+      return length < 0 ? text.slice(start) : text.slice(start, start + length);
+    }
+
+    case '$size': {
+      const [value] = requireArguments(operator, args, 1);
+      if (!Array.isArray(value)) {
+        throw new ValidationError('$size requires an array');
+      }
+      return value.length;
+    }
+
+    case '$toDate': {
+      const [value] = requireArguments(operator, args, 1);
+      return isNullish(value) ? null : toDate(operator, value);
+    }
+
+    case '$year':
+    case '$month':
+    case '$dayOfMonth':
+    case '$dayOfWeek':
+    case '$hour':
+    case '$minute':
+    case '$second':
+    case '$millisecond': {
+      // Also accepts MongoDB's { date } form, without time zones
+      const [value] = isPlainObject(spec) && 'date' in spec ? [evaluate(spec.date)] : requireArguments(operator, args, 1);
+      return isNullish(value) ? null : datePart(operator, toDate(operator, value));
+    }
+
+    case '$dateToString': {
+      if (!isPlainObject(spec) || !('date' in spec)) {
+        throw new ValidationError('$dateToString requires { date, format }');
+      }
+      const value = evaluate(spec.date);
+      return isNullish(value) ? null : formatDate(toDate(operator, value), spec.format ?? DEFAULT_DATE_FORMAT);
+    }
+
+    default:
+      throw new ValidationError(`Unknown expression operator ${operator}`);
+  }
+}
+
+function compare(operator: string, [a, b]: any[]): boolean | number {
+  if (operator === '$eq') {
+    return compareValues(a, b);
+  }
+  if (operator === '$ne') {
+    return !compareValues(a, b);
+  }
+
+  const order = Math.sign(compareForSort(a, b));
+  switch (operator) {
+    case '$gt':
+      return order > 0;
+    case '$gte':
+      return order >= 0;
+    case '$lt':
+      return order < 0;
+    case '$lte':
+      return order <= 0;
+    default:
+      return order;
+  }
+}
+
+/**
+ * Numeric arithmetic. Dates take part as in MongoDB: a date plus milliseconds
+ * is a date, and the difference of two dates is in milliseconds.
+ */
+function arithmetic(operator: string, args: any[]): number | Date {
+  const invalid = () => new ValidationError(`${operator} only supports numbers${operator === '$add' || operator === '$subtract' ? ' and dates' : ''}`);
+
+  switch (operator) {
+    case '$add': {
+      const dates = args.filter(arg => arg instanceof Date);
+      if (dates.length > 1 || args.some(arg => !(arg instanceof Date) && typeof arg !== 'number')) {
+        throw invalid();
+      }
+      const sum = args.reduce((total, arg) => total + (arg instanceof Date ? arg.getTime() : arg), 0);
+      return dates.length > 0 ? new Date(sum) : sum;
+    }
+
+    case '$subtract': {
+      const [a, b] = requireArguments(operator, args, 2);
+      if (a instanceof Date && b instanceof Date) {
+        return a.getTime() - b.getTime();
+      }
+      if (a instanceof Date && typeof b === 'number') {
+        return new Date(a.getTime() - b);
+      }
+      if (typeof a !== 'number' || typeof b !== 'number') {
+        throw invalid();
+      }
+      return a - b;
+    }
+
+    case '$multiply':
+      if (!args.every(arg => typeof arg === 'number')) {
+        throw invalid();
+      }
+      return args.reduce((product, arg) => product * arg, 1);
+
+    default: {
+      const [a, b] = requireArguments(operator, args, 2);
+      if (typeof a !== 'number' || typeof b !== 'number') {
+        throw invalid();
+      }
+      if (b === 0) {
+        throw new ValidationError(`${operator} by zero`);
+      }
+      return operator === '$divide' ? a / b : a % b;
+    }
+  }
+}
+
+/**
+ * Dates, ISO strings (how dates come back from storage) and timestamps
+ */
+function toDate(operator: string, value: any): Date {
+  const date = value instanceof Date ? value : typeof value === 'string' || typeof value === 'number' ? new Date(value) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new ValidationError(`${operator} requires a date`);
+  }
+  return date;
+}
+
+function datePart(operator: string, date: Date): number {
+  switch (operator) {
+    case '$year':
+      return date.getUTCFullYear();
+    case '$month':
+      return date.getUTCMonth() + 1;
+    case '$dayOfMonth':
+      return date.getUTCDate();
+    case '$dayOfWeek':
+      return date.getUTCDay() + 1; // 1 is Sunday
+    case '$hour':
+      return date.getUTCHours();
+    case '$minute':
+      return date.getUTCMinutes();
+    case '$second':
+      return date.getUTCSeconds();
+    default:
+      return date.getUTCMilliseconds();
+  }
+}
+
+function formatDate(date: Date, format: string): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const parts: { [specifier: string]: string } = {
+    Y: String(date.getUTCFullYear()),
+    m: pad(date.getUTCMonth() + 1),
+    d: pad(date.getUTCDate()),
+    H: pad(date.getUTCHours()),
+    M: pad(date.getUTCMinutes()),
+    S: pad(date.getUTCSeconds()),
+    L: pad(date.getUTCMilliseconds(), 3),
+    '%': '%'
+  };
+  return format.replace(/%(.)/g, (match, specifier: string) => parts[specifier] ?? match);
+}
+
+function argumentsOf(spec: any): any[] {
+  return Array.isArray(spec) ? spec : [spec];
+}
+
+function requireArguments(operator: string, spec: any, min: number, max = min): any[] {
+  const args = argumentsOf(spec);
+  if (args.length < min || args.length > max) {
+    const expected = max === min ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+    throw new ValidationError(`${operator} takes ${expected} argument${min === 1 && max === 1 ? '' : 's'}`);
+  }
+  return args;
+}
+
+function isNullish(value: any): boolean {
+  return value === null || value === undefined;
+}
@@ -1,9 +1,23 @@
-import { Filter, FilterOperators, DBDocument, SortOption, SortDirection } from '../types';
+import { Filter, FilterOperators, FieldType, DBDocument, SortOption, SortDirection, TextSearch, TextScoreMeta, ValidationError } from '../types';
+import { parseSearch, scoreText } from './text';
+import { evaluateExpression, isTruthy } from './expressions';
+
+const TYPE_ALIASES: { [code: number]: string } = {
+  1: 'double', 2: 'string', 3: 'object', 4: 'array', 8: 'bool', 9: 'date', 10: 'null', 11: 'regex', 16: 'int', 18: 'long', 19: 'decimal'
+};
+const TYPE_NAMES = new Set(['string', 'number', 'double', 'int', 'long', 'decimal', 'bool', 'object', 'array', 'null', 'date', 'regex']);
+
+export interface MatchOptions {
+  textWeights?: { [field: string]: number }; // Fields of the text index that $text searches
+}
+
+// Relevance of a document for the $text search of a query
+export type TextScorer = (document: DBDocument) => number | undefined;
 
 /**
  * Evaluates if a document matches a filter condition
  */
-export function matchesFilter(document: DBDocument, filter: Filter): boolean {
+export function matchesFilter(document: DBDocument, filter: Filter, options: MatchOptions = {}): boolean {
   if (!filter || Object.keys(filter).length === 0) {
     return true;
   }
@@ -11,21 +25,57 @@ export function matchesFilter(document: DBDocument, filter: Filter): boolean {
   return Object.entries(filter).every(([key, value]) => {
     // Handle logical operators at document level
     if (key === '$and') {
-      return Array.isArray(value) && value.every(subFilter => matchesFilter(document, subFilter as Filter));
+      return Array.isArray(value) && value.every(subFilter => matchesFilter(document, subFilter as Filter, options));
     }
     
     if (key === '$or') {
-      return Array.isArray(value) && value.some(subFilter => matchesFilter(document, subFilter as Filter));
+      return Array.isArray(value) && value.some(subFilter => matchesFilter(document, subFilter as Filter, options));
+    }
+
+    if (key === '$nor') {
+      return Array.isArray(value) && !value.some(subFilter => matchesFilter(document, subFilter as Filter, options));
     }
     
     if (key === '$not') {
-      return !matchesFilter(document, value as Filter);
+      return !matchesFilter(document, value as Filter, options);
+    }
+
+    if (key === '$text') {
+      return textScore(document, value as TextSearch, options.textWeights) > 0;
+    }
+
+    if (key === '$expr') {
+      return isTruthy(evaluateExpression(document, value));
+    }
+
+    if (key.startsWith('$')) {
+      throw new ValidationError(`Unknown query operator ${key}`);
     }
     
     return evaluateFieldFilter(document, key, value);
   });
 }
 
+/**
+ * Relevance of a document for a $text search over the given text fields, 0
+ * when it does not match
+ */
+export function textScore(document: DBDocument, search: TextSearch, textWeights?: { [field: string]: number }): number {
+  if (!textWeights) {
+    throw new ValidationError('$text requires a text index');
+  }
+  if (!search || typeof search !== 'object') {
+    throw new ValidationError('$text requires a $search string');
+  }
+
+  const fields = Object.entries(textWeights).map(([field, weight]) => ({ value: getNestedValue(document, field), weight }));
+  return scoreText(fields, parseSearch(search.$search));
+}
+
+export function isTextScoreMeta(value: any): value is TextScoreMeta {
+  return !!value && typeof value === 'object' && value.$meta === 'textScore';
+}
+
 /**
  * Evaluates a single field filter
  */
@@ -33,12 +83,38 @@ function evaluateFieldFilter(document: DBDocument, key: string, filterValue: any
   const docValue = getNestedValue(document, key);
 
   // Handle operator objects
-  if (filterValue && typeof filterValue === 'object' && !Array.isArray(filterValue) && !(filterValue instanceof Date) && !(filterValue instanceof RegExp)) {
+  if (isOperatorObject(filterValue)) {
     return evaluateOperators(docValue, filterValue as FilterOperators);
   }
 
   // Handle direct value comparison
-  return compareValues(docValue, filterValue);
+  return matchesEquality(docValue, filterValue);
+}
+
+/**
+ * Objects whose keys are all operators; other objects are compared as values
+ */
+export function isOperatorObject(value: any): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value) || value instanceof Date || value instanceof RegExp) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => key.startsWith('$'));
+}
+
+/**
+ * Equality as in MongoDB: an array matches a value equal to the whole array
+ * or to any of its elements
+ */
+function matchesEquality(docValue: any, value: any): boolean {
+  return compareValues(docValue, value) || (Array.isArray(docValue) && docValue.some(item => compareValues(item, value)));
+}
+
+/**
+ * Applies a predicate to a value, or to each element of an array
+ */
+function someValue(docValue: any, predicate: (value: any) => boolean): boolean {
+  return Array.isArray(docValue) ? docValue.some(predicate) : predicate(docValue);
 }
 
 /**
@@ -48,57 +124,142 @@ function evaluateOperators(docValue: any, operators: FilterOperators): boolean {
   return Object.entries(operators).every(([operator, operatorValue]) => {
     switch (operator) {
       case '$eq':
-        return compareValues(docValue, operatorValue);
+        return matchesEquality(docValue, operatorValue);
       
       case '$ne':
-        return !compareValues(docValue, operatorValue);
+        return !matchesEquality(docValue, operatorValue);
       
       case '$gt':
-        return docValue > operatorValue;
+        return someValue(docValue, value => value > operatorValue);
       
       case '$gte':
-        return docValue >= operatorValue;
+        return someValue(docValue, value => value >= operatorValue);
       
       case '$lt':
-        return docValue < operatorValue;
+        return someValue(docValue, value => value < operatorValue);
       
       case '$lte':
-        return docValue <= operatorValue;
+        return someValue(docValue, value => value <= operatorValue);
       
       case '$in':
-        return Array.isArray(operatorValue) && operatorValue.some(val => compareValues(docValue, val));
+        return requireArray(operator, operatorValue).some(val => matchesEquality(docValue, val));
       
       case '$nin':
-        return Array.isArray(operatorValue) && !operatorValue.some(val => compareValues(docValue, val));
+        return !requireArray(operator, operatorValue).some(val => matchesEquality(docValue, val));
       
       case '$exists':
         return operatorValue ? docValue !== undefined : docValue === undefined;
       
-      case '$regex':
+      case '$regex': {
         const regex = operatorValue instanceof RegExp ? operatorValue : new RegExp(operatorValue, operators.$options);
-        return regex.test(String(docValue));
-      
-      case '$and':
-        // $and should be handled at the document level, not field level
-        return true;
-      
-      case '$or':
-        // $or should be handled at the document level, not field level  
+        return someValue(docValue, value => value !== undefined && regex.test(String(value)));
+      }
+
+      case '$options':
+        // Read by $regex
         return true;
+
+      case '$all': {
+        const values = requireArray(operator, operatorValue);
+        return values.length > 0 && values.every(val => matchesEquality(docValue, val));
+      }
+
+      case '$elemMatch':
+        if (!operatorValue || typeof operatorValue !== 'object' || Array.isArray(operatorValue)) {
+          throw new ValidationError('$elemMatch requires an object');
+        }
+        return Array.isArray(docValue) && docValue.some(item => matchesElement(item, operatorValue));
+
+      case '$size':
+        if (!Number.isInteger(operatorValue) || operatorValue < 0) {
+          throw new ValidationError('$size requires a non-negative integer');
+        }
+        return Array.isArray(docValue) && docValue.length === operatorValue;
+
+      case '$type': {
+        const types = (Array.isArray(operatorValue) ? operatorValue : [operatorValue]).map(resolveType);
+        return types.some(type => (type === 'array' ? Array.isArray(docValue) : someValue(docValue, value => hasType(value, type))));
+      }
+
+      case '$mod': {
+        if (!Array.isArray(operatorValue) || operatorValue.length !== 2 ||
+          !operatorValue.every(value => typeof value === 'number' && Number.isFinite(value)) || Math.trunc(operatorValue[0]) === 0) {
+          throw new ValidationError('$mod requires [divisor, remainder] with a non-zero divisor');
+        }
+        const [divisor, remainder] = operatorValue.map(Math.trunc);
+        return someValue(docValue, value => typeof value === 'number' && Math.trunc(value) % divisor === remainder);
+      }
       
       case '$not':
-        return !matchesFilter({ docValue }, operatorValue);
+        if (operatorValue instanceof RegExp) {
+          return !someValue(docValue, value => value !== undefined && operatorValue.test(String(value)));
+        }
+        if (!isOperatorObject(operatorValue)) {
+          throw new ValidationError('$not requires operators or a regular expression');
+        }
+        return !evaluateOperators(docValue, operatorValue);
       
       default:
-        return true;
+        throw new ValidationError(`Unknown query operator ${operator}`);
     }
   });
 }
 
+/**
+ * $elemMatch applies operators to scalar elements and filters to object elements
+ */
+function matchesElement(item: any, spec: { [key: string]: any }): boolean {
+  if (isOperatorObject(spec)) {
+    return evaluateOperators(item, spec);
+  }
+  return !!item && typeof item === 'object' && !Array.isArray(item) && matchesFilter(item, spec);
+}
+
+function requireArray(operator: string, value: any): any[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError(`${operator} requires an array`);
+  }
+  return value;
+}
+
+function resolveType(type: FieldType): string {
+  const name = typeof type === 'number' ? TYPE_ALIASES[type] : type;
+  if (!name || !TYPE_NAMES.has(name)) {
+    throw new ValidationError(`Unknown $type ${type}`);
+  }
+  return name;
+}
+
+function hasType(value: any, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+    case 'double':
+    case 'decimal':
+      return typeof value === 'number';
+    case 'int':
+    case 'long':
+      return Number.isInteger(value);
+    case 'bool':
+      return typeof value === 'boolean';
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date) && !(value instanceof RegExp);
+    case 'null':
+      return value === null;
+    case 'date':
+      return value instanceof Date;
+    case 'regex':
+      return value instanceof RegExp;
+    default:
+      return false;
+  }
+}
+
 /**
  * Compares two values for equality
  */
-function compareValues(a: any, b: any): boolean {
+export function compareValues(a: any, b: any): boolean {
   if (a === b) return true;
   
   if (a instanceof Date && b instanceof Date) {
@@ -125,7 +286,7 @@ function compareValues(a: any, b: any): boolean {
 /**
  * Gets nested value from object using dot notation
  */
-function getNestedValue(obj: any, path: string): any {
+export function getNestedValue(obj: any, path: string): any {
   return path.split('.').reduce((current, key) => {
     return current && current[key] !== undefined ? current[key] : undefined;
   }, obj);
@@ -134,15 +295,16 @@ function getNestedValue(obj: any, path: string): any {
 /**
  * Sorts documents based on sort options
  */
-export function sortDocuments(documents: DBDocument[], sortOption?: SortOption): DBDocument[] {
+export function sortDocuments(documents: DBDocument[], sortOption?: SortOption, textScorer?: TextScorer): DBDocument[] {
   if (!sortOption || Object.keys(sortOption).length === 0) {
     return documents;
   }
 
   return [...documents].sort((a, b) => {
     for (const [field, direction] of Object.entries(sortOption)) {
-      const aValue = getNestedValue(a, field);
-      const bValue = getNestedValue(b, field);
+      const byScore = isTextScoreMeta(direction);
+      const aValue = byScore ? textScorer?.(a) : getNestedValue(a, field);
+      const bValue = byScore ? textScorer?.(b) : getNestedValue(b, field);
       
       const comparison = compareForSort(aValue, bValue);
       if (comparison !== 0) {
@@ -157,7 +319,7 @@ export function sortDocuments(documents: DBDocument[], sortOption?: SortOption):
 /**
  * Compares two values for sorting
  */
-function compareForSort(a: any, b: any): number {
+export function compareForSort(a: any, b: any): number {
   if (a === b) return 0;
   if (a === null || a === undefined) return -1;
   if (b === null || b === undefined) return 1;
@@ -182,14 +344,14 @@ function compareForSort(a: any, b: any): number {
  */
 function normalizeSortDirection(direction: SortDirection): number {
   if (direction === 1 || direction === 'asc') return 1;
-  if (direction === -1 || direction === 'desc') return -1;
+  if (direction === -1 || direction === 'desc' || isTextScoreMeta(direction)) return -1; // Best text matches first
   return 1;
 }
 
 /**
  * Applies projection to documents
  */
-export function applyProjection(documents: DBDocument[], projection?: { [key: string]: 1 | 0 }): DBDocument[] {
+export function applyProjection(documents: DBDocument[], projection?: { [key: string]: 1 | 0 | TextScoreMeta }, textScorer?: TextScorer): DBDocument[] {
   if (!projection || Object.keys(projection).length === 0) {
     return documents;
   }
@@ -202,6 +364,8 @@ export function applyProjection(documents: DBDocument[], projection?: { [key: st
       Object.entries(projection).forEach(([key, include]) => {
         if (include === 1) {
           projected[key] = getNestedValue(doc, key);
+        } else if (isTextScoreMeta(include)) {
+          projected[key] = textScorer?.(doc);
         }
       });
       // Always include _id unless explicitly excluded
@@ -214,6 +378,8 @@ export function applyProjection(documents: DBDocument[], projection?: { [key: st
       Object.entries(projection).forEach(([key, exclude]) => {
         if (exclude === 0) {
           delete projected[key];
+        } else if (isTextScoreMeta(exclude)) {
+          projected[key] = textScorer?.(doc);
         }
       });
       return projected;
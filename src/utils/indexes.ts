@@ -0,0 +1,616 @@
+import { DBDocument, Filter, IndexSpec, IndexInfo, ValidationError, DuplicateKeyError } from '../types';
+import { getNestedValue } from './filters';
+import { parseSearch, termsOf } from './text';
+
+const MISSING_KEY = 'missing';
+const OTHER_KEY = 'other'; // objects and other values without a key of their own
+const RANGE_OPERATORS = ['$gt', '$gte', '$lt', '$lte'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Persisted state of the indexes of a collection. Entries were valid for every
+ * document whose message is not newer than `cursor` and was not edited after `syncedAt`.
+ */
+export interface IndexSnapshot {
+  indexes: IndexInfo[];
+  entries: { [name: string]: { [id: string]: string[] } };
+  cursor?: string;
+  syncedAt: number;
+}
+
+interface IndexState {
+  info: IndexInfo;
+  field: string; // Leading field, the one queries are planned on
+  entries: Map<string, Set<string>>; // key -> document ids
+  keysById: Map<string, string[]>;
+  sorted?: SortedKeys; // Rebuilt lazily after changes
+  unique?: UniqueKeys;
+  text?: { [field: string]: number }; // Weights of the fields of a text index, keyed by term
+}
+
+interface UniqueKeys {
+  entries: Map<string, Set<string>>; // full key over all fields -> document ids
+  keyById: Map<string, string>;
+}
+
+interface SortedKeys {
+  numbers: Array<{ value: number; key: string }>;
+  strings: Array<{ value: string; key: string }>;
+  others: string[];
+}
+
+/**
+ * Secondary indexes over the documents of a collection. Each index maps the
+ * values of its leading field to document ids; array values are indexed per
+ * element. Plans only narrow down candidates: callers still apply the filter,
+ * so an index only has to return a superset of the matching documents.
+ */
+export class IndexManager {
+  private indexes: Map<string, IndexState> = new Map();
+  private indexed: Map<string, DBDocument> = new Map(); // id -> document as last indexed
+  private restored?: { ids: Set<string>; cursor?: string; syncedAt: number };
+  private changed = false; // entries changed since the last snapshot
+
+  get size(): number {
+    return this.indexes.size;
+  }
+
+  /**
+   * Whether indexes or entries changed since the last snapshot was taken
+   */
+  get stale(): boolean {
+    return this.changed;
+  }
+
+  list(): IndexInfo[] {
+    return Array.from(this.indexes.values()).map(index => ({ ...index.info }));
+  }
+
+  /**
+   * Add an index and build it over the given documents. Returns false if an
+   * identical index already exists.
+   */
+  create(info: IndexInfo, documents: Iterable<DBDocument>): boolean {
+    const existing = this.indexes.get(info.name);
+    if (existing) {
+      if (!sameDefinition(existing.info, info)) {
+        throw new ValidationError(`An index named "${info.name}" already exists with different options`);
+      }
+      return false;
+    }
+
+    const index = this.createState(info);
+    if (index.text && this.textWeights) {
+      throw new ValidationError('A collection can only have one text index');
+    }
+    const docs = Array.from(documents);
+    for (const doc of docs) {
+      const duplicate = this.findDuplicateIn(index, doc);
+      if (duplicate) {
+        throw duplicate;
+      }
+      this.addUniqueKey(index, doc);
+    }
+
+    this.indexes.set(info.name, index);
+    this.changed = true;
+    for (const doc of docs) {
+      this.indexed.set(doc._id!, doc);
+      this.addEntries(index, doc._id!, this.keysFor(index, doc));
+    }
+    return true;
+  }
+
+  /**
+   * The violation a new or changed document would cause in a unique index, if any.
+   * Documents missing every field of a unique index are not constrained by it.
+   */
+  checkUnique(doc: DBDocument): DuplicateKeyError | undefined {
+    for (const index of this.indexes.values()) {
+      const duplicate = this.findDuplicateIn(index, doc);
+      if (duplicate) {
+        return duplicate;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Weights of the fields of the text index, if there is one
+   */
+  get textWeights(): { [field: string]: number } | undefined {
+    for (const index of this.indexes.values()) {
+      if (index.text) {
+        return index.text;
+      }
+    }
+    return undefined;
+  }
+
+  get hasTTL(): boolean {
+    return Array.from(this.indexes.values()).some(index => index.info.expireAfterSeconds !== undefined);
+  }
+
+  /**
+   * Whether a TTL index expires the document by `now`. A document expires
+   * expireAfterSeconds after the earliest date in the indexed field; documents
+   * without a date there never expire.
+   */
+  isExpired(doc: DBDocument, now: number): boolean {
+    for (const index of this.indexes.values()) {
+      if (index.info.expireAfterSeconds === undefined) {
+        continue;
+      }
+      const value = getNestedValue(doc, index.field);
+      const times = (Array.isArray(value) ? value : [value]).map(toTime).filter((time): time is number => time !== undefined);
+      if (times.length > 0 && Math.min(...times) + index.info.expireAfterSeconds * 1000 <= now) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  drop(name: string): boolean {
+    const dropped = this.indexes.delete(name);
+    if (dropped) {
+      this.changed = true;
+    }
+    if (this.indexes.size === 0) {
+      this.indexed.clear();
+    }
+    return dropped;
+  }
+
+  /**
+   * Index a new or changed document
+   */
+  update(doc: DBDocument): void {
+    if (this.indexes.size === 0 || !doc._id) {
+      return;
+    }
+
+    for (const index of this.indexes.values()) {
+      this.removeEntries(index, doc._id);
+      this.addEntries(index, doc._id, this.keysFor(index, doc));
+      this.addUniqueKey(index, doc);
+    }
+    this.indexed.set(doc._id, doc);
+    this.changed = true;
+  }
+
+  remove(id: string): void {
+    if (this.indexes.size === 0) {
+      return;
+    }
+    for (const index of this.indexes.values()) {
+      this.removeEntries(index, id);
+    }
+    this.indexed.delete(id);
+    this.changed = true;
+  }
+
+  /**
+   * Forget all entries, keeping the index definitions
+   */
+  clear(): void {
+    for (const index of this.indexes.values()) {
+      index.entries.clear();
+      index.keysById.clear();
+      index.sorted = undefined;
+      index.unique?.entries.clear();
+      index.unique?.keyById.clear();
+    }
+    this.indexed.clear();
+    this.restored = undefined;
+  }
+
+  /**
+   * Bring the indexes in line with the current documents: documents that were
+   * replaced since they were indexed are re-indexed and missing ones removed.
+   * Entries restored from a snapshot are kept for documents that `isUnchanged`
+   * reports as untouched since the snapshot was taken.
+   */
+  sync(documents: Iterable<DBDocument>, isUnchanged?: (doc: DBDocument, cursor: string | undefined, syncedAt: number) => boolean): void {
+    if (this.indexes.size === 0) {
+      return;
+    }
+
+    const seen = new Set<string>();
+    for (const doc of documents) {
+      const id = doc._id!;
+      seen.add(id);
+
+      if (this.indexed.get(id) === doc) {
+        continue;
+      }
+      if (this.restored?.ids.has(id) && isUnchanged?.(doc, this.restored.cursor, this.restored.syncedAt)) {
+        // Unique keys are not part of the snapshot
+        this.indexes.forEach(index => this.addUniqueKey(index, doc));
+        this.indexed.set(id, doc);
+        continue;
+      }
+      this.update(doc);
+    }
+
+    const known = new Set([...this.indexed.keys(), ...(this.restored?.ids || [])]);
+    for (const id of known) {
+      if (!seen.has(id)) {
+        this.remove(id);
+      }
+    }
+    this.restored = undefined;
+  }
+
+  /**
+   * Candidate document ids for a filter, or undefined when no index applies.
+   * Top-level predicates on indexed fields are intersected, $and branches
+   * intersected and $or branches united when every branch can be planned.
+   */
+  plan(filter: Filter): Set<string> | undefined {
+    if (this.indexes.size === 0 || !filter) {
+      return undefined;
+    }
+
+    let candidates: Set<string> | undefined;
+    const narrow = (ids: Set<string> | undefined) => {
+      if (ids) {
+        candidates = candidates ? intersect(candidates, ids) : ids;
+      }
+    };
+
+    for (const [key, value] of Object.entries(filter)) {
+      if (key === '$and' && Array.isArray(value)) {
+        value.forEach(subFilter => narrow(this.plan(subFilter as Filter)));
+      } else if (key === '$or' && Array.isArray(value)) {
+        const branches = value.map(subFilter => this.plan(subFilter as Filter));
+        if (branches.length > 0 && branches.every(branch => branch !== undefined)) {
+          narrow(branches.reduce((union, branch) => new Set([...union!, ...branch!]), new Set<string>()));
+        }
+      } else if (key === '$text') {
+        narrow(this.planText(value));
+      } else if (!key.startsWith('$')) {
+        const index = this.indexFor(key);
+        if (index) {
+          narrow(this.planField(index, value));
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * The state to persist. Marks the indexes as no longer stale.
+   */
+  snapshot(cursor: string | undefined, syncedAt: number): IndexSnapshot {
+    this.changed = false;
+    const entries: IndexSnapshot['entries'] = {};
+    for (const [name, index] of this.indexes) {
+      entries[name] = Object.fromEntries(index.keysById);
+    }
+    return { indexes: this.list(), entries, cursor, syncedAt };
+  }
+
+  /**
+   * Load indexes from a snapshot. Its entries are provisional until the next sync.
+   */
+  restore(snapshot: IndexSnapshot): void {
+    this.indexes.clear();
+    this.indexed.clear();
+    const ids = new Set<string>();
+
+    for (const info of snapshot.indexes || []) {
+      const index = this.createState(info);
+      this.indexes.set(info.name, index);
+      for (const [id, keys] of Object.entries(snapshot.entries?.[info.name] || {})) {
+        this.addEntries(index, id, keys);
+        ids.add(id);
+      }
+    }
+
+    this.restored = { ids, cursor: snapshot.cursor, syncedAt: snapshot.syncedAt };
+    this.changed = false;
+  }
+
+  private createState(info: IndexInfo): IndexState {
+    const fields = Object.keys(info.key);
+    if (fields.length === 0) {
+      throw new ValidationError('An index needs at least one field');
+    }
+    const unique = info.unique ? { entries: new Map(), keyById: new Map() } : undefined;
+    const textFields = fields.filter(field => info.key[field] === 'text');
+    if (textFields.length > 0 && textFields.length < fields.length) {
+      throw new ValidationError('A text index cannot mix text and ascending or descending fields');
+    }
+    const text = textFields.length > 0
+      ? Object.fromEntries(textFields.map(field => [field, info.weights?.[field] ?? 1]))
+      : undefined;
+    return { info, field: fields[0], entries: new Map(), keysById: new Map(), unique, text };
+  }
+
+  private uniqueKeyFor(index: IndexState, doc: DBDocument): { key: string; keyValue: { [field: string]: any } } | undefined {
+    const fields = Object.keys(index.info.key);
+    const values = fields.map(field => getNestedValue(doc, field));
+    if (values.every(value => value === undefined)) {
+      return undefined;
+    }
+
+    const keyValue = Object.fromEntries(fields.map((field, i) => [field, values[i] ?? null]));
+    return { key: keyOf(fields.map(field => keyValue[field])), keyValue };
+  }
+
+  private findDuplicateIn(index: IndexState, doc: DBDocument): DuplicateKeyError | undefined {
+    const unique = index.unique && this.uniqueKeyFor(index, doc);
+    if (!unique) {
+      return undefined;
+    }
+
+    const ids = index.unique!.entries.get(unique.key);
+    if (ids && Array.from(ids).some(id => id !== doc._id)) {
+      return new DuplicateKeyError(
+        `Duplicate key in index "${index.info.name}": ${JSON.stringify(unique.keyValue)}`,
+        index.info.name,
+        unique.keyValue
+      );
+    }
+    return undefined;
+  }
+
+  private addUniqueKey(index: IndexState, doc: DBDocument): void {
+    if (!index.unique) {
+      return;
+    }
+    this.removeUniqueKey(index, doc._id!);
+
+    const unique = this.uniqueKeyFor(index, doc);
+    if (unique) {
+      if (!index.unique.entries.has(unique.key)) {
+        index.unique.entries.set(unique.key, new Set());
+      }
+      index.unique.entries.get(unique.key)!.add(doc._id!);
+      index.unique.keyById.set(doc._id!, unique.key);
+    }
+  }
+
+  private removeUniqueKey(index: IndexState, id: string): void {
+    const key = index.unique?.keyById.get(id);
+    if (key === undefined) {
+      return;
+    }
+
+    const ids = index.unique!.entries.get(key)!;
+    ids.delete(id);
+    if (ids.size === 0) {
+      index.unique!.entries.delete(key);
+    }
+    index.unique!.keyById.delete(id);
+  }
+
+  private indexFor(field: string): IndexState | undefined {
+    for (const index of this.indexes.values()) {
+      if (index.field === field && !index.text) {
+        return index;
+      }
+    }
+    return undefined;
+  }
+
+  private planField(index: IndexState, condition: any): Set<string> | undefined {
+    if (isIndexable(condition)) {
+      return this.lookup(index, [condition]);
+    }
+
+    if (!condition || typeof condition !== 'object' || Array.isArray(condition) || condition instanceof RegExp || condition instanceof Date) {
+      return undefined;
+    }
+
+    let candidates: Set<string> | undefined;
+    const narrow = (ids: Set<string> | undefined) => {
+      if (ids) {
+        candidates = candidates ? intersect(candidates, ids) : ids;
+      }
+    };
+
+    if ('$eq' in condition && isIndexable(condition.$eq)) {
+      narrow(this.lookup(index, [condition.$eq]));
+    }
+    if (Array.isArray(condition.$in) && condition.$in.every(isIndexable)) {
+      narrow(this.lookup(index, condition.$in));
+    }
+    if (RANGE_OPERATORS.some(operator => operator in condition)) {
+      narrow(this.range(index, condition));
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Documents containing any term of a $text search. Invalid searches are left
+   * for the filter to reject.
+   */
+  private planText(search: any): Set<string> | undefined {
+    const index = Array.from(this.indexes.values()).find(candidate => candidate.text);
+    if (!index || !search || typeof search.$search !== 'string') {
+      return undefined;
+    }
+    return this.lookup(index, parseSearch(search.$search).terms);
+  }
+
+  private lookup(index: IndexState, values: any[]): Set<string> {
+    const ids = new Set<string>();
+    for (const value of values) {
+      for (const id of index.entries.get(keyOf(value)) || []) {
+        ids.add(id);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Range scan over values of the bound's type. Values of other types are
+   * always candidates, since JavaScript comparisons coerce across types.
+   */
+  private range(index: IndexState, condition: { [operator: string]: any }): Set<string> | undefined {
+    const bounds = RANGE_OPERATORS.filter(operator => operator in condition);
+    const type = typeof condition[bounds[0]];
+    if ((type !== 'number' && type !== 'string') || bounds.some(operator => typeof condition[operator] !== type)) {
+      return undefined;
+    }
+
+    const sorted = this.sortedKeys(index);
+    const inRange = (value: any) =>
+      (!('$gt' in condition) || value > condition.$gt) &&
+      (!('$gte' in condition) || value >= condition.$gte) &&
+      (!('$lt' in condition) || value < condition.$lt) &&
+      (!('$lte' in condition) || value <= condition.$lte);
+
+    const typed: Array<{ value: any; key: string }> = type === 'number' ? sorted.numbers : sorted.strings;
+    // With both $gt and $gte the tighter one decides where the range starts
+    const lowers = ['$gt', '$gte'].filter(operator => operator in condition).map(operator => condition[operator]);
+    const lower = lowers.length > 0 ? lowers.reduce((a, b) => (b > a ? b : a)) : undefined;
+    const uppers = ['$lt', '$lte'].filter(operator => operator in condition).map(operator => condition[operator]);
+    const upper = uppers.length > 0 ? uppers.reduce((a, b) => (b < a ? b : a)) : undefined;
+    let start = 0;
+    if (lower !== undefined) {
+      // First value not below the lower bound
+      let end = typed.length;
+      while (start < end) {
+        const middle = (start + end) >> 1;
+        if (typed[middle].value < lower) {
+          start = middle + 1;
+        } else {
+          end = middle;
+        }
+      }
+    }
+
+    const keys: string[] = [];
+    for (let i = start; i < typed.length; i++) {
+      if (inRange(typed[i].value)) {
+        keys.push(typed[i].key);
+      } else if (upper !== undefined && typed[i].value > upper) {
+        break; // Past the upper bound
+      }
+    }
+
+    const otherKeys = type === 'number' ? [...sorted.strings.map(entry => entry.key), ...sorted.others] : [...sorted.numbers.map(entry => entry.key), ...sorted.others];
+    const ids = new Set<string>();
+    for (const key of [...keys, ...otherKeys]) {
+      for (const id of index.entries.get(key) || []) {
+        ids.add(id);
+      }
+    }
+    return ids;
+  }
+
+  private sortedKeys(index: IndexState): SortedKeys {
+    if (index.sorted) {
+      return index.sorted;
+    }
+
+    const sorted: SortedKeys = { numbers: [], strings: [], others: [] };
+    for (const key of index.entries.keys()) {
+      if (key === MISSING_KEY) {
+        continue; // Comparisons with undefined are always false
+      }
+      const value = key === OTHER_KEY ? undefined : JSON.parse(key);
+      if (typeof value === 'number') {
+        sorted.numbers.push({ value, key });
+      } else if (typeof value === 'string') {
+        sorted.strings.push({ value, key });
+      } else {
+        sorted.others.push(key);
+      }
+    }
+    sorted.numbers.sort((a, b) => a.value - b.value);
+    sorted.strings.sort((a, b) => (a.value < b.value ? -1 : a.value > b.value ? 1 : 0));
+
+    index.sorted = sorted;
+    return sorted;
+  }
+
+  private keysFor(index: IndexState, doc: DBDocument): string[] {
+    if (index.text) {
+      const terms = Object.keys(index.text).flatMap(field => termsOf(getNestedValue(doc, field)));
+      return Array.from(new Set(terms.map(keyOf)));
+    }
+
+    const value = getNestedValue(doc, index.field);
+    if (value === undefined) {
+      return [MISSING_KEY];
+    }
+
+    // Values without a key still have to be candidates for range scans, which may coerce them
+    const values = Array.isArray(value) ? value : [value];
+    const keys = values.map(item => isIndexable(item) ? keyOf(item) : OTHER_KEY);
+    return Array.from(new Set(keys));
+  }
+
+  private addEntries(index: IndexState, id: string, keys: string[]): void {
+    index.keysById.set(id, keys);
+    for (const key of keys) {
+      if (!index.entries.has(key)) {
+        index.entries.set(key, new Set());
+        index.sorted = undefined;
+      }
+      index.entries.get(key)!.add(id);
+    }
+  }
+
+  private removeEntries(index: IndexState, id: string): void {
+    for (const key of index.keysById.get(id) || []) {
+      const ids = index.entries.get(key);
+      ids?.delete(id);
+      if (ids && ids.size === 0) {
+        index.entries.delete(key);
+        index.sorted = undefined;
+      }
+    }
+    index.keysById.delete(id);
+    this.removeUniqueKey(index, id);
+  }
+}
+
+/**
+ * Default index name, e.g. `age_1_name_-1`
+ */
+export function indexName(spec: IndexSpec): string {
+  return Object.entries(spec).map(([field, direction]) => `${field}_${direction}`).join('_');
+}
+
+/**
+ * Only primitives and dates are indexed; lookups for anything else fall back to a scan
+ */
+function isIndexable(value: any): boolean {
+  return value === null || typeof value === 'string' || typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value)) ||
+    (value instanceof Date && Number.isFinite(value.getTime()));
+}
+
+function sameDefinition(a: IndexInfo, b: IndexInfo): boolean {
+  return JSON.stringify(a.key) === JSON.stringify(b.key) &&
+    !a.unique === !b.unique &&
+    a.expireAfterSeconds === b.expireAfterSeconds &&
+    JSON.stringify(a.weights) === JSON.stringify(b.weights);
+}
+
+/**
+ * Milliseconds since the epoch for dates, ISO strings and timestamps. Other
+ * strings are not dates, even where Date.parse would read them (e.g. "3").
+ */
+function toTime(value: any): number | undefined {
+  const time = value instanceof Date ? value.getTime() : typeof value === 'string' ? (ISO_DATE.test(value) ? Date.parse(value) : undefined) : value;
+  return typeof time === 'number' && Number.isFinite(time) ? time : undefined;
+}
+
+/**
+ * Dates are keyed apart from strings, since equality never matches the two
+ */
+function keyOf(value: any): string {
+  return value instanceof Date ? JSON.stringify({ $date: value.getTime() }) : JSON.stringify(value);
+}
+
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  return new Set(Array.from(small).filter(id => large.has(id)));
+}
@@ -0,0 +1,33 @@
+/**
+ * Compares two Discord snowflake ids numerically without losing precision.
+ * Snowflakes are unsigned 64-bit integers encoded as decimal strings.
+ */
+export function compareSnowflakes(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return a.length - b.length;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Returns the newest (largest) snowflake among the given ids
+ */
+export function maxSnowflake(ids: string[]): string | undefined {
+  return ids.reduce<string | undefined>(
+    (max, id) => (max === undefined || compareSnowflakes(id, max) > 0 ? id : max),
+    undefined
+  );
+}
+
+// First second of 2015, the epoch of Discord snowflakes
+const DISCORD_EPOCH = 1420070400000;
+
+/**
+ * Creation time of a snowflake in epoch milliseconds, or undefined if the id is not a snowflake
+ */
+export function snowflakeTimestamp(id: string): number | undefined {
+  if (!/^\d+$/.test(id)) {
+    return undefined;
+  }
+  return Number(BigInt(id) >> BigInt(22)) + DISCORD_EPOCH;
+}
@@ -0,0 +1,148 @@
+import { ValidationError } from '../types';
+
+// Common English words that carry no meaning for search
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'she',
+  'so', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was',
+  'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with', 'would', 'you', 'your'
+]);
+
+// Longest first, so 'ies' wins over 's'
+const SUFFIXES: Array<[string, string]> = [
+  ['ational', 'ate'], ['fulness', 'ful'], ['iveness', 'ive'], ['ization', 'ize'], ['ousness', 'ous'],
+  ['ments', 'ment'], ['ingly', ''], ['edly', ''], ['ness', ''], ['sses', 'ss'], ['ings', ''], ['ing', ''], ['ies', 'y'],
+  ['ied', 'y'], ['ers', 'er'], ['ed', ''], ['ly', ''], ['ss', 'ss'], ['s', '']
+];
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * A parsed `$search` string: plain terms, "quoted phrases" and -negated terms
+ */
+export interface ParsedSearch {
+  terms: string[]; // stemmed terms, including those of phrases
+  phrases: string[][]; // words of each phrase
+  negated: string[]; // stemmed terms that exclude a document
+}
+
+export interface WeightedText {
+  value: any; // a string or an array of strings
+  weight: number;
+}
+
+/**
+ * Split text into lowercase words, ignoring punctuation and diacritics
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 0);
+}
+
+/**
+ * Strip common English suffixes so that e.g. 'notes', 'noted' and 'noting'
+ * share a term. Deliberately simple: it only needs to be consistent.
+ */
+export function stem(word: string): string {
+  let stemmed = word;
+  const rule = SUFFIXES.find(([suffix, replacement]) =>
+    word.endsWith(suffix) && word.length - suffix.length + replacement.length >= MIN_STEM_LENGTH);
+  if (rule) {
+    stemmed = word.slice(0, word.length - rule[0].length) + rule[1];
+    // 'running' -> 'runn' -> 'run'
+    if (stemmed !== word && /([^aeioulsz])\1$/.test(stemmed)) {
+      stemmed = stemmed.slice(0, -1);
+    }
+  }
+  // 'note', 'notes' and 'noted' all become 'not'
+  return stemmed.length > MIN_STEM_LENGTH && stemmed.endsWith('e') ? stemmed.slice(0, -1) : stemmed;
+}
+
+/**
+ * The searchable terms of a text: stemmed words without stop words
+ */
+export function textTerms(text: string): string[] {
+  return tokenize(text).filter(word => !STOP_WORDS.has(word)).map(stem);
+}
+
+/**
+ * Terms of a string or an array of strings; other values have none
+ */
+export function termsOf(value: any): string[] {
+  return stringsOf(value).flatMap(textTerms);
+}
+
+export function parseSearch(search: string): ParsedSearch {
+  if (typeof search !== 'string') {
+    throw new ValidationError('$text requires a $search string');
+  }
+
+  const phrases: string[][] = [];
+  const rest = search.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const words = tokenize(phrase);
+    if (words.length > 0) {
+      phrases.push(words);
+    }
+    return ' ';
+  });
+
+  const terms: string[] = [];
+  const negated: string[] = [];
+  for (const part of rest.split(/\s+/)) {
+    const target = part.startsWith('-') ? negated : terms;
+    target.push(...textTerms(part));
+  }
+  phrases.forEach(words => terms.push(...words.filter(word => !STOP_WORDS.has(word)).map(stem)));
+
+  return { terms: Array.from(new Set(terms)), phrases, negated: Array.from(new Set(negated)) };
+}
+
+/**
+ * Relevance of weighted fields for a search, or 0 when they do not match. A
+ * match needs at least one term, every phrase and none of the negated terms.
+ * Each field adds its weight times the occurrences of search terms, damped by
+ * the field's length so that short, focused fields rank higher.
+ */
+export function scoreText(fields: WeightedText[], search: ParsedSearch): number {
+  const texts = fields.map(field => ({ texts: stringsOf(field.value), weight: field.weight }));
+  const all = texts.flatMap(field => field.texts);
+
+  if (search.phrases.some(phrase => !all.some(text => containsPhrase(tokenize(text), phrase)))) {
+    return 0;
+  }
+
+  let score = 0;
+  for (const field of texts) {
+    for (const text of field.texts) {
+      const terms = textTerms(text);
+      if (terms.some(term => search.negated.includes(term))) {
+        return 0;
+      }
+      const occurrences = terms.filter(term => search.terms.includes(term)).length;
+      if (occurrences > 0) {
+        score += (field.weight * occurrences) / Math.sqrt(terms.length);
+      }
+    }
+  }
+  return score;
+}
+
+function stringsOf(value: any): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  return Array.isArray(value) ? value.filter(item => typeof item === 'string') : [];
+}
+
+function containsPhrase(words: string[], phrase: string[]): boolean {
+  for (let start = 0; start + phrase.length <= words.length; start++) {
+    if (phrase.every((word, i) => words[start + i] === word)) {
+      return true;
+    }
+  }
+  return false;
+}
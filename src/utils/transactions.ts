@@ -0,0 +1,215 @@
+import {
+  DBDocument,
+  Filter,
+  UpdateFilter,
+  UpdateOptions,
+  QueryOptions,
+  TextSearch,
+  InsertResult,
+  UpdateResult,
+  DeleteResult,
+  FindResult,
+  ValidationError,
+  DuplicateKeyError
+} from '../types';
+import { matchesFilter, sortDocuments, applyProjection, applyPagination, textScore, TextScorer } from './filters';
+import { updateWrite, replaceWrite, SingleWrite } from './updates';
+
+export const JOURNAL_ID_PREFIX = '$txn:'; // _id prefix of the messages journaling transactions
+
+export type JournalState = 'pending' | 'committed';
+
+/**
+ * A document written by a transaction: its version when the transaction
+ * started and the one it commits, null where the document does not exist
+ */
+export interface TransactionChange {
+  _id: string;
+  before: DBDocument | null;
+  after: DBDocument | null;
+}
+
+/**
+ * The write-ahead record of a transaction, stored as a message before any of
+ * its changes are applied
+ */
+export interface TransactionJournal extends DBDocument {
+  _id: string;
+  state: JournalState;
+  startedAt: number; // ms since the epoch
+  changes: TransactionChange[];
+}
+
+export interface SessionOptions {
+  prepareInsert: (document: Partial<DBDocument>) => DBDocument; // assigns an _id where missing
+  textWeights?: { [field: string]: number };
+}
+
+export function isJournal(document: DBDocument): document is TransactionJournal {
+  return typeof document._id === 'string' && document._id.startsWith(JOURNAL_ID_PREFIX);
+}
+
+/**
+ * The operations available inside a transaction. Reads see the documents as
+ * they were when the transaction started plus its own writes; writes are held
+ * back until the transaction commits.
+ */
+export class TransactionSession {
+  private snapshot: Map<string, DBDocument>;
+  private writes: Map<string, DBDocument | null> = new Map(); // id -> written document, null once deleted
+  private ended = false;
+
+  constructor(documents: DBDocument[], private options: SessionOptions) {
+    this.snapshot = new Map(documents.map(doc => [doc._id!, doc]));
+  }
+
+  async find<T = DBDocument>(filter: Filter = {}, options: QueryOptions = {}): Promise<FindResult<T>> {
+    this.checkActive();
+    if (options.populate) {
+      throw new ValidationError('populate is not supported inside a transaction');
+    }
+
+    let documents = this.match(filter);
+    const textScorer = this.textScorer(filter);
+    if (options.sort) {
+      documents = sortDocuments(documents, options.sort, textScorer);
+    }
+
+    const total = documents.length;
+    documents = applyPagination(documents, options.skip, options.limit);
+    if (options.projection) {
+      documents = applyProjection(documents, options.projection, textScorer);
+    }
+
+    return {
+      documents: documents as T[],
+      total,
+      hasMore: options.limit ? (options.skip || 0) + documents.length < total : false
+    };
+  }
+
+  async findOne<T = DBDocument>(filter: Filter = {}): Promise<T | null> {
+    const result = await this.find<T>(filter, { limit: 1 });
+    return result.documents[0] || null;
+  }
+
+  async countDocuments(filter: Filter = {}): Promise<number> {
+    this.checkActive();
+    return this.match(filter).length;
+  }
+
+  /**
+   * Insert a document. The message holding it is only sent on commit, so the
+   * result has no messageId.
+   */
+  async insertOne(document: Partial<DBDocument>): Promise<Omit<InsertResult, 'messageId'>> {
+    this.checkActive();
+    const doc = this.options.prepareInsert(document);
+    if (this.current(doc._id!)) {
+      throw new DuplicateKeyError(`Duplicate key: a document with _id "${doc._id}" already exists`, '_id_', { _id: doc._id });
+    }
+
+    this.writes.set(doc._id!, doc);
+    return { acknowledged: true, insertedId: doc._id! };
+  }
+
+  async updateOne(filter: Filter, update: UpdateFilter, options: UpdateOptions = {}): Promise<UpdateResult> {
+    this.checkActive();
+    return this.writeOne(filter, updateWrite(filter, update, options));
+  }
+
+  async updateMany(filter: Filter, update: UpdateFilter, options: UpdateOptions = {}): Promise<UpdateResult> {
+    this.checkActive();
+    const write = updateWrite(filter, update, options);
+    const documents = this.match(filter);
+    if (documents.length === 0) {
+      return this.writeOne(filter, write);
+    }
+
+    documents.forEach(doc => this.writes.set(doc._id!, write.modify(doc)));
+    return { acknowledged: true, matchedCount: documents.length, modifiedCount: documents.length };
+  }
+
+  async replaceOne(filter: Filter, replacement: Partial<DBDocument>, options: { upsert?: boolean } = {}): Promise<UpdateResult> {
+    this.checkActive();
+    return this.writeOne(filter, replaceWrite(filter, replacement, options.upsert));
+  }
+
+  async deleteOne(filter: Filter): Promise<DeleteResult> {
+    this.checkActive();
+    const { matchedCount } = await this.writeOne(filter, { modify: () => null });
+    return { acknowledged: true, deletedCount: matchedCount };
+  }
+
+  async deleteMany(filter: Filter): Promise<DeleteResult> {
+    this.checkActive();
+    const documents = this.match(filter);
+    documents.forEach(doc => this.writes.set(doc._id!, null));
+    return { acknowledged: true, deletedCount: documents.length };
+  }
+
+  /**
+   * The documents this transaction writes, in the order first written.
+   * Documents it both inserts and deletes are left out.
+   */
+  changes(): TransactionChange[] {
+    const changes: TransactionChange[] = [];
+    for (const [id, after] of this.writes) {
+      const before = this.snapshot.get(id) ?? null;
+      if (before || after) {
+        changes.push({ _id: id, before, after });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Close the session; called by DiscordDB once the transaction callback returns
+   */
+  end(): void {
+    this.ended = true;
+  }
+
+  private async writeOne(filter: Filter, write: SingleWrite): Promise<UpdateResult> {
+    const [document] = this.match(filter);
+    if (document) {
+      this.writes.set(document._id!, write.modify(document));
+      return { acknowledged: true, matchedCount: 1, modifiedCount: 1 };
+    }
+
+    if (!write.upsert) {
+      return { acknowledged: true, matchedCount: 0, modifiedCount: 0 };
+    }
+    const { insertedId } = await this.insertOne(write.upsert());
+    return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedId: insertedId };
+  }
+
+  private current(id: string): DBDocument | undefined {
+    return this.writes.has(id) ? this.writes.get(id) ?? undefined : this.snapshot.get(id);
+  }
+
+  private match(filter: Filter): DBDocument[] {
+    const documents = new Map(this.snapshot);
+    for (const [id, doc] of this.writes) {
+      if (doc) {
+        documents.set(id, doc);
+      } else {
+        documents.delete(id);
+      }
+    }
+
+    const matchOptions = { textWeights: this.options.textWeights };
+    return Array.from(documents.values()).filter(doc => matchesFilter(doc, filter, matchOptions));
+  }
+
+  private textScorer(filter: Filter): TextScorer | undefined {
+    const search = filter?.$text;
+    return search ? doc => textScore(doc, search as TextSearch, this.options.textWeights) : undefined;
+  }
+
+  private checkActive(): void {
+    if (this.ended) {
+      throw new ValidationError('The transaction has already ended');
+    }
+  }
+}
@@ -1,10 +1,40 @@
-import { UpdateFilter, UpdateOperators, DBDocument } from '../types';
+import { UpdateFilter, UpdateOperators, UpdateOptions, PushModifiers, DBDocument, Filter, ValidationError } from '../types';
+import { isOperatorObject, matchesFilter, sortDocuments, compareForSort } from './filters';
+import { isPlainObject } from './expressions';
+
+const UPDATE_OPERATORS = new Set([
+  '$set', '$setOnInsert', '$unset', '$rename', '$inc', '$mul', '$min', '$max',
+  '$currentDate', '$push', '$pop', '$pull', '$pullAll', '$addToSet'
+]);
+const PUSH_MODIFIERS = new Set(['$each', '$position', '$slice', '$sort']);
+const POSITIONAL_SEGMENT = /^\$(\[([a-z][a-zA-Z0-9]*)?\])?$/; // $, $[] and $[identifier]
+
+// A write to the first document matching a filter
+export interface SingleWrite {
+  modify: (document: DBDocument) => DBDocument | null; // The new version, or null to delete it
+  upsert?: () => DBDocument; // The document to insert when nothing matches
+}
+
+export interface ApplyUpdateOptions {
+  isInsert?: boolean; // An upsert is creating the document, so $setOnInsert applies
+  filter?: Filter; // The query that matched the document, which the positional $ refers to
+  arrayFilters?: Filter[]; // Conditions on array elements, one per $[identifier]
+}
 
 /**
- * Applies update operations to a document
+ * Applies update operations to a document. Paths may address array elements
+ * by index, by the positional $ (the first element matched by `filter`), by $[]
+ * (every element) or by $[identifier] (the elements matching an array filter).
  */
-export function applyUpdate(document: DBDocument, update: UpdateFilter): DBDocument {
-  const updatedDoc = { ...document };
+export function applyUpdate(document: DBDocument, update: UpdateFilter, options: ApplyUpdateOptions = {}): DBDocument {
+  // Nested objects are copied too, so the original document is left untouched
+  const updatedDoc = cloneValue(document);
+  const arrayFilters = arrayFiltersByIdentifier(options.arrayFilters);
+
+  // Entries of an operator, with positional segments resolved against the document as it is now
+  const fieldsOf = <T>(fields: { [key: string]: T }): Array<[string, T]> =>
+    Object.entries(fields).flatMap(([key, value]) =>
+      resolvePaths(updatedDoc, key, options.filter, arrayFilters).map((path): [string, T] => [path, value]));
 
   // If update is a direct object (not using operators), use $set behavior
   if (!isUpdateOperators(update)) {
@@ -15,69 +45,159 @@ export function applyUpdate(document: DBDocument, update: UpdateFilter): DBDocum
 
   // Apply $set operations
   if (operators.$set) {
-    Object.entries(operators.$set).forEach(([key, value]) => {
+    fieldsOf(operators.$set).forEach(([key, value]) => {
+      setNestedValue(updatedDoc, key, value);
+    });
+  }
+
+  // Apply $setOnInsert operations
+  if (operators.$setOnInsert && options.isInsert) {
+    fieldsOf(operators.$setOnInsert).forEach(([key, value]) => {
       setNestedValue(updatedDoc, key, value);
     });
   }
 
   // Apply $unset operations
   if (operators.$unset) {
-    Object.keys(operators.$unset).forEach(key => {
+    fieldsOf(operators.$unset).forEach(([key]) => {
       unsetNestedValue(updatedDoc, key);
     });
   }
 
+  // Apply $rename operations
+  if (operators.$rename) {
+    Object.entries(operators.$rename).forEach(([key, target]) => {
+      const value = getNestedValue(updatedDoc, key);
+      if (value !== undefined) {
+        unsetNestedValue(updatedDoc, key);
+        setNestedValue(updatedDoc, target, value);
+      }
+    });
+  }
+
   // Apply $inc operations
   if (operators.$inc) {
-    Object.entries(operators.$inc).forEach(([key, increment]) => {
-      const currentValue = getNestedValue(updatedDoc, key) || 0;
-      if (typeof currentValue === 'number' && typeof increment === 'number') {
-        setNestedValue(updatedDoc, key, currentValue + increment);
+    fieldsOf(operators.$inc).forEach(([key, increment]) => {
+      setNestedValue(updatedDoc, key, numberAt(updatedDoc, '$inc', key) + increment);
+    });
+  }
+
+  // Apply $mul operations (a missing field becomes 0)
+  if (operators.$mul) {
+    fieldsOf(operators.$mul).forEach(([key, factor]) => {
+      setNestedValue(updatedDoc, key, numberAt(updatedDoc, '$mul', key) * factor);
+    });
+  }
+
+  // Apply $min and $max operations
+  if (operators.$min) {
+    fieldsOf(operators.$min).forEach(([key, value]) => {
+      const currentValue = getNestedValue(updatedDoc, key);
+      if (currentValue === undefined || compareForSort(value, currentValue) < 0) {
+        setNestedValue(updatedDoc, key, value);
       }
     });
   }
 
+  if (operators.$max) {
+    fieldsOf(operators.$max).forEach(([key, value]) => {
+      const currentValue = getNestedValue(updatedDoc, key);
+      if (currentValue === undefined || compareForSort(value, currentValue) > 0) {
+        setNestedValue(updatedDoc, key, value);
+      }
+    });
+  }
+
+  // Apply $currentDate operations (timestamps are milliseconds since the epoch)
+  if (operators.$currentDate) {
+    fieldsOf(operators.$currentDate).forEach(([key, type]) => {
+      const isTimestamp = typeof type === 'object' && type.$type === 'timestamp';
+      setNestedValue(updatedDoc, key, isTimestamp ? Date.now() : new Date());
+    });
+  }
+
   // Apply $push operations
   if (operators.$push) {
-    Object.entries(operators.$push).forEach(([key, value]) => {
-      const currentValue = getNestedValue(updatedDoc, key);
-      if (Array.isArray(currentValue)) {
-        setNestedValue(updatedDoc, key, [...currentValue, value]);
-      } else {
-        setNestedValue(updatedDoc, key, [value]);
+    fieldsOf(operators.$push).forEach(([key, value]) => {
+      const modifiers: PushModifiers = isOperatorObject(value) ? value : { $each: [value] };
+      setNestedValue(updatedDoc, key, pushItems(arrayAt(updatedDoc, '$push', key) || [], modifiers));
+    });
+  }
+
+  // Apply $pop operations: 1 removes the last element, -1 the first
+  if (operators.$pop) {
+    fieldsOf(operators.$pop).forEach(([key, end]) => {
+      const currentValue = arrayAt(updatedDoc, '$pop', key);
+      if (currentValue) {
+        setNestedValue(updatedDoc, key, end === 1 ? currentValue.slice(0, -1) : currentValue.slice(1));
       }
     });
   }
 
   // Apply $pull operations
   if (operators.$pull) {
-    Object.entries(operators.$pull).forEach(([key, value]) => {
-      const currentValue = getNestedValue(updatedDoc, key);
-      if (Array.isArray(currentValue)) {
-        const filteredArray = currentValue.filter(item => !deepEqual(item, value));
-        setNestedValue(updatedDoc, key, filteredArray);
+    fieldsOf(operators.$pull).forEach(([key, condition]) => {
+      const currentValue = arrayAt(updatedDoc, '$pull', key);
+      if (currentValue) {
+        setNestedValue(updatedDoc, key, currentValue.filter(item => !matchesPullCondition(item, condition)));
+      }
+    });
+  }
+
+  // Apply $pullAll operations
+  if (operators.$pullAll) {
+    fieldsOf(operators.$pullAll).forEach(([key, values]) => {
+      const currentValue = arrayAt(updatedDoc, '$pullAll', key);
+      if (currentValue) {
+        setNestedValue(updatedDoc, key, currentValue.filter(item => !values.some(value => deepEqual(item, value))));
       }
     });
   }
 
   // Apply $addToSet operations
   if (operators.$addToSet) {
-    Object.entries(operators.$addToSet).forEach(([key, value]) => {
-      const currentValue = getNestedValue(updatedDoc, key);
-      if (Array.isArray(currentValue)) {
-        const exists = currentValue.some(item => deepEqual(item, value));
-        if (!exists) {
-          setNestedValue(updatedDoc, key, [...currentValue, value]);
+    fieldsOf(operators.$addToSet).forEach(([key, value]) => {
+      const items: any[] = isOperatorObject(value) ? value.$each : [value];
+      const result = [...(arrayAt(updatedDoc, '$addToSet', key) || [])];
+      items.forEach(item => {
+        if (!result.some(existing => deepEqual(existing, item))) {
+          result.push(item);
         }
-      } else {
-        setNestedValue(updatedDoc, key, [value]);
-      }
+      });
+      setNestedValue(updatedDoc, key, result);
     });
   }
 
   return updatedDoc;
 }
 
+/**
+ * Builds the document an upsert inserts when nothing matches: the equality
+ * conditions of the filter, including those inside $and, with the update
+ * applied on top
+ */
+export function buildUpsertDocument(filter: Filter, update: UpdateFilter): DBDocument {
+  const document: DBDocument = {};
+  collectEqualities(filter, document);
+  return applyUpdate(document, update, { isInsert: true });
+}
+
+function collectEqualities(filter: Filter, target: DBDocument): void {
+  Object.entries(filter || {}).forEach(([key, value]) => {
+    if (key === '$and' && Array.isArray(value)) {
+      value.forEach(subFilter => collectEqualities(subFilter as Filter, target));
+    } else if (key.startsWith('$') || value instanceof RegExp) {
+      return;
+    } else if (isOperatorObject(value)) {
+      if ('$eq' in (value as object)) {
+        setNestedValue(target, key, (value as { $eq: any }).$eq);
+      }
+    } else {
+      setNestedValue(target, key, value);
+    }
+  });
+}
+
 /**
  * Checks if the update object uses update operators
  */
@@ -100,12 +220,29 @@ function setNestedValue(obj: any, path: string, value: any): void {
   for (let i = 0; i < keys.length - 1; i++) {
     const key = keys[i];
     if (!(key in current) || typeof current[key] !== 'object' || current[key] === null) {
-      current[key] = {};
+      // A numeric segment next means the missing container is an array
+      assignKey(current, key, isIndex(keys[i + 1]) ? [] : {});
     }
     current = current[key];
   }
 
-  current[keys[keys.length - 1]] = value;
+  assignKey(current, keys[keys.length - 1], value);
+}
+
+/**
+ * Sets a key of an object or array, padding arrays with nulls up to the index
+ */
+function assignKey(target: any, key: string, value: any): void {
+  if (Array.isArray(target) && isIndex(key)) {
+    while (target.length < Number(key)) {
+      target.push(null);
+    }
+  }
+  target[key] = value;
+}
+
+function isIndex(segment: string | undefined): boolean {
+  return segment !== undefined && /^\d+$/.test(segment);
 }
 
 /**
@@ -123,7 +260,15 @@ function unsetNestedValue(obj: any, path: string): void {
     current = current[key];
   }
 
-  delete current[keys[keys.length - 1]];
+  const last = keys[keys.length - 1];
+  if (Array.isArray(current) && isIndex(last)) {
+    // Like MongoDB, unsetting an array element keeps its position
+    if (Number(last) < current.length) {
+      current[Number(last)] = null;
+    }
+  } else {
+    delete current[last];
+  }
 }
 
 /**
@@ -135,6 +280,176 @@ function getNestedValue(obj: any, path: string): any {
   }, obj);
 }
 
+/**
+ * Expands the positional segments of a path into the concrete paths they
+ * address in a document. Paths without positional segments are returned as is.
+ */
+function resolvePaths(
+  document: DBDocument,
+  path: string,
+  filter: Filter | undefined,
+  arrayFilters: Map<string, Filter>
+): string[] {
+  const segments = path.split('.');
+  let paths: string[][] = [[]];
+
+  segments.forEach((segment, position) => {
+    if (!segment.startsWith('$')) {
+      paths.forEach(resolved => resolved.push(segment));
+      return;
+    }
+
+    paths = paths.flatMap(resolved => {
+      const arrayPath = resolved.join('.');
+      const array = getNestedValue(document, arrayPath);
+      if (!Array.isArray(array)) {
+        throw new Error(`Cannot apply ${segment} to "${arrayPath}": the field must be an array`);
+      }
+
+      let indexes: number[];
+      if (segment === '$') {
+        indexes = [positionalIndex(filter, segments.slice(0, position).join('.'), array)];
+      } else if (segment === '$[]') {
+        indexes = array.map((_, index) => index);
+      } else {
+        const identifier = segment.slice(2, -1);
+        const condition = arrayFilters.get(identifier);
+        if (!condition) {
+          throw new Error(`No array filter found for identifier "${identifier}" in path "${path}"`);
+        }
+        indexes = array.flatMap((element, index) => matchesFilter({ [identifier]: element }, condition) ? [index] : []);
+      }
+      return indexes.map(index => [...resolved, String(index)]);
+    });
+  });
+
+  return paths.map(resolved => resolved.join('.'));
+}
+
+/**
+ * The index the positional $ stands for: the first element of the array that
+ * satisfies every condition the query puts on the array, e.g. an $elemMatch
+ */
+function positionalIndex(filter: Filter | undefined, arrayPath: string, array: any[]): number {
+  const conditions = arrayConditions(filter, arrayPath);
+  const index = conditions.length === 0 ? -1 : array.findIndex(element => {
+    const probe: DBDocument = {};
+    setNestedValue(probe, arrayPath, [element]);
+    return conditions.every(([field, condition]) => matchesFilter(probe, { [field]: condition }));
+  });
+
+  if (index < 0) {
+    throw new Error(`The positional operator did not find the match needed from the query for "${arrayPath}"`);
+  }
+  return index;
+}
+
+function arrayConditions(filter: Filter | undefined, arrayPath: string): Array<[string, any]> {
+  return Object.entries(filter || {}).flatMap(([key, value]): Array<[string, any]> => {
+    if (key === '$and' && Array.isArray(value)) {
+      return value.flatMap(subFilter => arrayConditions(subFilter as Filter, arrayPath));
+    }
+    return key === arrayPath ? [[key, value]] : [];
+  });
+}
+
+/**
+ * Array filters by the identifier their conditions are on, e.g. { 'item.done': false }
+ * is the filter of $[item]
+ */
+function arrayFiltersByIdentifier(arrayFilters: Filter[] = []): Map<string, Filter> {
+  if (!Array.isArray(arrayFilters)) {
+    throw new Error('arrayFilters must be an array of filters');
+  }
+
+  const filters: Map<string, Filter> = new Map();
+  arrayFilters.forEach(arrayFilter => {
+    const identifiers = new Set(Object.keys(isPlainObject(arrayFilter) ? arrayFilter : {}).map(key => key.split('.')[0]));
+    const [identifier] = Array.from(identifiers);
+    if (identifiers.size !== 1 || !POSITIONAL_SEGMENT.test(`$[${identifier}]`)) {
+      throw new Error(`Each array filter must have conditions on a single identifier. Got ${JSON.stringify(arrayFilter)}`);
+    }
+    if (filters.has(identifier)) {
+      throw new Error(`Found multiple array filters with the identifier "${identifier}"`);
+    }
+    filters.set(identifier, arrayFilter);
+  });
+  return filters;
+}
+
+/**
+ * Inserts the $each items at $position (negative counts from the end), then
+ * sorts and trims the array as $push modifiers ask
+ */
+function pushItems(array: any[], modifiers: PushModifiers): any[] {
+  const result = [...array];
+  const position = modifiers.$position ?? result.length;
+  result.splice(position < 0 ? Math.max(result.length + position, 0) : position, 0, ...modifiers.$each);
+
+  let sorted = result;
+  if (typeof modifiers.$sort === 'object') {
+    sorted = sortDocuments(result, modifiers.$sort);
+  } else if (modifiers.$sort !== undefined) {
+    const direction = modifiers.$sort;
+    sorted = [...result].sort((a, b) => compareForSort(a, b) * direction);
+  }
+
+  if (modifiers.$slice === undefined) {
+    return sorted;
+  }
+  return modifiers.$slice < 0 ? sorted.slice(modifiers.$slice) : sorted.slice(0, modifiers.$slice);
+}
+
+/**
+ * $pull removes elements matching a condition: operators and regular expressions
+ * apply to the element itself, objects are queries on the fields of object
+ * elements, and other values must be equal
+ */
+function matchesPullCondition(item: any, condition: any): boolean {
+  if (condition instanceof RegExp || isOperatorObject(condition)) {
+    return matchesFilter({ value: item }, { value: condition });
+  }
+  if (isPlainObject(condition)) {
+    return isPlainObject(item) && matchesFilter(item, condition);
+  }
+  return deepEqual(item, condition);
+}
+
+/**
+ * The array at a path, or undefined when the field is missing
+ */
+function arrayAt(document: DBDocument, operator: string, path: string): any[] | undefined {
+  const value = getNestedValue(document, path);
+  if (value !== undefined && !Array.isArray(value)) {
+    throw new Error(`${operator} operator requires an array. Field "${path}" is not an array`);
+  }
+  return value;
+}
+
+/**
+ * The number at a path, where a missing field counts as 0
+ */
+function numberAt(document: DBDocument, operator: string, path: string): number {
+  const value = getNestedValue(document, path);
+  if (value !== undefined && typeof value !== 'number') {
+    throw new Error(`${operator} operator requires a numeric field. Field "${path}" is ${value === null ? 'null' : typeof value}`);
+  }
+  return value ?? 0;
+}
+
+/**
+ * Deep copy of plain objects and arrays
+ */
+function cloneValue<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(cloneValue) as unknown as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cloneValue(item)])) as T;
+  }
+  return value;
+}
+
 /**
  * Deep equality comparison
  */
@@ -159,32 +474,221 @@ function deepEqual(a: any, b: any): boolean {
 }
 
 /**
- * Validates update operations
+ * The write of an update, validated up front
  */
-export function validateUpdate(update: UpdateFilter): void {
+export function updateWrite(filter: Filter, update: UpdateFilter, options: UpdateOptions): SingleWrite {
+  validateUpdate(update, options.arrayFilters);
+  return {
+    modify: document => applyUpdate(document, update, { filter, arrayFilters: options.arrayFilters }),
+    upsert: options.upsert ? () => buildUpsertDocument(filter, update) : undefined
+  };
+}
+
+/**
+ * The write of a replacement, which keeps the _id and storage fields of the
+ * document it replaces
+ */
+export function replaceWrite(filter: Filter, replacement: Partial<DBDocument>, upsert?: boolean): SingleWrite {
+  validateReplacement(replacement);
+  const fields: DBDocument = { ...replacement };
+  delete fields._messageId;
+  delete fields._timestamp;
+
+  return {
+    modify: document => {
+      if (fields._id !== undefined && fields._id !== document._id) {
+        throw new ValidationError('A replacement cannot change the _id of a document');
+      }
+      return { ...fields, _id: document._id, _messageId: document._messageId, _timestamp: document._timestamp };
+    },
+    // Like MongoDB, only the _id of the filter carries over to an upserted document
+    upsert: upsert
+      ? () => fields._id === undefined && typeof filter?._id === 'string' ? { ...fields, _id: filter._id } : fields
+      : undefined
+  };
+}
+
+/**
+ * Validates a replacement document, which must not use update operators
+ */
+export function validateReplacement(replacement: Partial<DBDocument>): void {
+  if (!replacement || typeof replacement !== 'object' || Array.isArray(replacement)) {
+    throw new Error('Replacement must be an object');
+  }
+
+  if (isUpdateOperators(replacement)) {
+    throw new Error('Replacement must not contain update operators');
+  }
+}
+
+/**
+ * Validates update operations: operator names and arguments, and that no two
+ * operators touch the same field or a field and one of its parents
+ */
+export function validateUpdate(update: UpdateFilter, arrayFilters?: Filter[]): void {
   if (!update || typeof update !== 'object') {
     throw new Error('Update must be an object');
   }
 
-  if (isUpdateOperators(update)) {
-    const operators = update as UpdateOperators;
-    
-    // Validate $inc values are numbers
-    if (operators.$inc) {
-      Object.entries(operators.$inc).forEach(([key, value]) => {
-        if (typeof value !== 'number') {
-          throw new Error(`$inc operator requires numeric values. Got ${typeof value} for field "${key}"`);
-        }
-      });
+  const identifiers = new Set(arrayFiltersByIdentifier(arrayFilters).keys());
+  if (!isUpdateOperators(update)) {
+    if (identifiers.size > 0) {
+      throw new Error('arrayFilters require an update with operators');
     }
+    return;
+  }
 
-    // Validate $unset values
-    if (operators.$unset) {
-      Object.entries(operators.$unset).forEach(([key, value]) => {
-        if (value !== 1 && value !== true) {
-          throw new Error(`$unset operator requires value 1 or true. Got ${value} for field "${key}"`);
-        }
-      });
+  const field = Object.keys(update).find(key => !key.startsWith('$'));
+  if (field !== undefined) {
+    throw new Error(`Update cannot mix operators and fields. Got field "${field}"`);
+  }
+
+  const paths: string[] = [];
+  const usedIdentifiers: Set<string> = new Set();
+  Object.entries(update as UpdateOperators).forEach(([operator, fields]) => {
+    if (!UPDATE_OPERATORS.has(operator)) {
+      throw new Error(`Unknown update operator ${operator}`);
     }
+    if (!isPlainObject(fields)) {
+      throw new Error(`${operator} operator requires an object of fields`);
+    }
+
+    Object.entries(fields).forEach(([key, value]) => {
+      validateOperand(operator, key, value);
+      validatePositional(operator, key, identifiers, usedIdentifiers);
+      claimPath(paths, key);
+      if (operator === '$rename') {
+        validatePositional(operator, value, identifiers, usedIdentifiers);
+        claimPath(paths, value);
+      }
+    });
+  });
+
+  const unused = Array.from(identifiers).find(identifier => !usedIdentifiers.has(identifier));
+  if (unused !== undefined) {
+    throw new Error(`The array filter for identifier "${unused}" was not used in the update`);
+  }
+}
+
+/**
+ * Checks the positional segments of a path, recording the array filters it uses
+ */
+function validatePositional(operator: string, path: string, identifiers: Set<string>, used: Set<string>): void {
+  const segments = path.split('.');
+  const positional = segments.filter(segment => segment.startsWith('$'));
+  if (positional.length === 0) {
+    return;
+  }
+
+  if (operator === '$rename') {
+    throw new Error(`$rename does not support positional operators. Got "${path}"`);
+  }
+  if (segments[0].startsWith('$')) {
+    throw new Error(`A path cannot start with a positional operator. Got "${path}"`);
   }
-} 
\ No newline at end of file
+  if (positional.filter(segment => segment === '$').length > 1) {
+    throw new Error(`A path can only contain one positional $. Got "${path}"`);
+  }
+  positional.forEach(segment => {
+    const match = POSITIONAL_SEGMENT.exec(segment);
+    if (!match) {
+      throw new Error(`Invalid positional operator "${segment}" in path "${path}"`);
+    }
+    const identifier = match[2];
+    if (identifier !== undefined) {
+      if (!identifiers.has(identifier)) {
+        throw new Error(`No array filter found for identifier "${identifier}" in path "${path}"`);
+      }
+      used.add(identifier);
+    }
+  });
+}
+
+function validateOperand(operator: string, key: string, value: any): void {
+  switch (operator) {
+    case '$inc':
+    case '$mul':
+      if (typeof value !== 'number') {
+        throw new Error(`${operator} operator requires numeric values. Got ${typeof value} for field "${key}"`);
+      }
+      break;
+
+    case '$unset':
+      if (value !== 1 && value !== true) {
+        throw new Error(`$unset operator requires value 1 or true. Got ${value} for field "${key}"`);
+      }
+      break;
+
+    case '$rename':
+      if (typeof value !== 'string' || value === '' || value === key) {
+        throw new Error(`$rename operator requires a new field name. Got ${value} for field "${key}"`);
+      }
+      break;
+
+    case '$currentDate':
+      if (value !== true && !(isPlainObject(value) && Object.keys(value).length === 1 &&
+        (value.$type === 'date' || value.$type === 'timestamp'))) {
+        throw new Error(`$currentDate operator requires true or { $type: 'date' | 'timestamp' } for field "${key}"`);
+      }
+      break;
+
+    case '$pop':
+      if (value !== 1 && value !== -1) {
+        throw new Error(`$pop operator requires value 1 or -1. Got ${value} for field "${key}"`);
+      }
+      break;
+
+    case '$pullAll':
+      if (!Array.isArray(value)) {
+        throw new Error(`$pullAll operator requires an array. Got ${typeof value} for field "${key}"`);
+      }
+      break;
+
+    case '$push':
+      if (isOperatorObject(value)) {
+        validatePushModifiers(key, value);
+      }
+      break;
+
+    case '$addToSet':
+      if (isOperatorObject(value) && (Object.keys(value).length !== 1 || !Array.isArray(value.$each))) {
+        throw new Error(`$addToSet operator only supports an $each array as a modifier for field "${key}"`);
+      }
+      break;
+  }
+}
+
+function validatePushModifiers(key: string, modifiers: { [modifier: string]: any }): void {
+  const unknown = Object.keys(modifiers).find(modifier => !PUSH_MODIFIERS.has(modifier));
+  if (unknown) {
+    throw new Error(`Unknown $push modifier ${unknown} for field "${key}"`);
+  }
+  if (!Array.isArray(modifiers.$each)) {
+    throw new Error(`$push modifiers require an $each array for field "${key}"`);
+  }
+
+  (['$position', '$slice'] as const).forEach(modifier => {
+    if (modifiers[modifier] !== undefined && !Number.isInteger(modifiers[modifier])) {
+      throw new Error(`${modifier} modifier requires an integer for field "${key}"`);
+    }
+  });
+
+  const sort = modifiers.$sort;
+  const isDirection = (direction: any) => direction === 1 || direction === -1;
+  if (sort !== undefined && !isDirection(sort) &&
+    !(isPlainObject(sort) && Object.keys(sort).length > 0 && Object.values(sort).every(isDirection))) {
+    throw new Error(`$sort modifier requires 1, -1 or an object of them for field "${key}"`);
+  }
+}
+
+/**
+ * Records a path updated by an operator, rejecting it when an earlier one is
+ * the same field, one of its parents or one of its children
+ */
+function claimPath(paths: string[], path: string): void {
+  const conflict = paths.find(other => other === path || other.startsWith(`${path}.`) || path.startsWith(`${other}.`));
+  if (conflict !== undefined) {
+    throw new Error(`Updating the path "${path}" would create a conflict at "${conflict}"`);
+  }
+  paths.push(path);
+}